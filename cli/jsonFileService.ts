@@ -0,0 +1,209 @@
+/**
+ * @module cli/jsonFileService
+ * @description Implementation of {@link VendorDataService} backed by a local
+ * JSON file, for the CLI's `--file` target.
+ *
+ * The file holds an array of vendors, as written by `vendors export
+ * --format json`. Records are parsed like the other stores (see
+ * `utils/vendorSchema`), so hand-edited files are normalised and records
+ * without a `VendorId` get one on the next write. A missing file reads as an
+ * empty list and is created by the first write. Operations run one at a
+ * time, and writes go to a temporary file that replaces the original, so an
+ * interrupted write cannot truncate it.
+ *
+ * @example
+ * ```ts
+ * const service = createJsonFileService('./vendors.json');
+ * await service.addVendor(vendor);
+ * ```
+ */
+
+import { readFile, rename, writeFile } from 'node:fs/promises';
+import type {
+  Vendor,
+  VendorIssue,
+  NewVendor,
+  SheetsApiResponse,
+  VendorUpdateInput,
+  VendorDeleteInput,
+} from '../src/types/vendor';
+import {
+  checkRevision,
+  checkVendorRecord,
+  vendorNotFound,
+  planVendorAdds,
+  planVendorUpdates,
+  planVendorDeletes,
+  plannedValues,
+  batchResponses,
+  batchFailure,
+  type VendorDataService,
+} from '../src/services/googleSheetsService';
+import { ServiceFailure, serviceError, fieldError, toServiceError } from '../src/services/serviceErrors';
+import { generateVendorId } from '../src/utils/vendorId';
+import { parseVendorRecords } from '../src/utils/vendorSchema';
+
+/**
+ * Creates a vendor data service that reads and writes a JSON file.
+ *
+ * @param path - Path of the JSON file
+ * @returns VendorDataService implementation
+ */
+export function createJsonFileService(path: string): VendorDataService {
+  let queue: Promise<unknown> = Promise.resolve();
+
+  /** Runs an operation after the ones already queued */
+  function exclusive<T>(operation: () => Promise<T>): Promise<T> {
+    const result = queue.then(operation);
+    queue = result.catch(() => undefined);
+    return result;
+  }
+
+  async function read(): Promise<{ vendors: Vendor[]; issues: VendorIssue[] }> {
+    let text: string;
+    try {
+      text = await readFile(path, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return { vendors: [], issues: [] };
+      throw error;
+    }
+
+    let records: unknown;
+    try {
+      records = JSON.parse(text);
+    } catch {
+      throw new ServiceFailure(serviceError('storage', `${path} is not valid JSON`));
+    }
+    if (!Array.isArray(records)) {
+      throw new ServiceFailure(serviceError('storage', `${path} must hold an array of vendors`));
+    }
+    const { vendors, issues } = parseVendorRecords(records);
+    return { vendors, issues };
+  }
+
+  async function save(vendors: Vendor[]): Promise<void> {
+    const temporary = `${path}.${process.pid}.tmp`;
+    await writeFile(temporary, JSON.stringify(vendors, null, 2) + '\n', 'utf8');
+    await rename(temporary, path);
+  }
+
+  async function fetchVendors(): Promise<SheetsApiResponse<Vendor[]>> {
+    try {
+      const { vendors, issues } = await read();
+      return { success: true, data: vendors, issues };
+    } catch (error) {
+      return { success: false, error: toServiceError(error, 'Failed to read vendors') };
+    }
+  }
+
+  async function addVendor(vendor: NewVendor): Promise<SheetsApiResponse<Vendor>> {
+    try {
+      const invalid = checkVendorRecord(vendor);
+      if (invalid) return invalid;
+
+      const { vendors } = await read();
+      if (vendor.VendorId && vendors.some((v) => v.VendorId === vendor.VendorId)) {
+        return {
+          success: false,
+          error: fieldError('duplicate', { VendorId: 'A vendor with this ID already exists.' }),
+        };
+      }
+
+      const record: Vendor = { ...vendor, VendorId: vendor.VendorId || generateVendorId(), Revision: 1 };
+      await save([...vendors, record]);
+      return { success: true, data: record };
+    } catch (error) {
+      return { success: false, error: toServiceError(error, 'Failed to add vendor') };
+    }
+  }
+
+  async function updateVendor(
+    vendorId: string,
+    vendor: NewVendor,
+    expectedRevision?: number
+  ): Promise<SheetsApiResponse<Vendor>> {
+    try {
+      const invalid = checkVendorRecord(vendor);
+      if (invalid) return invalid;
+
+      const { vendors } = await read();
+      const index = vendors.findIndex((v) => v.VendorId === vendorId);
+      const conflict = checkRevision(vendors[index], expectedRevision);
+      if (conflict) return conflict;
+      if (index === -1) return vendorNotFound(vendor.CompanyName);
+
+      const record: Vendor = { ...vendor, VendorId: vendorId, Revision: vendors[index].Revision + 1 };
+      vendors[index] = record;
+      await save(vendors);
+      return { success: true, data: record };
+    } catch (error) {
+      return { success: false, error: toServiceError(error, 'Failed to update vendor') };
+    }
+  }
+
+  async function deleteVendor(vendorId: string, expectedRevision?: number): Promise<SheetsApiResponse<void>> {
+    try {
+      const { vendors } = await read();
+      const conflict = checkRevision(
+        vendors.find((v) => v.VendorId === vendorId),
+        expectedRevision
+      );
+      if (conflict) return conflict;
+
+      const remaining = vendors.filter((v) => v.VendorId !== vendorId);
+      if (remaining.length === vendors.length) return vendorNotFound(vendorId);
+      await save(remaining);
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: toServiceError(error, 'Failed to delete vendor') };
+    }
+  }
+
+  async function addVendors(vendors: NewVendor[]): Promise<SheetsApiResponse<Vendor>[]> {
+    try {
+      const { vendors: stored } = await read();
+      const plans = planVendorAdds(vendors, new Set(stored.map((v) => v.VendorId)));
+      await save([...stored, ...plannedValues(plans)]);
+      return batchResponses(plans, (record) => record);
+    } catch (error) {
+      return batchFailure(vendors.length, toServiceError(error, 'Failed to add vendors'));
+    }
+  }
+
+  async function updateVendors(updates: VendorUpdateInput[]): Promise<SheetsApiResponse<Vendor>[]> {
+    try {
+      const { vendors: stored } = await read();
+      const byId = new Map(stored.map((v) => [v.VendorId, v]));
+      const plans = planVendorUpdates(updates, (vendorId) => byId.get(vendorId));
+      const updated = new Map(plannedValues(plans).map((record) => [record.VendorId, record]));
+      await save(stored.map((v) => updated.get(v.VendorId) ?? v));
+      return batchResponses(plans, (record) => record);
+    } catch (error) {
+      return batchFailure(updates.length, toServiceError(error, 'Failed to update vendors'));
+    }
+  }
+
+  async function deleteVendors(deletes: VendorDeleteInput[]): Promise<SheetsApiResponse<void>[]> {
+    try {
+      const { vendors: stored } = await read();
+      const byId = new Map(stored.map((v) => [v.VendorId, v]));
+      const plans = planVendorDeletes(deletes, (vendorId) => byId.get(vendorId));
+      const deleted = new Set(plannedValues(plans).map((v) => v.VendorId));
+      await save(stored.filter((v) => !deleted.has(v.VendorId)));
+      return batchResponses(plans, () => undefined);
+    } catch (error) {
+      return batchFailure(deletes.length, toServiceError(error, 'Failed to delete vendors'));
+    }
+  }
+
+  return {
+    fetchVendors: () => exclusive(fetchVendors),
+    addVendor: (vendor) => exclusive(() => addVendor(vendor)),
+    updateVendor: (vendorId, vendor, expectedRevision) =>
+      exclusive(() => updateVendor(vendorId, vendor, expectedRevision)),
+    deleteVendor: (vendorId, expectedRevision) => exclusive(() => deleteVendor(vendorId, expectedRevision)),
+    addVendors: (vendors) => exclusive(() => addVendors(vendors)),
+    updateVendors: (updates) => exclusive(() => updateVendors(updates)),
+    deleteVendors: (deletes) => exclusive(() => deleteVendors(deletes)),
+  };
+}
@@ -0,0 +1,89 @@
+/**
+ * @module cli/vendorFile
+ * @description Reads vendor files given to `vendors import` and `vendors diff`.
+ *
+ * JSON files hold an array of vendor objects (the `export --format json`
+ * output); CSV files have a header row naming the vendor fields, in any
+ * order and case (the `export --format csv` output). Other columns are
+ * ignored. Every record is normalised like data read from the sheet (see
+ * `utils/vendorSchema`) and checked against `validateVendorRecord`.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { extname } from 'node:path';
+import type { Vendor, VendorFieldErrors } from '../src/types/vendor';
+import { SHEET_COLUMNS } from '../src/constants/vendor';
+import { normalizeHeader } from '../src/services/sheetColumns';
+import { parseCsv } from '../src/utils/csv';
+import { validateVendorRecord } from '../src/utils/validation';
+import { parseVendorRecords, type RawValue, type VendorColumn } from '../src/utils/vendorSchema';
+
+/** One vendor read from a file */
+export interface FileRecord {
+  /** Where the record is, e.g. `line 4` or `record 2` */
+  location: string;
+  /** The normalised vendor; records without an ID were given a new one */
+  vendor: Vendor;
+  /** Whether the file supplied the `VendorId` */
+  hasId: boolean;
+  /** Problems that make the record invalid (empty if valid) */
+  errors: VendorFieldErrors;
+}
+
+type RawRecord = Partial<Record<VendorColumn, RawValue>>;
+
+const VENDOR_COLUMNS: readonly VendorColumn[] = Object.values(SHEET_COLUMNS);
+
+function csvRecords(text: string): { records: RawRecord[]; location: (index: number) => string } {
+  const [header = [], ...rows] = parseCsv(text);
+  const columns = header.map((name) => VENDOR_COLUMNS.find((field) => field.toLowerCase() === normalizeHeader(name)));
+  const records = rows.map((row) =>
+    Object.fromEntries(
+      columns.flatMap((field, index) => (field ? [[field, row[index] ?? '']] : []))
+    ) as RawRecord
+  );
+  return { records, location: (index) => `line ${index + 2}` };
+}
+
+function jsonRecords(text: string, path: string): { records: RawRecord[]; location: (index: number) => string } {
+  let records: unknown;
+  try {
+    records = JSON.parse(text);
+  } catch {
+    throw new Error(`${path} is not valid JSON`);
+  }
+  if (!Array.isArray(records) || !records.every((record) => typeof record === 'object' && record !== null)) {
+    throw new Error(`${path} must hold an array of vendor objects`);
+  }
+  return { records, location: (index) => `record ${index + 1}` };
+}
+
+/**
+ * Reads and validates the vendors in a JSON or CSV file.
+ *
+ * @param path - File path; `.csv` files are read as CSV, anything else as JSON
+ * @returns One entry per record, in file order
+ * @throws Error when the file cannot be read or has the wrong shape
+ */
+export async function readVendorFile(path: string): Promise<FileRecord[]> {
+  const text = await readFile(path, 'utf8');
+  const { records, location } =
+    extname(path).toLowerCase() === '.csv' ? csvRecords(text) : jsonRecords(text, path);
+
+  const { vendors, issues } = parseVendorRecords(records);
+  return vendors.map((vendor, index) => {
+    const errors: VendorFieldErrors = validateVendorRecord(vendor);
+    issues
+      .filter((issue) => issue.row === index + 1 && issue.severity === 'error' && issue.field !== 'Revision')
+      .forEach((issue) => {
+        errors[issue.field as keyof VendorFieldErrors] ??= issue.message;
+      });
+    const id = records[index].VendorId;
+    return {
+      location: location(index),
+      vendor,
+      hasId: id !== undefined && id !== null && String(id).trim() !== '',
+      errors,
+    };
+  });
+}
@@ -0,0 +1,503 @@
+/**
+ * @module cli/vendors
+ * @description Command-line tool for scripted vendor maintenance: bulk
+ * loads, nightly exports and reconciliations.
+ *
+ * Works against any `VendorDataService`: a Google Sheets worksheet
+ * (authorized with a service account through `googleapis`, like the proxy)
+ * or a local JSON file. Vendors given on the command line go through the
+ * same form rules as `VendorForm` (`validateMandatoryFields`,
+ * `formDataToVendor`); imported files through `validateVendorRecord`.
+ *
+ * Commands:
+ * - `list` — all vendors
+ * - `get <vendorId>` — one vendor
+ * - `add --name … --type … [--products a,b] [--years N] [--date YYYY-MM-DD] [--info …]`
+ * - `update <vendorId> [same options]` — change the given fields
+ * - `delete <vendorId>`
+ * - `import <file.json|file.csv> [--delete-missing]` — add new vendors and
+ *   update changed ones (matched by `VendorId`); with `--delete-missing`,
+ *   also delete vendors not in the file. Nothing is written if any record is invalid.
+ * - `export [--format json|csv] [--output file]` — to stdout unless `--output` is given
+ * - `diff <file>` — what `import` would change
+ *
+ * Target (first match):
+ * - `--file <path>` — local JSON file
+ * - `--spreadsheet <id>` / `GOOGLE_SHEETS_SPREADSHEET_ID` — Google Sheets,
+ *   with `--worksheet` / `GOOGLE_SHEETS_WORKSHEET` (default `Vendors`) and
+ *   service-account credentials from `GOOGLE_APPLICATION_CREDENTIALS`
+ * - `VENDORS_FILE` — local JSON file
+ *
+ * `--dry-run` validates and reports changes without writing; `--json` prints
+ * machine-readable results.
+ *
+ * Exit codes: 0 success, 1 operation failed, 2 usage error, 3 invalid vendor
+ * data, 4 `diff` found differences.
+ *
+ * @example
+ * ```bash
+ * npm run vendors -- import suppliers.csv --spreadsheet your-spreadsheet-id --dry-run
+ * npm run vendors -- export --format csv --output vendors.csv --file vendors.json
+ * ```
+ */
+
+import { writeFile } from 'node:fs/promises';
+import { extname } from 'node:path';
+import { parseArgs } from 'node:util';
+import type {
+  Product,
+  ServiceError,
+  SheetsApiResponse,
+  Vendor,
+  VendorFieldErrors,
+  VendorFormData,
+} from '../src/types/vendor';
+import { BUSINESS_TYPES, PRODUCTS, getDefaultFormValues } from '../src/constants/vendor';
+import { createGoogleSheetsService, type VendorDataService } from '../src/services/googleSheetsService';
+import { SHEETS_SCOPE } from '../src/services/sheetsAuth';
+import { vendorsToCsv } from '../src/utils/csv';
+import {
+  formDataToVendor,
+  validateMandatoryFields,
+  validateVendorRecord,
+  vendorToFormData,
+} from '../src/utils/validation';
+import { diffVendors, isEmptyDiff, sameVendor } from '../src/utils/vendorDiff';
+import { createGoogleAuthProvider } from '../server/proxy/googleAuthProvider';
+import { createJsonFileService } from './jsonFileService';
+import { readVendorFile, type FileRecord } from './vendorFile';
+
+/** Process exit codes */
+const EXIT = {
+  OK: 0,
+  FAILED: 1,
+  USAGE: 2,
+  INVALID: 3,
+  DIFFERENT: 4,
+} as const;
+
+const USAGE = `Usage: vendors <command> [options]
+
+Commands:
+  list                         List all vendors
+  get <vendorId>               Show one vendor
+  add                          Add a vendor (--name, --type, --products, --years, --date, --info)
+  update <vendorId>            Change the given fields of a vendor
+  delete <vendorId>            Delete a vendor
+  import <file>                Add and update vendors from a .json or .csv file
+  export                       Write all vendors as JSON or CSV
+  diff <file>                  Show what importing a file would change
+
+Target:
+  --file <path>                Local JSON file (or VENDORS_FILE)
+  --spreadsheet <id>           Google Sheets spreadsheet (or GOOGLE_SHEETS_SPREADSHEET_ID)
+  --worksheet <name>           Worksheet (or GOOGLE_SHEETS_WORKSHEET; default Vendors)
+
+Options:
+  --name, --type, --products <a,b>, --years <n>, --date <YYYY-MM-DD>, --info
+                               Vendor fields for add and update
+  --delete-missing             import: also delete vendors that are not in the file
+  --format <json|csv>          export format (default: from --output, else json)
+  --output <path>              export to a file instead of stdout
+  --dry-run                    Validate and report, but change nothing
+  --json                       Print results as JSON
+  -h, --help                   Show this help
+
+Exit codes: 0 ok, 1 failed, 2 usage error, 3 invalid vendor data, 4 diff found differences`;
+
+/** An error that ends the command with an exit code */
+class CliError extends Error {
+  readonly exitCode: number;
+  /** Machine-readable detail printed with `--json` */
+  readonly detail?: unknown;
+
+  constructor(message: string, exitCode: number, detail?: unknown) {
+    super(message);
+    this.exitCode = exitCode;
+    this.detail = detail;
+  }
+}
+
+type Options = ReturnType<typeof parseOptions>['values'];
+
+function parseOptions(argv: string[]) {
+  return parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      file: { type: 'string' },
+      spreadsheet: { type: 'string' },
+      worksheet: { type: 'string' },
+      name: { type: 'string' },
+      type: { type: 'string' },
+      products: { type: 'string' },
+      years: { type: 'string' },
+      date: { type: 'string' },
+      info: { type: 'string' },
+      'delete-missing': { type: 'boolean', default: false },
+      format: { type: 'string' },
+      output: { type: 'string' },
+      'dry-run': { type: 'boolean', default: false },
+      json: { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+}
+
+// ─── Output ───────────────────────────────────────────────────────────────────
+
+function createOutput(json: boolean) {
+  return {
+    /** Prints a result: the value with `--json`, the text otherwise */
+    result(value: unknown, text: string): void {
+      console.log(json ? JSON.stringify(value, null, 2) : text);
+    },
+    /** Prints a progress or warning line (stderr, so stdout stays parseable) */
+    note(text: string): void {
+      console.error(text);
+    },
+  };
+}
+
+function describeVendor(vendor: Vendor): string {
+  return `${vendor.CompanyName} (${vendor.VendorId})`;
+}
+
+function vendorTable(vendors: Vendor[]): string {
+  if (vendors.length === 0) return 'No vendors.';
+  const rows = [
+    ['VendorId', 'CompanyName', 'BusinessType', 'Years', 'Onboarded'],
+    ...vendors.map((v) => [v.VendorId, v.CompanyName, v.BusinessType, String(v.YearsInBusiness), v.OnboardingDate]),
+  ];
+  const widths = rows[0].map((_, column) => Math.max(...rows.map((row) => row[column].length)));
+  return rows.map((row) => row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd()).join('\n');
+}
+
+function fieldErrorLines(errors: VendorFieldErrors, prefix = ''): string {
+  return Object.values(errors)
+    .map((message) => `${prefix}${message}`)
+    .join('\n');
+}
+
+// ─── Service results ──────────────────────────────────────────────────────────
+
+function failureExitCode(error: ServiceError): number {
+  return error.code === 'validation' || error.code === 'duplicate' ? EXIT.INVALID : EXIT.FAILED;
+}
+
+/** Returns a successful response's data, or throws its error as a CliError */
+function unwrap<T>(response: SheetsApiResponse<T>): T {
+  if (response.success) return response.data as T;
+  const error = response.error!;
+  const fields = 'fields' in error ? `\n${fieldErrorLines(error.fields, '  ')}` : '';
+  throw new CliError(`${error.message}${fields}`, failureExitCode(error), { error, conflict: response.conflict });
+}
+
+async function fetchAll(service: VendorDataService, output: ReturnType<typeof createOutput>): Promise<Vendor[]> {
+  const response = await service.fetchVendors();
+  const vendors = unwrap(response);
+  const problems = response.issues?.filter((issue) => issue.severity === 'error').length ?? 0;
+  if (problems > 0) output.note(`Warning: ${problems} stored value(s) could not be read; see the portal's data issues.`);
+  return vendors;
+}
+
+function findVendor(vendors: Vendor[], vendorId: string): Vendor {
+  const vendor = vendors.find((candidate) => candidate.VendorId === vendorId);
+  if (!vendor) throw new CliError(`Vendor "${vendorId}" was not found`, EXIT.FAILED);
+  return vendor;
+}
+
+// ─── Vendor options ───────────────────────────────────────────────────────────
+
+/** Applies the vendor field options to form data, as the form would */
+function applyFieldOptions(formData: VendorFormData, options: Options): VendorFormData {
+  const next = { ...formData };
+  if (options.name !== undefined) next.companyName = options.name;
+  if (options.type !== undefined) {
+    const type = options.type.trim();
+    next.businessType =
+      BUSINESS_TYPES.find((candidate) => candidate.toLowerCase() === type.toLowerCase()) ??
+      (type as VendorFormData['businessType']);
+  }
+  if (options.products !== undefined) {
+    next.products = options.products
+      .split(',')
+      .map((product) => product.trim())
+      .filter(Boolean)
+      .map((product) => PRODUCTS.find((p) => p.toLowerCase() === product.toLowerCase()) ?? (product as Product));
+  }
+  if (options.years !== undefined) next.yearsInBusiness = Number(options.years);
+  if (options.date !== undefined) next.onboardingDate = options.date.trim();
+  if (options.info !== undefined) next.additionalInfo = options.info;
+  return next;
+}
+
+/** Validates form data with the form's rules and the data service's rules */
+function validateFormData(formData: VendorFormData) {
+  const mandatory = validateMandatoryFields(formData);
+  if (!mandatory.isValid) {
+    throw new CliError(mandatory.errors.join('\n'), EXIT.INVALID, { errors: mandatory.errors });
+  }
+  const vendor = formDataToVendor(formData);
+  const errors = validateVendorRecord(vendor);
+  if (Object.keys(errors).length > 0) {
+    throw new CliError(fieldErrorLines(errors), EXIT.INVALID, { fields: errors });
+  }
+  return vendor;
+}
+
+/** Reads an import file, failing when any record is invalid */
+async function readValidFile(path: string): Promise<FileRecord[]> {
+  let records: FileRecord[];
+  try {
+    records = await readVendorFile(path);
+  } catch (error) {
+    throw new CliError((error as Error).message, EXIT.USAGE);
+  }
+
+  const invalid = records.filter((record) => Object.keys(record.errors).length > 0);
+  const seen = new Set<string>();
+  const duplicates = records.filter(
+    (record) => record.hasId && (seen.has(record.vendor.VendorId) || !seen.add(record.vendor.VendorId))
+  );
+  if (invalid.length > 0 || duplicates.length > 0) {
+    const lines = [
+      ...invalid.map((record) => `${record.location}: ${Object.values(record.errors).join(' ')}`),
+      ...duplicates.map((record) => `${record.location}: VendorId "${record.vendor.VendorId}" appears more than once.`),
+    ];
+    throw new CliError(`${path} has invalid records; nothing was changed:\n${lines.join('\n')}`, EXIT.INVALID, {
+      invalid: [
+        ...invalid.map(({ location, errors }) => ({ location, fields: errors })),
+        ...duplicates.map(({ location, vendor }) => ({ location, fields: { VendorId: `Duplicate ${vendor.VendorId}` } })),
+      ],
+    });
+  }
+  return records;
+}
+
+/** Vendors from a file, with the stored revision so only content is compared */
+function alignRevisions(records: FileRecord[], stored: Vendor[]): Vendor[] {
+  const revisions = new Map(stored.map((vendor) => [vendor.VendorId, vendor.Revision]));
+  return records.map(({ vendor }) => ({ ...vendor, Revision: revisions.get(vendor.VendorId) ?? vendor.Revision }));
+}
+
+// ─── Target ───────────────────────────────────────────────────────────────────
+
+async function createTarget(options: Options): Promise<VendorDataService> {
+  const spreadsheetId = options.spreadsheet ?? process.env.GOOGLE_SHEETS_SPREADSHEET_ID;
+  const file = options.file ?? (spreadsheetId ? undefined : process.env.VENDORS_FILE);
+  if (file) return createJsonFileService(file);
+
+  if (!spreadsheetId) {
+    throw new CliError('Choose a target with --file or --spreadsheet (see --help)', EXIT.USAGE);
+  }
+
+  // Loaded only for Sheets targets; googleapis takes a moment to load
+  const { google } = await import('googleapis');
+  return createGoogleSheetsService({
+    spreadsheetId,
+    worksheetName: options.worksheet ?? process.env.GOOGLE_SHEETS_WORKSHEET ?? 'Vendors',
+    credentials: createGoogleAuthProvider(new google.auth.GoogleAuth({ scopes: [SHEETS_SCOPE] })),
+    apiBaseUrl: process.env.GOOGLE_SHEETS_API_BASE || undefined,
+    driveApiBaseUrl: process.env.GOOGLE_DRIVE_API_BASE || undefined,
+    dataValidation: process.env.GOOGLE_SHEETS_DATA_VALIDATION !== 'false',
+  });
+}
+
+/** Prepares the target for writing (creates and migrates the worksheet) */
+async function prepareForWrites(service: VendorDataService): Promise<void> {
+  if (service.initialize) unwrap(await service.initialize());
+}
+
+// ─── Commands ─────────────────────────────────────────────────────────────────
+
+function requireArgument(value: string | undefined, name: string): string {
+  if (!value) throw new CliError(`Missing ${name} (see --help)`, EXIT.USAGE);
+  return value;
+}
+
+async function run(argv: string[]): Promise<number> {
+  let parsed: ReturnType<typeof parseOptions>;
+  try {
+    parsed = parseOptions(argv);
+  } catch (error) {
+    throw new CliError((error as Error).message, EXIT.USAGE);
+  }
+  const { values: options, positionals } = parsed;
+  const [command, argument] = positionals;
+  const dryRun = options['dry-run'];
+  const output = createOutput(options.json);
+
+  if (options.help || !command) {
+    console.log(USAGE);
+    return options.help ? EXIT.OK : EXIT.USAGE;
+  }
+
+  const commands: Record<string, () => Promise<number>> = {
+    async list() {
+      const vendors = await fetchAll(await createTarget(options), output);
+      output.result(vendors, vendorTable(vendors));
+      return EXIT.OK;
+    },
+
+    async get() {
+      const vendorId = requireArgument(argument, 'vendor ID');
+      const vendor = findVendor(await fetchAll(await createTarget(options), output), vendorId);
+      output.result(vendor, Object.entries(vendor).map(([field, value]) => `${field}: ${value}`).join('\n'));
+      return EXIT.OK;
+    },
+
+    async add() {
+      const vendor = validateFormData(applyFieldOptions(getDefaultFormValues(), options));
+      if (dryRun) {
+        output.result({ dryRun: true, add: vendor }, `Would add ${vendor.CompanyName}.`);
+        return EXIT.OK;
+      }
+      const service = await createTarget(options);
+      await prepareForWrites(service);
+      const added = unwrap(await service.addVendor(vendor));
+      output.result(added, `Added ${describeVendor(added)}.`);
+      return EXIT.OK;
+    },
+
+    async update() {
+      const vendorId = requireArgument(argument, 'vendor ID');
+      const service = await createTarget(options);
+      const current = findVendor(await fetchAll(service, output), vendorId);
+      const vendor = { ...validateFormData(applyFieldOptions(vendorToFormData(current), options)), VendorId: vendorId };
+      if (sameVendor({ ...vendor, Revision: current.Revision }, current)) {
+        output.result({ unchanged: current }, `${describeVendor(current)} already has these values.`);
+        return EXIT.OK;
+      }
+      if (dryRun) {
+        output.result({ dryRun: true, before: current, after: vendor }, `Would update ${describeVendor(current)}.`);
+        return EXIT.OK;
+      }
+      await prepareForWrites(service);
+      const updated = unwrap(await service.updateVendor(vendorId, vendor, current.Revision));
+      output.result(updated, `Updated ${describeVendor(updated)}.`);
+      return EXIT.OK;
+    },
+
+    async delete() {
+      const vendorId = requireArgument(argument, 'vendor ID');
+      const service = await createTarget(options);
+      const current = findVendor(await fetchAll(service, output), vendorId);
+      if (dryRun) {
+        output.result({ dryRun: true, delete: current }, `Would delete ${describeVendor(current)}.`);
+        return EXIT.OK;
+      }
+      unwrap(await service.deleteVendor(vendorId, current.Revision));
+      output.result({ deleted: current }, `Deleted ${describeVendor(current)}.`);
+      return EXIT.OK;
+    },
+
+    async import() {
+      const path = requireArgument(argument, 'file to import');
+      const records = await readValidFile(path);
+      const service = await createTarget(options);
+      const stored = await fetchAll(service, output);
+      const byId = new Map(stored.map((vendor) => [vendor.VendorId, vendor]));
+      const incoming = alignRevisions(records, stored);
+
+      const adds = incoming.filter((vendor) => !byId.has(vendor.VendorId));
+      const updates = incoming.filter((vendor) => byId.has(vendor.VendorId) && !sameVendor(vendor, byId.get(vendor.VendorId)!));
+      const incomingIds = new Set(incoming.map((vendor) => vendor.VendorId));
+      const deletes = options['delete-missing'] ? stored.filter((vendor) => !incomingIds.has(vendor.VendorId)) : [];
+      const unchanged = incoming.length - adds.length - updates.length;
+      const summary = `${adds.length} to add, ${updates.length} to update, ${deletes.length} to delete, ${unchanged} unchanged`;
+
+      if (dryRun) {
+        output.result({ dryRun: true, add: adds, update: updates, delete: deletes, unchanged }, `Dry run: ${summary}.`);
+        return EXIT.OK;
+      }
+
+      await prepareForWrites(service);
+      // One batch at a time: each reads the rows the previous one may have moved
+      const added = await service.addVendors(adds);
+      const updated = await service.updateVendors(
+        updates.map((vendor) => ({ vendorId: vendor.VendorId, vendor, expectedRevision: vendor.Revision }))
+      );
+      const deleted = await service.deleteVendors(
+        deletes.map((vendor) => ({ vendorId: vendor.VendorId, expectedRevision: vendor.Revision }))
+      );
+
+      const failures = [
+        ...added.map((result, index) => ({ result, action: 'add', vendor: adds[index] })),
+        ...updated.map((result, index) => ({ result, action: 'update', vendor: updates[index] })),
+        ...deleted.map((result, index) => ({ result, action: 'delete', vendor: deletes[index] })),
+      ].filter(({ result }) => !result.success);
+      const counts = {
+        added: added.length - failures.filter((f) => f.action === 'add').length,
+        updated: updated.length - failures.filter((f) => f.action === 'update').length,
+        deleted: deleted.length - failures.filter((f) => f.action === 'delete').length,
+        unchanged,
+      };
+
+      output.result(
+        { ...counts, failed: failures.map(({ action, vendor, result }) => ({ action, vendorId: vendor.VendorId, error: result.error })) },
+        [
+          `Added ${counts.added}, updated ${counts.updated}, deleted ${counts.deleted}, ${unchanged} unchanged.`,
+          ...failures.map(({ action, vendor, result }) => `Could not ${action} ${describeVendor(vendor)}: ${result.error?.message}`),
+        ].join('\n')
+      );
+      if (failures.length === 0) return EXIT.OK;
+      return failures.every(({ result }) => failureExitCode(result.error!) === EXIT.INVALID) ? EXIT.INVALID : EXIT.FAILED;
+    },
+
+    async export() {
+      const format = options.format ?? (options.output && extname(options.output).toLowerCase() === '.csv' ? 'csv' : 'json');
+      if (format !== 'json' && format !== 'csv') throw new CliError(`Unknown format "${format}"`, EXIT.USAGE);
+
+      const vendors = await fetchAll(await createTarget(options), output);
+      const content = format === 'csv' ? vendorsToCsv(vendors) : JSON.stringify(vendors, null, 2) + '\n';
+      if (!options.output) {
+        process.stdout.write(content);
+        return EXIT.OK;
+      }
+      if (!dryRun) await writeFile(options.output, content, 'utf8');
+      output.note(`${dryRun ? 'Would export' : 'Exported'} ${vendors.length} vendors to ${options.output}.`);
+      return EXIT.OK;
+    },
+
+    async diff() {
+      const path = requireArgument(argument, 'file to compare');
+      const records = await readValidFile(path);
+      const stored = await fetchAll(await createTarget(options), output);
+      const diff = diffVendors(stored, alignRevisions(records, stored));
+
+      output.result(
+        diff,
+        isEmptyDiff(diff)
+          ? 'No differences.'
+          : [
+              ...diff.added.map((vendor) => `+ ${describeVendor(vendor)}`),
+              ...diff.changed.map(({ before, after }) => {
+                const fields = (Object.keys(after) as (keyof Vendor)[]).filter((field) => after[field] !== before[field]);
+                return `~ ${describeVendor(after)}: ${fields.map((f) => `${f} "${before[f]}" → "${after[f]}"`).join(', ')}`;
+              }),
+              ...diff.removed.map((vendor) => `- ${describeVendor(vendor)}`),
+            ].join('\n')
+      );
+      return isEmptyDiff(diff) ? EXIT.OK : EXIT.DIFFERENT;
+    },
+  };
+
+  const handler = Object.hasOwn(commands, command) ? commands[command] : undefined;
+  if (!handler) throw new CliError(`Unknown command "${command}" (see --help)`, EXIT.USAGE);
+  return handler();
+}
+
+const json = process.argv.includes('--json');
+try {
+  process.exitCode = await run(process.argv.slice(2));
+} catch (error) {
+  const exitCode = error instanceof CliError ? error.exitCode : EXIT.FAILED;
+  const message = error instanceof Error ? error.message : String(error);
+  if (json) {
+    console.log(JSON.stringify({ error: message, exitCode, ...(error instanceof CliError && (error.detail as object)) }, null, 2));
+  } else {
+    console.error(`Error: ${message}`);
+  }
+  process.exitCode = exitCode;
+}
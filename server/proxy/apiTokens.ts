@@ -0,0 +1,100 @@
+/**
+ * @module server/proxy/apiTokens
+ * @description API tokens for the vendor proxy: the app's vendor routes and
+ * the public REST API (`/api/v1`).
+ *
+ * Each token belongs to a named client (e.g. `procurement`) and grants
+ * scopes: `vendors:read` to list and read vendors, `vendors:write` to create,
+ * change and delete them. Tokens are configured as a JSON array in
+ * `VENDOR_API_TOKENS` and sent as `Authorization: Bearer <token>`.
+ *
+ * @example
+ * ```ts
+ * const tokens = parseApiTokens('[{"name":"bi","token":"…","scopes":["vendors:read"]}]');
+ * const authenticate = createTokenAuthenticator(tokens);
+ * const client = authenticate(req, 'vendors:read'); // throws HttpError 401/403
+ * ```
+ */
+
+import type { IncomingMessage } from 'node:http';
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { HttpError } from './http';
+
+/** Permissions an API token can grant */
+export type ApiScope = 'vendors:read' | 'vendors:write';
+
+const API_SCOPES: readonly ApiScope[] = ['vendors:read', 'vendors:write'];
+
+/** Shortest token accepted, so tokens cannot be guessed */
+const MIN_TOKEN_LENGTH = 24;
+
+/** A client allowed to call the proxy */
+export interface ApiToken {
+  /** Client name, for logs */
+  name: string;
+  /** The secret sent by the client */
+  token: string;
+  /** Granted scopes (default: `vendors:read` only) */
+  scopes: ApiScope[];
+}
+
+/**
+ * Parses the `VENDOR_API_TOKENS` JSON array.
+ *
+ * @param json - e.g. `[{"name":"ap","token":"…","scopes":["vendors:read","vendors:write"]}]`
+ * @throws Error describing the first invalid entry
+ */
+export function parseApiTokens(json: string): ApiToken[] {
+  let entries: unknown;
+  try {
+    entries = JSON.parse(json);
+  } catch {
+    throw new Error('VENDOR_API_TOKENS is not valid JSON');
+  }
+  if (!Array.isArray(entries)) throw new Error('VENDOR_API_TOKENS must be a JSON array');
+
+  return entries.map((entry: unknown, index) => {
+    const { name, token, scopes = ['vendors:read'] } = (entry ?? {}) as Record<string, unknown>;
+    const label = `VENDOR_API_TOKENS[${index}]`;
+    if (typeof name !== 'string' || !name) throw new Error(`${label} needs a name`);
+    if (typeof token !== 'string' || token.length < MIN_TOKEN_LENGTH) {
+      throw new Error(`${label} ("${name}") needs a token of at least ${MIN_TOKEN_LENGTH} characters`);
+    }
+    if (!Array.isArray(scopes) || !scopes.every((scope) => API_SCOPES.includes(scope))) {
+      throw new Error(`${label} ("${name}") has unknown scopes; use ${API_SCOPES.join(', ')}`);
+    }
+    return { name, token, scopes };
+  });
+}
+
+/** Hashes a token, so tokens of any length compare in constant time */
+function digest(token: string): Buffer {
+  return createHash('sha256').update(token).digest();
+}
+
+/** Checks a request's bearer token for a scope; see {@link createTokenAuthenticator} */
+export type TokenAuthenticator = (req: IncomingMessage, scope: ApiScope) => ApiToken;
+
+/**
+ * Creates a function that checks a request's bearer token for a scope.
+ *
+ * @param tokens - The configured tokens
+ * @returns Function returning the matching token, or throwing `HttpError`
+ *   401 (missing or unknown token) or 403 (scope not granted)
+ */
+export function createTokenAuthenticator(tokens: ApiToken[]): TokenAuthenticator {
+  const digests = tokens.map((token) => ({ token, digest: digest(token.token) }));
+
+  return (req, scope) => {
+    const match = /^Bearer\s+(\S+)$/i.exec(req.headers.authorization ?? '');
+    if (!match) throw new HttpError(401, 'Send an API token as "Authorization: Bearer <token>"', 'unauthenticated');
+
+    const presented = digest(match[1]);
+    const client = digests.find((entry) => timingSafeEqual(entry.digest, presented))?.token;
+    if (!client) throw new HttpError(401, 'The API token is not valid', 'unauthenticated');
+    if (!client.scopes.includes(scope)) {
+      throw new HttpError(403, `The API token "${client.name}" does not grant ${scope}`, 'permission_denied');
+    }
+    return client;
+  };
+}
@@ -0,0 +1,50 @@
+/**
+ * @module server/proxy/googleAuthProvider
+ * @description Sheets credential provider backed by `googleapis`' `GoogleAuth`.
+ *
+ * `GoogleAuth` finds the service account the usual way — the key file named by
+ * `GOOGLE_APPLICATION_CREDENTIALS`, or the attached account on Google Cloud —
+ * and caches and refreshes its access tokens. The credentials never leave the
+ * server.
+ *
+ * @example
+ * ```ts
+ * const auth = new google.auth.GoogleAuth({ scopes: [SHEETS_SCOPE] });
+ * const service = createGoogleSheetsService({
+ *   spreadsheetId,
+ *   worksheetName: 'Vendors',
+ *   credentials: createGoogleAuthProvider(auth),
+ * });
+ * ```
+ */
+
+import type { Auth } from 'googleapis';
+import type { SheetsCredentialProvider } from '../../src/types/vendor';
+import { ServiceFailure, serviceError } from '../../src/services/serviceErrors';
+
+/**
+ * Creates a read/write credential provider from a `GoogleAuth` instance.
+ *
+ * @param auth - Configured with the scopes to request
+ * @returns SheetsCredentialProvider for `createGoogleSheetsService`
+ */
+export function createGoogleAuthProvider(auth: Auth.GoogleAuth): SheetsCredentialProvider {
+  let client: Awaited<ReturnType<Auth.GoogleAuth['getClient']>> | null = null;
+
+  return {
+    kind: 'serviceAccount',
+    canWrite: true,
+    async authorize() {
+      client ??= await auth.getClient();
+      const { token } = await client.getAccessToken();
+      if (!token) {
+        throw new ServiceFailure(serviceError('unauthenticated', 'The service account returned no access token'));
+      }
+      return { headers: { Authorization: `Bearer ${token}` }, query: {} };
+    },
+    invalidate() {
+      // Dropping the cached token makes the next getAccessToken() fetch a new one
+      if (client) client.credentials = {};
+    },
+  };
+}
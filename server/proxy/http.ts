@@ -0,0 +1,113 @@
+/**
+ * @module server/proxy/http
+ * @description Request and response helpers shared by the vendor proxy routes.
+ */
+
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { ServiceError, ServiceErrorCode } from '../../src/types/vendor';
+import { serviceError, toServiceError } from '../../src/services/serviceErrors';
+
+/** Largest request body accepted, in bytes */
+const MAX_BODY_BYTES = 1024 * 1024;
+
+/** A request the proxy rejects before reaching a data service */
+export class HttpError extends Error {
+  readonly status: number;
+  readonly code: Exclude<ServiceErrorCode, 'validation' | 'duplicate' | 'schema'>;
+
+  constructor(
+    status: number,
+    message: string,
+    code: Exclude<ServiceErrorCode, 'validation' | 'duplicate' | 'schema'> = 'invalid_request'
+  ) {
+    super(message);
+    this.status = status;
+    this.code = code;
+  }
+}
+
+/** HTTP status reported for each service error code */
+export const STATUS_BY_CODE: Record<ServiceErrorCode, number> = {
+  validation: 400,
+  invalid_request: 400,
+  unauthenticated: 401,
+  permission_denied: 403,
+  not_found: 404,
+  duplicate: 409,
+  conflict: 409,
+  quota_exceeded: 429,
+  unknown: 500,
+  storage: 500,
+  schema: 500,
+  network: 502,
+  unavailable: 503,
+  timeout: 504,
+};
+
+/**
+ * HTTP status for a failed operation. Failures of the proxy's own upstream
+ * credentials are reported as 502, so clients do not mistake them for their
+ * own missing sign-in.
+ */
+export function statusForError(error: ServiceError): number {
+  if (error.status && error.code === 'invalid_request') return error.status;
+  if (error.code === 'unauthenticated' || error.code === 'permission_denied') return 502;
+  return STATUS_BY_CODE[error.code];
+}
+
+/** Converts anything thrown while handling a request to a service error */
+export function toProxyError(error: unknown): ServiceError {
+  if (error instanceof HttpError) return serviceError(error.code, error.message, error.status);
+  return toServiceError(error, 'Request failed');
+}
+
+export function sendJson(
+  res: ServerResponse,
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {}
+): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', (chunk: string) => {
+      body += chunk;
+      if (body.length > MAX_BODY_BYTES) {
+        reject(new HttpError(413, 'Request body is too large'));
+        req.destroy();
+      }
+    });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+/** Reads a JSON request body; an empty body reads as `{}` */
+export async function readJson(req: IncomingMessage): Promise<unknown> {
+  const body = await readBody(req);
+  try {
+    return body ? JSON.parse(body) : {};
+  } catch {
+    throw new HttpError(400, 'Request body is not valid JSON');
+  }
+}
+
+/**
+ * Sets CORS headers for an allowed origin. Requests from other origins get
+ * none, so browsers refuse them; `*` allows every origin.
+ */
+export function applyCors(req: IncomingMessage, res: ServerResponse, allowedOrigins: string[]): void {
+  const origin = req.headers.origin;
+  if (!origin || !(allowedOrigins.includes('*') || allowedOrigins.includes(origin))) return;
+
+  res.setHeader('Access-Control-Allow-Origin', origin);
+  res.setHeader('Vary', 'Origin');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, PATCH, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type, If-Match, If-None-Match');
+  res.setHeader('Access-Control-Expose-Headers', 'ETag, Location, Retry-After');
+}
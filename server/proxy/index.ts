@@ -0,0 +1,122 @@
+/**
+ * @module server/proxy
+ * @description Vendor API proxy: serves vendor CRUD over HTTP and talks to
+ * Google Sheets with a service account, so no Google credentials are shipped
+ * to the browser.
+ *
+ * Sheets requests go through the same `createGoogleSheetsService` as direct
+ * access from the app (paging, retries, circuit breaker, revision checks),
+ * authorized through `googleapis`' `GoogleAuth`. Vendor data is validated
+ * here before it is written (see `vendorInput`). At startup each worksheet is
+ * initialized: created if missing, header written and migrated, validation
+ * rules applied. Point the app at the proxy with `VITE_VENDOR_API_URL`.
+ *
+ * Environment:
+ * - `GOOGLE_APPLICATION_CREDENTIALS` — path to the service account's JSON key
+ *   (not needed on Google Cloud with an attached service account)
+ * - `GOOGLE_SHEETS_SPREADSHEET_ID` — the spreadsheet, shared with the service account
+ * - `GOOGLE_SHEETS_WORKSHEET` — worksheet of the default workspace (default `Vendors`)
+ * - `VENDOR_PROXY_WORKSPACES` — workspaces as a JSON array, in the format of
+ *   `VITE_WORKSPACES` (default: one workspace with ID `default`)
+ * - `VENDOR_PROXY_PORT` — port to listen on (default 4030)
+ * - `VENDOR_PROXY_ALLOWED_ORIGINS` — comma-separated origins allowed to call
+ *   the proxy from a browser, or `*` (default `http://localhost:5173`)
+ * - `VENDOR_API_TOKENS` — required; tokens allowed to call the proxy, as a
+ *   JSON array of `{ name, token, scopes }` (see `apiTokens`). App users sign
+ *   in with one; other systems use them for the REST API under `/api/v1`
+ * - `GOOGLE_SHEETS_DATA_VALIDATION` — `false` leaves the sheet's validation rules alone
+ * - `GOOGLE_SHEETS_API_BASE`, `GOOGLE_DRIVE_API_BASE` — API base URLs, e.g. of the stand-in
+ *
+ * @example
+ * ```bash
+ * GOOGLE_APPLICATION_CREDENTIALS=./service-account.json \
+ * GOOGLE_SHEETS_SPREADSHEET_ID=your-spreadsheet-id \
+ * VENDOR_API_TOKENS='[{"name":"app","token":"…","scopes":["vendors:read","vendors:write"]}]' \
+ * npm run proxy
+ * # then, in the app's .env:
+ * VITE_VENDOR_API_URL=http://localhost:4030/api
+ * ```
+ */
+
+import { createServer } from 'node:http';
+import { google } from 'googleapis';
+import type { Workspace } from '../../src/types/vendor';
+import { createGoogleSheetsService, type VendorDataService } from '../../src/services/googleSheetsService';
+import { SHEETS_SCOPE } from '../../src/services/sheetsAuth';
+import { DEFAULT_WORKSPACE_ID, parseWorkspaces } from '../../src/services/workspaces';
+import { createGoogleAuthProvider } from './googleAuthProvider';
+import { parseApiTokens, type ApiToken } from './apiTokens';
+import { createVendorProxy } from './vendorRoutes';
+
+const PORT = Number(process.env.VENDOR_PROXY_PORT) || 4030;
+const SPREADSHEET_ID = process.env.GOOGLE_SHEETS_SPREADSHEET_ID || undefined;
+const ALLOWED_ORIGINS = (process.env.VENDOR_PROXY_ALLOWED_ORIGINS || 'http://localhost:5173')
+  .split(',')
+  .map((origin) => origin.trim())
+  .filter(Boolean);
+
+function configuredWorkspaces(): Workspace[] {
+  if (process.env.VENDOR_PROXY_WORKSPACES) {
+    return parseWorkspaces(process.env.VENDOR_PROXY_WORKSPACES, SPREADSHEET_ID);
+  }
+  if (!SPREADSHEET_ID) return [];
+  return [
+    {
+      id: DEFAULT_WORKSPACE_ID,
+      name: 'Default',
+      spreadsheetId: SPREADSHEET_ID,
+      worksheetName: process.env.GOOGLE_SHEETS_WORKSHEET || 'Vendors',
+    },
+  ];
+}
+
+const workspaces = configuredWorkspaces();
+if (workspaces.length === 0) {
+  console.error('Set GOOGLE_SHEETS_SPREADSHEET_ID (or VENDOR_PROXY_WORKSPACES) to the spreadsheet to serve.');
+  process.exit(1);
+}
+
+let apiTokens: ApiToken[] = [];
+try {
+  apiTokens = process.env.VENDOR_API_TOKENS ? parseApiTokens(process.env.VENDOR_API_TOKENS) : [];
+} catch (error) {
+  console.error((error as Error).message);
+  process.exit(1);
+}
+if (apiTokens.length === 0) {
+  console.error('Set VENDOR_API_TOKENS to the tokens allowed to call the proxy; it refuses unauthenticated requests.');
+  process.exit(1);
+}
+
+const credentials = createGoogleAuthProvider(new google.auth.GoogleAuth({ scopes: [SHEETS_SCOPE] }));
+const services = new Map<string, VendorDataService>(
+  workspaces.map((workspace) => [
+    workspace.id,
+    createGoogleSheetsService({
+      spreadsheetId: workspace.spreadsheetId!,
+      worksheetName: workspace.worksheetName,
+      credentials,
+      apiBaseUrl: process.env.GOOGLE_SHEETS_API_BASE || undefined,
+      driveApiBaseUrl: process.env.GOOGLE_DRIVE_API_BASE || undefined,
+      dataValidation: process.env.GOOGLE_SHEETS_DATA_VALIDATION !== 'false',
+    }),
+  ])
+);
+
+// Prepare each worksheet; a failure is logged and the worksheet served as is
+for (const workspace of workspaces) {
+  const result = await services.get(workspace.id)!.initialize!();
+  if (result.success) {
+    const { migrations, createdWorksheet } = result.data!;
+    const changes = [createdWorksheet && 'created', ...migrations].filter(Boolean).join('; ');
+    console.info(`   ${workspace.id}: "${workspace.worksheetName}" ready${changes ? ` (${changes})` : ''}`);
+  } else {
+    console.warn(`   ${workspace.id}: could not initialize "${workspace.worksheetName}": ${result.error?.message}`);
+  }
+}
+
+createServer(createVendorProxy({ services, allowedOrigins: ALLOWED_ORIGINS, apiTokens })).listen(PORT, () => {
+  console.info(`🛡️ Vendor API proxy listening on http://localhost:${PORT}/api`);
+  console.info(`   REST API: http://localhost:${PORT}/api/v1`);
+  console.info(`   API tokens: ${apiTokens.map((token) => token.name).join(', ')}`);
+});
@@ -0,0 +1,273 @@
+/**
+ * @module server/proxy/openApi
+ * @description OpenAPI 3.1 document of the public REST API (`/api/v1`),
+ * served at `GET /api/v1/openapi.json`.
+ *
+ * The document is generated rather than written by hand: the vendor schema
+ * comes from {@link VENDOR_PROPERTIES}, which must describe every `Vendor`
+ * field (the compiler enforces it), enums and ranges come from the app's
+ * constants, list parameters from `vendorQuery`, and error codes from the
+ * proxy's status mapping.
+ *
+ * @example
+ * ```ts
+ * const document = createOpenApiDocument();
+ * sendJson(res, 200, document);
+ * ```
+ */
+
+import type { Vendor } from '../../src/types/vendor';
+import { BUSINESS_TYPES, PRODUCTS, YEARS_IN_BUSINESS } from '../../src/constants/vendor';
+import { STATUS_BY_CODE } from './http';
+import { LIST_PARAMETERS, MAX_PAGE_LIMIT } from './vendorQuery';
+
+/** Version of the REST API, reported in the document */
+export const API_VERSION = '1.0.0';
+
+type JsonSchema = Record<string, unknown>;
+
+/** JSON schema of each vendor field */
+const VENDOR_PROPERTIES: Record<keyof Vendor, JsonSchema> = {
+  VendorId: {
+    type: 'string',
+    description: 'Stable identifier; generated when not supplied on creation',
+    example: '3f0c6b8e-1d52-4c1e-9a55-0d1f0a6f2b7e',
+  },
+  CompanyName: { type: 'string', minLength: 1, description: 'Company name (not necessarily unique)' },
+  BusinessType: { type: 'string', enum: [...BUSINESS_TYPES], description: 'Type of business' },
+  Products: {
+    type: 'string',
+    description: `Comma-separated products offered, usually from: ${PRODUCTS.join(', ')}`,
+    example: 'Electronics, Software',
+  },
+  YearsInBusiness: {
+    type: 'integer',
+    minimum: YEARS_IN_BUSINESS.MIN,
+    maximum: YEARS_IN_BUSINESS.MAX,
+    description: 'Years the vendor has been in business',
+  },
+  OnboardingDate: { type: 'string', format: 'date', description: 'Date the vendor was onboarded' },
+  AdditionalInfo: { type: 'string', description: 'Free-form notes' },
+  Revision: {
+    type: 'integer',
+    minimum: 1,
+    readOnly: true,
+    description: 'Incremented on every write; returned as the ETag for conditional requests',
+  },
+};
+
+/** Fields managed by the API, which clients cannot set */
+const READ_ONLY_FIELDS: (keyof Vendor)[] = ['Revision'];
+
+/** Fields a new vendor must have */
+const REQUIRED_NEW_FIELDS: (keyof Vendor)[] = ['CompanyName', 'BusinessType', 'YearsInBusiness', 'OnboardingDate'];
+
+const writableProperties = Object.fromEntries(
+  Object.entries(VENDOR_PROPERTIES).filter(([field]) => !READ_ONLY_FIELDS.includes(field as keyof Vendor))
+);
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+const json = (schema: JsonSchema) => ({ content: { 'application/json': { schema } } });
+
+const errorResponse = (description: string) => ({ description, ...json(ref('ErrorResponse')) });
+
+const etagHeader = {
+  ETag: { description: 'The vendor\'s revision, for `If-Match`', schema: { type: 'string' } },
+};
+
+const ifMatchParameter = {
+  name: 'If-Match',
+  in: 'header',
+  description: 'Only apply the change if the vendor\'s ETag (revision) still matches',
+  schema: { type: 'string' },
+};
+
+const vendorIdParameter = { name: 'vendorId', in: 'path', required: true, schema: { type: 'string' } };
+
+const workspaceParameter = LIST_PARAMETERS.find((parameter) => parameter.name === 'workspace')!;
+
+const commonErrors = {
+  401: errorResponse('Missing or invalid API token'),
+  403: errorResponse('The API token lacks the required scope'),
+  503: errorResponse('The vendor data source is unavailable; retry later'),
+};
+
+/**
+ * Builds the OpenAPI document of the REST API.
+ *
+ * @param serverUrl - Base URL clients reach the API at (default: relative)
+ */
+export function createOpenApiDocument(serverUrl = '/api/v1'): Record<string, unknown> {
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Vendor Management API',
+      version: API_VERSION,
+      description:
+        'Vendor records of the Vendor Management Portal. Authenticate with an API token ' +
+        '(`Authorization: Bearer <token>`); reads need the `vendors:read` scope, ' +
+        'writes `vendors:write`. Errors share one payload shape, whose `code` names the failure.',
+    },
+    servers: [{ url: serverUrl }],
+    security: [{ apiToken: [] }],
+    paths: {
+      '/vendors': {
+        get: {
+          operationId: 'listVendors',
+          summary: 'List vendors',
+          description: 'Filtered, sorted and paginated. Requires `vendors:read`.',
+          parameters: LIST_PARAMETERS.map(({ name, description, schema }) => ({
+            name,
+            in: 'query',
+            description,
+            schema,
+          })),
+          responses: {
+            200: { description: 'A page of vendors', ...json(ref('VendorPage')) },
+            400: errorResponse('Invalid query parameter'),
+            ...commonErrors,
+          },
+        },
+        post: {
+          operationId: 'createVendor',
+          summary: 'Create a vendor',
+          description: 'Requires `vendors:write`.',
+          parameters: [{ ...workspaceParameter, in: 'query' }],
+          requestBody: { required: true, ...json(ref('NewVendor')) },
+          responses: {
+            201: {
+              description: 'The created vendor',
+              headers: {
+                ...etagHeader,
+                Location: { description: 'URL of the vendor', schema: { type: 'string' } },
+              },
+              ...json(ref('VendorResponse')),
+            },
+            400: errorResponse('The vendor is invalid; see `error.fields`'),
+            409: errorResponse('A vendor with this VendorId already exists'),
+            ...commonErrors,
+          },
+        },
+      },
+      '/vendors/{vendorId}': {
+        parameters: [vendorIdParameter, { ...workspaceParameter, in: 'query' }],
+        get: {
+          operationId: 'getVendor',
+          summary: 'Get a vendor',
+          description: 'Requires `vendors:read`.',
+          responses: {
+            200: { description: 'The vendor', headers: etagHeader, ...json(ref('VendorResponse')) },
+            404: errorResponse('No vendor with this ID'),
+            ...commonErrors,
+          },
+        },
+        patch: {
+          operationId: 'updateVendor',
+          summary: 'Change some fields of a vendor',
+          description:
+            'Fields not in the body keep their value. Without `If-Match` the change applies to the ' +
+            'vendor as just read. Requires `vendors:write`.',
+          parameters: [ifMatchParameter],
+          requestBody: { required: true, ...json(ref('VendorPatch')) },
+          responses: {
+            200: { description: 'The updated vendor', headers: etagHeader, ...json(ref('VendorResponse')) },
+            400: errorResponse('The result is invalid; see `error.fields`'),
+            404: errorResponse('No vendor with this ID'),
+            409: errorResponse('The vendor changed concurrently; `error.current` holds the stored version'),
+            ...commonErrors,
+          },
+        },
+        delete: {
+          operationId: 'deleteVendor',
+          summary: 'Delete a vendor',
+          description: 'Requires `vendors:write`.',
+          parameters: [ifMatchParameter],
+          responses: {
+            204: { description: 'Deleted' },
+            404: errorResponse('No vendor with this ID'),
+            409: errorResponse('The vendor changed concurrently; `error.current` holds the stored version'),
+            ...commonErrors,
+          },
+        },
+      },
+    },
+    components: {
+      securitySchemes: {
+        apiToken: { type: 'http', scheme: 'bearer', description: 'API token from `VENDOR_API_TOKENS`' },
+      },
+      schemas: {
+        Vendor: {
+          type: 'object',
+          properties: VENDOR_PROPERTIES,
+          required: Object.keys(VENDOR_PROPERTIES),
+          additionalProperties: false,
+        },
+        NewVendor: {
+          type: 'object',
+          properties: writableProperties,
+          required: REQUIRED_NEW_FIELDS,
+          additionalProperties: false,
+        },
+        VendorPatch: {
+          type: 'object',
+          properties: Object.fromEntries(
+            Object.entries(writableProperties).filter(([field]) => field !== 'VendorId')
+          ),
+          minProperties: 1,
+          additionalProperties: false,
+        },
+        VendorResponse: {
+          type: 'object',
+          properties: { data: ref('Vendor') },
+          required: ['data'],
+        },
+        VendorPage: {
+          type: 'object',
+          properties: {
+            data: { type: 'array', items: ref('Vendor') },
+            page: {
+              type: 'object',
+              properties: {
+                offset: { type: 'integer' },
+                limit: { type: 'integer', maximum: MAX_PAGE_LIMIT },
+                total: { type: 'integer', description: 'Vendors matching the filters' },
+                nextOffset: { type: 'integer', description: 'Offset of the next page, if any' },
+              },
+              required: ['offset', 'limit', 'total'],
+            },
+          },
+          required: ['data', 'page'],
+        },
+        ErrorResponse: {
+          type: 'object',
+          properties: {
+            error: {
+              type: 'object',
+              properties: {
+                code: { type: 'string', enum: Object.keys(STATUS_BY_CODE) },
+                message: { type: 'string' },
+                retryable: { type: 'boolean', description: 'Whether retrying later may succeed' },
+                fields: {
+                  type: 'object',
+                  description: 'Per-field messages, for `validation` and `duplicate` errors',
+                  additionalProperties: { type: 'string' },
+                },
+                columns: {
+                  type: 'array',
+                  description: 'Required worksheet columns that are missing, for `schema` errors',
+                  items: { type: 'string' },
+                },
+                current: {
+                  description: 'The stored vendor, for `conflict` errors (null if deleted)',
+                  oneOf: [ref('Vendor'), { type: 'null' }],
+                },
+              },
+              required: ['code', 'message', 'retryable'],
+            },
+          },
+          required: ['error'],
+        },
+      },
+    },
+  };
+}
@@ -0,0 +1,186 @@
+/**
+ * @module server/proxy/vendorApiV1
+ * @description Public REST API for other systems (procurement, AP, BI),
+ * versioned under `/api/v1` and backed by any `VendorDataService`.
+ *
+ * Routes:
+ * - `GET /api/v1/openapi.json` — the OpenAPI document (no token needed)
+ * - `GET /api/v1/vendors` — filtered, sorted, paginated list (see `vendorQuery`)
+ * - `POST /api/v1/vendors` — create; 201 with `Location`
+ * - `GET /api/v1/vendors/{vendorId}` — one vendor
+ * - `PATCH /api/v1/vendors/{vendorId}` — change some fields
+ * - `DELETE /api/v1/vendors/{vendorId}` — delete; 204
+ *
+ * Requests need an API token, checked by the same authenticator and scopes
+ * as the app's routes (see `vendorRoutes`). Single vendors carry their
+ * revision as `ETag`; `If-Match` makes a PATCH or DELETE conditional on it.
+ * Successful responses wrap their payload in `data`; failures return
+ * `{ error: { code, message, retryable, fields?, current? } }` with the HTTP
+ * status of the service error code, so clients can branch on `code`.
+ *
+ * Unlike the app-facing routes (`vendorRoutes`), this API is a stable
+ * contract: add to it, and put breaking changes under a new version.
+ *
+ * @example
+ * ```ts
+ * const api = createVendorApiV1({ services, authenticate: createTokenAuthenticator(tokens) });
+ * if (url.pathname.startsWith('/api/v1/')) await api(req, res, url);
+ * ```
+ */
+
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { ServiceError, SheetsApiResponse, Vendor, VendorConflict } from '../../src/types/vendor';
+import type { VendorDataService } from '../../src/services/googleSheetsService';
+import { HttpError, readJson, sendJson, statusForError, toProxyError } from './http';
+import type { TokenAuthenticator } from './apiTokens';
+import { createOpenApiDocument } from './openApi';
+import { applyVendorQuery, parseVendorQuery } from './vendorQuery';
+import { parseIfMatch, parseNewVendor, parsePatch } from './vendorInput';
+
+/** Path prefix of the API */
+export const API_V1_PREFIX = '/api/v1';
+
+/** Options for {@link createVendorApiV1} */
+export interface VendorApiV1Options {
+  /** Data service of each workspace; the first one is the default */
+  services: Map<string, VendorDataService>;
+  /** Checks the API token of each request */
+  authenticate: TokenAuthenticator;
+}
+
+/** Handles one request below {@link API_V1_PREFIX}; never rejects */
+export type VendorApiV1Handler = (req: IncomingMessage, res: ServerResponse, url: URL) => Promise<void>;
+
+/** A failed service response, thrown to the error handler */
+class ServiceResponseError extends Error {
+  readonly error: ServiceError;
+  readonly conflict?: VendorConflict;
+
+  constructor(response: SheetsApiResponse) {
+    super(response.error!.message);
+    this.error = response.error!;
+    this.conflict = response.conflict;
+  }
+}
+
+/** Returns a successful response's data, or throws its error */
+function unwrap<T>(response: SheetsApiResponse<T>): T {
+  if (!response.success) throw new ServiceResponseError(response);
+  return response.data as T;
+}
+
+/** The error payload of a failure */
+function errorBody(error: ServiceError, conflict?: VendorConflict) {
+  return {
+    error: {
+      code: error.code,
+      message: error.message,
+      retryable: error.retryable,
+      ...('fields' in error && { fields: error.fields }),
+      ...('columns' in error && { columns: error.columns }),
+      ...(conflict && { current: conflict.current }),
+    },
+  };
+}
+
+const etagOf = (vendor: Vendor) => `"${vendor.Revision}"`;
+
+/**
+ * Creates the handler of the REST API.
+ *
+ * @param options - Workspace services and the token check
+ * @returns Handler for requests below `/api/v1`
+ */
+export function createVendorApiV1({ services, authenticate }: VendorApiV1Options): VendorApiV1Handler {
+  const openApiDocument = createOpenApiDocument(API_V1_PREFIX);
+  const defaultWorkspaceId = services.keys().next().value;
+
+  function serviceFor(url: URL): VendorDataService {
+    const workspaceId = url.searchParams.get('workspace') || defaultWorkspaceId;
+    const service = workspaceId !== undefined ? services.get(workspaceId) : undefined;
+    if (!service) throw new HttpError(404, `Unknown workspace "${workspaceId}"`, 'not_found');
+    return service;
+  }
+
+  async function findVendor(service: VendorDataService, vendorId: string): Promise<Vendor> {
+    const vendor = unwrap(await service.fetchVendors()).find((candidate) => candidate.VendorId === vendorId);
+    if (!vendor) throw new HttpError(404, `Vendor "${vendorId}" was not found`, 'not_found');
+    return vendor;
+  }
+
+  async function handleRequest(req: IncomingMessage, res: ServerResponse, url: URL): Promise<void> {
+    const method = req.method ?? 'GET';
+    const path = url.pathname.slice(API_V1_PREFIX.length);
+
+    if (path === '/openapi.json' && method === 'GET') {
+      return sendJson(res, 200, openApiDocument);
+    }
+
+    if (path === '/vendors') {
+      if (method === 'GET') {
+        authenticate(req, 'vendors:read');
+        const query = parseVendorQuery(url.searchParams);
+        const { items, total } = applyVendorQuery(unwrap(await serviceFor(url).fetchVendors()), query);
+        const nextOffset = query.offset + items.length < total ? query.offset + items.length : undefined;
+        return sendJson(res, 200, {
+          data: items,
+          page: { offset: query.offset, limit: query.limit, total, nextOffset },
+        });
+      }
+      if (method === 'POST') {
+        authenticate(req, 'vendors:write');
+        const service = serviceFor(url);
+        const vendor = unwrap(await service.addVendor(parseNewVendor(await readJson(req))));
+        return sendJson(res, 201, { data: vendor }, {
+          ETag: etagOf(vendor),
+          Location: `${API_V1_PREFIX}/vendors/${encodeURIComponent(vendor.VendorId)}`,
+        });
+      }
+    }
+
+    const match = /^\/vendors\/([^/]+)$/.exec(path);
+    if (match) {
+      const vendorId = decodeURIComponent(match[1]);
+
+      if (method === 'GET') {
+        authenticate(req, 'vendors:read');
+        const vendor = await findVendor(serviceFor(url), vendorId);
+        return sendJson(res, 200, { data: vendor }, { ETag: etagOf(vendor) });
+      }
+      if (method === 'PATCH') {
+        authenticate(req, 'vendors:write');
+        const service = serviceFor(url);
+        const body = await readJson(req);
+        const current = await findVendor(service, vendorId);
+        const expectedRevision = parseIfMatch(req.headers['if-match']) ?? current.Revision;
+        const vendor = unwrap(await service.updateVendor(vendorId, parsePatch(current, body), expectedRevision));
+        return sendJson(res, 200, { data: vendor }, { ETag: etagOf(vendor) });
+      }
+      if (method === 'DELETE') {
+        authenticate(req, 'vendors:write');
+        unwrap(await serviceFor(url).deleteVendor(vendorId, parseIfMatch(req.headers['if-match'])));
+        res.writeHead(204);
+        res.end();
+        return;
+      }
+    }
+
+    if (path === '/vendors' || match) {
+      throw new HttpError(405, `${method} is not supported on ${url.pathname}`);
+    }
+    throw new HttpError(404, `Not found: ${url.pathname}`, 'not_found');
+  }
+
+  return (req, res, url) =>
+    handleRequest(req, res, url).catch((error: unknown) => {
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      if (error instanceof ServiceResponseError) {
+        return sendJson(res, statusForError(error.error), errorBody(error.error, error.conflict));
+      }
+      const failure = toProxyError(error);
+      sendJson(res, error instanceof HttpError ? error.status : statusForError(failure), errorBody(failure));
+    });
+}
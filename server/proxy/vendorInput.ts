@@ -0,0 +1,159 @@
+/**
+ * @module server/proxy/vendorInput
+ * @description Parsing and validation of vendor data received by the proxy.
+ *
+ * Request bodies come from any HTTP client, not just the app's forms, so they
+ * are checked here before reaching a data service: each field must have the
+ * right type, unknown fields are dropped, and the values must pass the same
+ * rules as the forms (`validateVendorRecord`).
+ */
+
+import type {
+  NewVendor,
+  Vendor,
+  VendorDeleteInput,
+  VendorFieldErrors,
+  VendorUpdateInput,
+} from '../../src/types/vendor';
+import { ServiceFailure, fieldError } from '../../src/services/serviceErrors';
+import { validateVendorRecord } from '../../src/utils/validation';
+import { HttpError } from './http';
+
+/** Vendor fields sent as text */
+type TextField = 'CompanyName' | 'BusinessType' | 'Products' | 'OnboardingDate' | 'AdditionalInfo';
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Reads an optional `expectedRevision` */
+function parseRevision(value: unknown, label: string): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const revision = typeof value === 'string' ? Number(value) : value;
+  if (typeof revision !== 'number' || !Number.isInteger(revision) || revision < 0) {
+    throw new HttpError(400, `${label} must be a non-negative whole number`);
+  }
+  return revision;
+}
+
+/**
+ * Parses and validates a vendor from a request body.
+ *
+ * @param value - The decoded JSON value
+ * @returns The vendor, with only known fields
+ * @throws ServiceFailure with a validation error listing the offending fields
+ */
+export function parseNewVendor(value: unknown): NewVendor {
+  if (!isRecord(value)) {
+    throw new HttpError(400, 'Expected a vendor object');
+  }
+
+  const typeErrors: VendorFieldErrors = {};
+  const text = (field: TextField) => {
+    const raw = value[field] ?? '';
+    if (typeof raw !== 'string') typeErrors[field] = `${field} must be text.`;
+    return typeof raw === 'string' ? raw : '';
+  };
+
+  const vendor = {
+    CompanyName: text('CompanyName'),
+    BusinessType: text('BusinessType'),
+    Products: text('Products'),
+    YearsInBusiness: typeof value.YearsInBusiness === 'number' ? value.YearsInBusiness : NaN,
+    OnboardingDate: text('OnboardingDate'),
+    AdditionalInfo: text('AdditionalInfo'),
+  } as NewVendor;
+
+  if (value.VendorId !== undefined && value.VendorId !== '') {
+    if (typeof value.VendorId === 'string') vendor.VendorId = value.VendorId;
+    else typeErrors.VendorId = 'VendorId must be text.';
+  }
+
+  const fields = { ...validateVendorRecord(vendor), ...typeErrors };
+  if (Object.keys(fields).length > 0) {
+    throw new ServiceFailure(fieldError('validation', fields));
+  }
+  return vendor;
+}
+
+/** Fields a partial update may change */
+const PATCH_FIELDS: readonly (keyof NewVendor)[] = [
+  'CompanyName',
+  'BusinessType',
+  'Products',
+  'YearsInBusiness',
+  'OnboardingDate',
+  'AdditionalInfo',
+];
+
+/**
+ * Applies a partial update to a vendor and validates the result.
+ *
+ * @param current - The stored vendor
+ * @param value - The decoded JSON body, with some of the vendor's fields
+ * @returns The complete updated vendor
+ * @throws HttpError for unknown or read-only fields, ServiceFailure for invalid values
+ */
+export function parsePatch(current: Vendor, value: unknown): NewVendor {
+  if (!isRecord(value)) throw new HttpError(400, 'Expected an object with the fields to change');
+
+  const fields = Object.keys(value);
+  const unknown = fields.filter((field) => !PATCH_FIELDS.includes(field as keyof NewVendor));
+  if (unknown.length > 0) throw new HttpError(400, `These fields cannot be changed: ${unknown.join(', ')}`);
+  if (fields.length === 0) throw new HttpError(400, 'Expected at least one field to change');
+
+  return parseNewVendor({ ...current, ...value });
+}
+
+/**
+ * Reads an `If-Match` header holding a vendor revision, e.g. `"3"`.
+ *
+ * @returns The revision, or undefined without a header or for `*`
+ */
+export function parseIfMatch(header: string | undefined): number | undefined {
+  if (!header || header.trim() === '*') return undefined;
+  const revision = header.trim().replace(/^W\//, '').replace(/^"(.*)"$/, '$1');
+  return parseRevision(revision, 'If-Match');
+}
+
+/** Parses the body of an update: `{ vendor, expectedRevision? }` */
+export function parseUpdate(vendorId: string, value: unknown): VendorUpdateInput {
+  if (!isRecord(value)) throw new HttpError(400, 'Expected an object with a vendor');
+  return {
+    vendorId,
+    vendor: parseNewVendor(value.vendor),
+    expectedRevision: parseRevision(value.expectedRevision, 'expectedRevision'),
+  };
+}
+
+/** Parses a delete's optional revision, e.g. from the query string */
+export function parseDelete(vendorId: string, expectedRevision: unknown): VendorDeleteInput {
+  return { vendorId, expectedRevision: parseRevision(expectedRevision, 'expectedRevision') };
+}
+
+/**
+ * Reads the list of a batch request body, e.g. `{ "vendors": [...] }`.
+ *
+ * @throws HttpError when the list is missing or not an array
+ */
+export function batchItems(value: unknown, key: string): unknown[] {
+  const items = isRecord(value) ? value[key] : undefined;
+  if (!Array.isArray(items)) throw new HttpError(400, `Expected an object with a "${key}" array`);
+  return items;
+}
+
+/** Parses one entry of a batch update: `{ vendorId, vendor, expectedRevision? }` */
+export function parseBatchUpdate(value: unknown): VendorUpdateInput {
+  if (!isRecord(value) || typeof value.vendorId !== 'string' || !value.vendorId) {
+    throw new HttpError(400, 'Each update needs a vendorId');
+  }
+  return parseUpdate(value.vendorId, value);
+}
+
+/** Parses one entry of a batch delete: `{ vendorId, expectedRevision? }` */
+export function parseBatchDelete(value: unknown): VendorDeleteInput {
+  if (!isRecord(value) || typeof value.vendorId !== 'string' || !value.vendorId) {
+    throw new HttpError(400, 'Each delete needs a vendorId');
+  }
+  return parseDelete(value.vendorId, value.expectedRevision);
+}
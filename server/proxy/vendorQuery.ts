@@ -0,0 +1,225 @@
+/**
+ * @module server/proxy/vendorQuery
+ * @description Filtering, sorting and pagination of the REST API's vendor list.
+ *
+ * The query parameters are declared once in {@link LIST_PARAMETERS}; the
+ * parser and the OpenAPI document (see `openApi`) both read them. Data
+ * services only return the full list, so the query is applied in memory.
+ *
+ * @example
+ * ```ts
+ * const query = parseVendorQuery(new URLSearchParams('businessType=Retailer&sort=-OnboardingDate&limit=20'));
+ * const { items, total } = applyVendorQuery(vendors, query);
+ * ```
+ */
+
+import type { BusinessType, Vendor } from '../../src/types/vendor';
+import { BUSINESS_TYPES } from '../../src/constants/vendor';
+import { isValidIsoDate } from '../../src/utils/dates';
+import { HttpError } from './http';
+
+/** Vendors per page unless `limit` is given */
+export const DEFAULT_PAGE_LIMIT = 50;
+
+/** Largest accepted `limit` */
+export const MAX_PAGE_LIMIT = 500;
+
+/** Vendor fields the list can be sorted by */
+const SORT_FIELDS = [
+  'CompanyName',
+  'BusinessType',
+  'YearsInBusiness',
+  'OnboardingDate',
+  'Revision',
+] as const satisfies readonly (keyof Vendor)[];
+
+/** A query parameter of the vendor list, as documented in the OpenAPI document */
+export interface ListParameter {
+  name: string;
+  description: string;
+  /** JSON schema of the value */
+  schema: Record<string, unknown>;
+}
+
+/** Query parameters of `GET /api/v1/vendors` */
+export const LIST_PARAMETERS: readonly ListParameter[] = [
+  {
+    name: 'q',
+    description: 'Case-insensitive text matched against company name, products and additional info',
+    schema: { type: 'string' },
+  },
+  {
+    name: 'businessType',
+    description: 'Only vendors of these business types (comma-separated)',
+    schema: { type: 'string', example: 'Manufacturer,Distributor' },
+  },
+  {
+    name: 'product',
+    description: 'Only vendors offering this product',
+    schema: { type: 'string' },
+  },
+  {
+    name: 'minYears',
+    description: 'Minimum years in business',
+    schema: { type: 'integer', minimum: 0 },
+  },
+  {
+    name: 'maxYears',
+    description: 'Maximum years in business',
+    schema: { type: 'integer', minimum: 0 },
+  },
+  {
+    name: 'onboardedFrom',
+    description: 'Earliest onboarding date (inclusive)',
+    schema: { type: 'string', format: 'date' },
+  },
+  {
+    name: 'onboardedTo',
+    description: 'Latest onboarding date (inclusive)',
+    schema: { type: 'string', format: 'date' },
+  },
+  {
+    name: 'sort',
+    description: 'Field to sort by; prefix with `-` for descending order. Default: storage order',
+    schema: { type: 'string', enum: SORT_FIELDS.flatMap((field) => [field, `-${field}`]) },
+  },
+  {
+    name: 'limit',
+    description: `Vendors per page (default ${DEFAULT_PAGE_LIMIT})`,
+    schema: { type: 'integer', minimum: 1, maximum: MAX_PAGE_LIMIT },
+  },
+  {
+    name: 'offset',
+    description: 'Number of matching vendors to skip',
+    schema: { type: 'integer', minimum: 0 },
+  },
+  {
+    name: 'workspace',
+    description: 'Workspace to read from (default: the first configured)',
+    schema: { type: 'string' },
+  },
+];
+
+/** A parsed vendor list query */
+export interface VendorQuery {
+  text?: string;
+  businessTypes?: BusinessType[];
+  product?: string;
+  minYears?: number;
+  maxYears?: number;
+  onboardedFrom?: string;
+  onboardedTo?: string;
+  sort?: { field: (typeof SORT_FIELDS)[number]; descending: boolean };
+  limit: number;
+  offset: number;
+}
+
+/** One page of matching vendors */
+export interface VendorPage {
+  items: Vendor[];
+  /** Number of vendors matching the filters, across all pages */
+  total: number;
+}
+
+function parseInteger(params: URLSearchParams, name: string, min: number, max = Infinity): number | undefined {
+  const raw = params.get(name);
+  if (raw === null || raw === '') return undefined;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < min || value > max) {
+    const range = max === Infinity ? `${min} or more` : `from ${min} to ${max}`;
+    throw new HttpError(400, `${name} must be a whole number ${range}`);
+  }
+  return value;
+}
+
+function parseDate(params: URLSearchParams, name: string): string | undefined {
+  const raw = params.get(name);
+  if (!raw) return undefined;
+  if (!isValidIsoDate(raw)) throw new HttpError(400, `${name} must be a date (YYYY-MM-DD)`);
+  return raw;
+}
+
+/**
+ * Parses the vendor list's query parameters.
+ *
+ * @throws HttpError for unknown parameters and invalid values
+ */
+export function parseVendorQuery(params: URLSearchParams): VendorQuery {
+  const known = new Set(LIST_PARAMETERS.map((parameter) => parameter.name));
+  for (const name of params.keys()) {
+    if (!known.has(name)) throw new HttpError(400, `Unknown query parameter "${name}"`);
+  }
+
+  const query: VendorQuery = {
+    text: params.get('q')?.trim().toLowerCase() || undefined,
+    product: params.get('product')?.trim().toLowerCase() || undefined,
+    minYears: parseInteger(params, 'minYears', 0),
+    maxYears: parseInteger(params, 'maxYears', 0),
+    onboardedFrom: parseDate(params, 'onboardedFrom'),
+    onboardedTo: parseDate(params, 'onboardedTo'),
+    limit: parseInteger(params, 'limit', 1, MAX_PAGE_LIMIT) ?? DEFAULT_PAGE_LIMIT,
+    offset: parseInteger(params, 'offset', 0) ?? 0,
+  };
+
+  const businessType = params.get('businessType');
+  if (businessType) {
+    query.businessTypes = businessType.split(',').map((value) => {
+      const match = BUSINESS_TYPES.find((type) => type.toLowerCase() === value.trim().toLowerCase());
+      if (!match) throw new HttpError(400, `"${value.trim()}" is not a valid business type`);
+      return match;
+    });
+  }
+
+  const sort = params.get('sort');
+  if (sort) {
+    const field = SORT_FIELDS.find((name) => name === sort.replace(/^-/, ''));
+    if (!field) throw new HttpError(400, `Cannot sort by "${sort}"`);
+    query.sort = { field, descending: sort.startsWith('-') };
+  }
+
+  return query;
+}
+
+function matches(vendor: Vendor, query: VendorQuery): boolean {
+  if (query.text) {
+    const haystack = `${vendor.CompanyName}\n${vendor.Products}\n${vendor.AdditionalInfo}`.toLowerCase();
+    if (!haystack.includes(query.text)) return false;
+  }
+  if (query.businessTypes && !query.businessTypes.includes(vendor.BusinessType)) return false;
+  if (query.product && !vendor.Products.split(',').some((p) => p.trim().toLowerCase() === query.product)) {
+    return false;
+  }
+  if (query.minYears !== undefined && vendor.YearsInBusiness < query.minYears) return false;
+  if (query.maxYears !== undefined && vendor.YearsInBusiness > query.maxYears) return false;
+  // ISO dates compare correctly as text
+  if (query.onboardedFrom && !(vendor.OnboardingDate >= query.onboardedFrom)) return false;
+  if (query.onboardedTo && !(vendor.OnboardingDate <= query.onboardedTo)) return false;
+  return true;
+}
+
+/**
+ * Filters, sorts and pages vendors.
+ *
+ * @param vendors - All vendors, in storage order
+ * @param query - The parsed query
+ * @returns The requested page and the number of matching vendors
+ */
+export function applyVendorQuery(vendors: Vendor[], query: VendorQuery): VendorPage {
+  const matching = vendors.filter((vendor) => matches(vendor, query));
+
+  if (query.sort) {
+    const { field, descending } = query.sort;
+    const direction = descending ? -1 : 1;
+    matching.sort((a, b) => {
+      const left = a[field];
+      const right = b[field];
+      const order =
+        typeof left === 'number' && typeof right === 'number'
+          ? left - right
+          : String(left).localeCompare(String(right), undefined, { sensitivity: 'base' });
+      return order * direction;
+    });
+  }
+
+  return { items: matching.slice(query.offset, query.offset + query.limit), total: matching.length };
+}
@@ -0,0 +1,197 @@
+/**
+ * @module server/proxy/vendorRoutes
+ * @description HTTP routes of the vendor proxy, one set per workspace.
+ *
+ * Routes (under `/api/workspaces/{workspaceId}`):
+ * - `GET /vendors` — all vendors; honours `If-None-Match` with the returned `ETag`
+ * - `POST /vendors` — add a vendor (body: the vendor)
+ * - `PUT /vendors/{vendorId}` — update (body: `{ vendor, expectedRevision? }`)
+ * - `DELETE /vendors/{vendorId}?expectedRevision=N` — delete
+ * - `POST /vendors:batchCreate` — body `{ vendors: [...] }`
+ * - `POST /vendors:batchUpdate` — body `{ updates: [{ vendorId, vendor, expectedRevision? }] }`
+ * - `POST /vendors:batchDelete` — body `{ deletes: [{ vendorId, expectedRevision? }] }`
+ *
+ * The public REST API is served under `/api/v1` (see `vendorApiV1`).
+ * `GET /api/health` lists the workspaces and needs no token.
+ *
+ * Both route sets check API tokens with one authenticator (see `apiTokens`):
+ * reads need the `vendors:read` scope, everything else `vendors:write`. The
+ * app sends the token its user signed in with.
+ *
+ * Every response body is a `SheetsApiResponse` (an array of them for batch
+ * routes, with one entry per input, in order), so `createHttpVendorService`
+ * can hand it straight to the app. Failed operations use the HTTP status of
+ * their error code (see `statusForError`).
+ *
+ * @example
+ * ```ts
+ * const handler = createVendorProxy({
+ *   services,
+ *   allowedOrigins: ['https://vendors.example.com'],
+ *   apiTokens: parseApiTokens(process.env.VENDOR_API_TOKENS!),
+ * });
+ * createServer(handler).listen(4030);
+ * ```
+ */
+
+import type { IncomingMessage, RequestListener, ServerResponse } from 'node:http';
+import type { ServiceError, SheetsApiResponse } from '../../src/types/vendor';
+import type { VendorDataService } from '../../src/services/googleSheetsService';
+import { fnv1a } from '../../src/utils/hash';
+import { HttpError, applyCors, readJson, sendJson, statusForError, toProxyError } from './http';
+import { createTokenAuthenticator, type ApiToken } from './apiTokens';
+import { API_V1_PREFIX, createVendorApiV1 } from './vendorApiV1';
+import {
+  batchItems,
+  parseBatchDelete,
+  parseBatchUpdate,
+  parseDelete,
+  parseNewVendor,
+  parseUpdate,
+} from './vendorInput';
+
+/** Options for {@link createVendorProxy} */
+export interface VendorProxyOptions {
+  /** Data service of each workspace, by workspace ID */
+  services: Map<string, VendorDataService>;
+  /** Origins allowed to call the proxy from a browser; `*` allows any */
+  allowedOrigins: string[];
+  /** Tokens allowed to call the vendor routes and `/api/v1`; without any, every vendor request is refused */
+  apiTokens: ApiToken[];
+}
+
+/** Sends a service response with the status of its error, if any */
+function sendResult(res: ServerResponse, result: SheetsApiResponse, successStatus = 200): void {
+  sendJson(res, result.success ? successStatus : statusForError(result.error!), result);
+}
+
+/**
+ * Runs a batch operation on the entries that parse; entries that do not get
+ * a failure response in their place, like entries the service rejects.
+ */
+async function runBatch<I, T>(
+  items: unknown[],
+  parse: (item: unknown) => I,
+  run: (inputs: I[]) => Promise<SheetsApiResponse<T>[]>
+): Promise<SheetsApiResponse<T>[]> {
+  const parsed = items.map((item): { input: I } | { failure: ServiceError } => {
+    try {
+      return { input: parse(item) };
+    } catch (error) {
+      return { failure: toProxyError(error) };
+    }
+  });
+  const inputs = parsed.flatMap((entry) => ('input' in entry ? [entry.input] : []));
+  const results = inputs.length > 0 ? await run(inputs) : [];
+
+  let next = 0;
+  return parsed.map((entry) =>
+    'input' in entry ? results[next++] : { success: false, error: entry.failure }
+  );
+}
+
+/**
+ * Creates the request listener of the vendor proxy.
+ *
+ * @param options - Workspace services, allowed origins and API tokens
+ * @returns Listener for `http.createServer`
+ */
+export function createVendorProxy({ services, allowedOrigins, apiTokens }: VendorProxyOptions): RequestListener {
+  const authenticate = createTokenAuthenticator(apiTokens);
+  const apiV1 = createVendorApiV1({ services, authenticate });
+
+  async function handleVendors(
+    req: IncomingMessage,
+    res: ServerResponse,
+    service: VendorDataService,
+    url: URL,
+    rest: string
+  ): Promise<void> {
+    const method = req.method ?? 'GET';
+    authenticate(req, method === 'GET' ? 'vendors:read' : 'vendors:write');
+
+    if (rest === '' && method === 'GET') {
+      const result = await service.fetchVendors();
+      if (!result.success) return sendResult(res, result);
+
+      const body: SheetsApiResponse = { success: true, data: result.data, issues: result.issues };
+      const etag = `"${fnv1a(JSON.stringify(body))}"`;
+      if (req.headers['if-none-match'] === etag) {
+        res.writeHead(304, { ETag: etag });
+        res.end();
+        return;
+      }
+      return sendJson(res, 200, body, { ETag: etag });
+    }
+
+    if (rest === '' && method === 'POST') {
+      return sendResult(res, await service.addVendor(parseNewVendor(await readJson(req))), 201);
+    }
+
+    if (rest.startsWith(':') && method === 'POST') {
+      const body = await readJson(req);
+      switch (rest) {
+        case ':batchCreate':
+          return sendJson(res, 200, await runBatch(batchItems(body, 'vendors'), parseNewVendor, service.addVendors));
+        case ':batchUpdate':
+          return sendJson(res, 200, await runBatch(batchItems(body, 'updates'), parseBatchUpdate, service.updateVendors));
+        case ':batchDelete':
+          return sendJson(res, 200, await runBatch(batchItems(body, 'deletes'), parseBatchDelete, service.deleteVendors));
+      }
+    }
+
+    if (rest.startsWith('/')) {
+      const vendorId = decodeURIComponent(rest.slice(1));
+      if (method === 'PUT') {
+        const { vendor, expectedRevision } = parseUpdate(vendorId, await readJson(req));
+        return sendResult(res, await service.updateVendor(vendorId, vendor, expectedRevision));
+      }
+      if (method === 'DELETE') {
+        const { expectedRevision } = parseDelete(vendorId, url.searchParams.get('expectedRevision'));
+        return sendResult(res, await service.deleteVendor(vendorId, expectedRevision));
+      }
+    }
+
+    throw new HttpError(405, `${method} is not supported on ${url.pathname}`);
+  }
+
+  async function handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    applyCors(req, res, allowedOrigins);
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (url.pathname.startsWith(`${API_V1_PREFIX}/`)) {
+      return apiV1(req, res, url);
+    }
+    if (url.pathname === '/api/health' && req.method === 'GET') {
+      return sendJson(res, 200, { status: 'ok', workspaces: [...services.keys()] });
+    }
+
+    const match = /^\/api\/workspaces\/([^/]+)\/vendors(.*)$/.exec(url.pathname);
+    if (!match) throw new HttpError(404, `Not found: ${url.pathname}`, 'not_found');
+
+    const workspaceId = decodeURIComponent(match[1]);
+    const service = services.get(workspaceId);
+    if (!service) throw new HttpError(404, `Unknown workspace "${workspaceId}"`, 'not_found');
+
+    await handleVendors(req, res, service, url, match[2]);
+  }
+
+  return (req, res) => {
+    handleRequest(req, res).catch((error: unknown) => {
+      const failure = toProxyError(error);
+      if (res.headersSent) {
+        res.end();
+      } else {
+        sendJson(res, error instanceof HttpError ? error.status : statusForError(failure), {
+          success: false,
+          error: failure,
+        });
+      }
+    });
+  };
+}
@@ -0,0 +1,872 @@
+/**
+ * @module server/standins/sheetsApi
+ * @description Local stand-in for the subset of the Google Sheets v4 REST API
+ * used by `createGoogleSheetsService`, for offline integration testing.
+ *
+ * Point the service at it with the `apiBaseUrl` config option (or
+ * `VITE_GOOGLE_SHEETS_API_BASE` in the app). Any API key is accepted for
+ * reads; writes need a bearer token, as with the real API, but the token
+ * itself is not checked.
+ *
+ * Endpoints (under `/v4/spreadsheets/{spreadsheetId}`):
+ * - `GET ` — spreadsheet metadata (`fields` is ignored; everything is returned)
+ * - `GET /values/{range}` — values.get (`valueRenderOption`, `dateTimeRenderOption`)
+ * - `GET /values:batchGet` — values.batchGet (`ranges`, render options as above)
+ * - `PUT /values/{range}` — values.update
+ * - `POST /values/{range}:append` — values.append
+ * - `POST /values:batchUpdate` — values.batchUpdate
+ * - `POST :batchUpdate` — spreadsheets.batchUpdate (`deleteDimension`, `addSheet`,
+ *   `updateSheetProperties` for `hidden` and `gridProperties.frozenRowCount`,
+ *   `addProtectedRange`, `setDataValidation`, `addConditionalFormatRule`,
+ *   `deleteConditionalFormatRule`; protection, validation and formatting are
+ *   recorded but not enforced)
+ *
+ * The Drive API's `GET /drive/v3/files/{spreadsheetId}` (files.get) is
+ * emulated too, returning a `version` that increases with every write, for
+ * change detection.
+ *
+ * Control endpoints, for tests:
+ * - `GET /__standin/state` — dump the current state
+ * - `POST /__standin/reset` — restore the initial state and clear faults
+ * - `POST /__standin/faults` — set `{ latencyMs, errorRate, errorStatus, failNext }`;
+ *   `failNext` is a list of HTTP statuses returned by the next API requests, in order
+ *
+ * Like Sheets, `USER_ENTERED` turns numeric text into numbers and dates (ISO or
+ * in the spreadsheet locale's order) into date cells. Date cells are returned
+ * as serial numbers with `UNFORMATTED_VALUE` and as locale-formatted text
+ * otherwise (or with `dateTimeRenderOption=FORMATTED_STRING`).
+ *
+ * Environment:
+ * - `SHEETS_STANDIN_PORT` — port to listen on (default 4020)
+ * - `SHEETS_STANDIN_STATE_FILE` — JSON file to load and persist state (default: memory only)
+ * - `SHEETS_STANDIN_SPREADSHEET_ID` — ID of the initial spreadsheet (default `standin-spreadsheet`)
+ * - `SHEETS_STANDIN_WORKSHEET` — title of its initial worksheet (default `Vendors`)
+ * - `SHEETS_STANDIN_LOCALE` — spreadsheet locale, used to format and parse dates (default `en_US`)
+ * - `SHEETS_STANDIN_LATENCY_MS` — delay added to every API response (default 0)
+ * - `SHEETS_STANDIN_ERROR_RATE` — fraction of API requests that fail, 0–1 (default 0)
+ * - `SHEETS_STANDIN_ERROR_STATUS` — status of injected failures, e.g. 429 or 500 (default 500)
+ *
+ * @example
+ * ```bash
+ * SHEETS_STANDIN_LATENCY_MS=300 npm run standin:sheets
+ * # then, in .env:
+ * VITE_GOOGLE_SHEETS_API_BASE=http://localhost:4020/v4/spreadsheets
+ * VITE_GOOGLE_SHEETS_SPREADSHEET_ID=standin-spreadsheet
+ * ```
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+
+const PORT = Number(process.env.SHEETS_STANDIN_PORT) || 4020;
+const STATE_FILE = process.env.SHEETS_STANDIN_STATE_FILE;
+const DEFAULT_SPREADSHEET_ID = process.env.SHEETS_STANDIN_SPREADSHEET_ID || 'standin-spreadsheet';
+const DEFAULT_WORKSHEET = process.env.SHEETS_STANDIN_WORKSHEET || 'Vendors';
+const DEFAULT_LOCALE = process.env.SHEETS_STANDIN_LOCALE || 'en_US';
+
+const API_PREFIX = '/v4/spreadsheets/';
+const DRIVE_PREFIX = '/drive/v3/files/';
+
+// ─── State ────────────────────────────────────────────────────────────────────
+
+type Cell = string | number | boolean;
+
+/** A cell holding a date, stored as its serial number (days since 1899-12-30) */
+interface DateCell {
+  serial: number;
+}
+
+type StoredCell = Cell | DateCell;
+
+interface ProtectedRange {
+  protectedRangeId: number;
+  range: Record<string, unknown>;
+  description?: string;
+  warningOnly?: boolean;
+}
+
+interface Worksheet {
+  sheetId: number;
+  title: string;
+  /** Stored cell values, row-major; rows may be ragged */
+  rows: StoredCell[][];
+  hidden?: boolean;
+  frozenRowCount?: number;
+  protectedRanges?: ProtectedRange[];
+  /** Data validation rules by range, as set */
+  dataValidation?: { range: Record<string, unknown>; rule: Record<string, unknown> }[];
+  conditionalFormats?: Record<string, unknown>[];
+}
+
+interface Spreadsheet {
+  title: string;
+  /** Locale code such as `en_US`; absent in state files from older versions */
+  locale?: string;
+  /** Drive file version, incremented on every write */
+  version?: number;
+  sheets: Worksheet[];
+}
+
+interface StandinState {
+  spreadsheets: Record<string, Spreadsheet>;
+}
+
+interface Faults {
+  latencyMs: number;
+  errorRate: number;
+  errorStatus: number;
+  failNext: number[];
+}
+
+function initialState(): StandinState {
+  return {
+    spreadsheets: {
+      [DEFAULT_SPREADSHEET_ID]: {
+        title: 'Vendor Management (stand-in)',
+        locale: DEFAULT_LOCALE,
+        version: 1,
+        sheets: [{ sheetId: 0, title: DEFAULT_WORKSHEET, rows: [] }],
+      },
+    },
+  };
+}
+
+function initialFaults(): Faults {
+  return {
+    latencyMs: Number(process.env.SHEETS_STANDIN_LATENCY_MS) || 0,
+    errorRate: Number(process.env.SHEETS_STANDIN_ERROR_RATE) || 0,
+    errorStatus: Number(process.env.SHEETS_STANDIN_ERROR_STATUS) || 500,
+    failNext: [],
+  };
+}
+
+function loadState(): StandinState {
+  if (STATE_FILE && existsSync(STATE_FILE)) {
+    return JSON.parse(readFileSync(STATE_FILE, 'utf8'));
+  }
+  return initialState();
+}
+
+let state = loadState();
+
+function localeOf(spreadsheet: Spreadsheet): string {
+  return spreadsheet.locale ?? DEFAULT_LOCALE;
+}
+let faults = initialFaults();
+
+function saveState(): void {
+  if (STATE_FILE) {
+    writeFileSync(STATE_FILE, JSON.stringify(state, null, 2));
+  }
+}
+
+/** Records a write to a spreadsheet: bumps its Drive version and persists the state */
+function commitWrite(spreadsheet: Spreadsheet): void {
+  spreadsheet.version = (spreadsheet.version ?? 1) + 1;
+  saveState();
+}
+
+// ─── Errors ───────────────────────────────────────────────────────────────────
+
+const STATUS_NAMES: Record<number, string> = {
+  400: 'INVALID_ARGUMENT',
+  401: 'UNAUTHENTICATED',
+  403: 'PERMISSION_DENIED',
+  404: 'NOT_FOUND',
+  429: 'RESOURCE_EXHAUSTED',
+  500: 'INTERNAL',
+  503: 'UNAVAILABLE',
+};
+
+/** An error reported in Google's `{ error: { code, message, status } }` shape */
+class ApiError extends Error {
+  readonly code: number;
+
+  constructor(code: number, message: string) {
+    super(message);
+    this.code = code;
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+function sendError(res: ServerResponse, code: number, message: string, headers: Record<string, string> = {}): void {
+  sendJson(
+    res,
+    code,
+    { error: { code, message, status: STATUS_NAMES[code] ?? 'UNKNOWN' } },
+    headers
+  );
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', (chunk) => {
+      body += chunk;
+    });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+async function readJson<T>(req: IncomingMessage): Promise<T> {
+  const body = await readBody(req);
+  try {
+    return (body ? JSON.parse(body) : {}) as T;
+  } catch {
+    throw new ApiError(400, 'Invalid JSON payload received.');
+  }
+}
+
+// ─── A1 Ranges ────────────────────────────────────────────────────────────────
+
+/** A parsed A1 range; indexes are zero-based, ends inclusive, undefined = unbounded */
+interface GridRange {
+  sheet: Worksheet;
+  startRow: number;
+  endRow?: number;
+  startColumn: number;
+  endColumn?: number;
+}
+
+function columnIndex(letters: string): number {
+  return [...letters.toUpperCase()].reduce((index, char) => index * 26 + char.charCodeAt(0) - 64, 0) - 1;
+}
+
+function columnLetters(index: number): string {
+  let letters = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+}
+
+/** Parses one cell reference (`B3`, `B`, `3`) into zero-based row/column parts */
+function parseCell(ref: string): { row?: number; column?: number } {
+  const match = /^([A-Za-z]*)(\d*)$/.exec(ref);
+  if (!match || (!match[1] && !match[2])) {
+    throw new ApiError(400, `Unable to parse range: ${ref}`);
+  }
+  return {
+    column: match[1] ? columnIndex(match[1]) : undefined,
+    row: match[2] ? Number(match[2]) - 1 : undefined,
+  };
+}
+
+function findSheet(spreadsheet: Spreadsheet, title: string): Worksheet {
+  const sheet = spreadsheet.sheets.find((s) => s.title === title);
+  if (!sheet) {
+    throw new ApiError(400, `Unable to parse range: ${title}`);
+  }
+  return sheet;
+}
+
+/**
+ * Parses an A1 range such as `'Vendor''s'!A2:H10`, `Vendors!1:1` or `Vendors`.
+ * A range without a sheet name refers to the first worksheet.
+ */
+function parseRange(spreadsheet: Spreadsheet, a1: string): GridRange {
+  let sheetPart: string | undefined;
+  let cellPart = a1;
+
+  const quoted = /^'((?:[^']|'')*)'(?:!(.*))?$/.exec(a1);
+  if (quoted) {
+    sheetPart = quoted[1].replace(/''/g, "'");
+    cellPart = quoted[2] ?? '';
+  } else if (a1.includes('!')) {
+    const separator = a1.lastIndexOf('!');
+    sheetPart = a1.slice(0, separator);
+    cellPart = a1.slice(separator + 1);
+  } else if (spreadsheet.sheets.some((s) => s.title === a1)) {
+    sheetPart = a1;
+    cellPart = '';
+  }
+
+  const sheet = sheetPart !== undefined ? findSheet(spreadsheet, sheetPart) : spreadsheet.sheets[0];
+  if (!cellPart) {
+    return { sheet, startRow: 0, startColumn: 0 };
+  }
+
+  const [startRef, endRef = startRef] = cellPart.split(':');
+  const start = parseCell(startRef);
+  const end = parseCell(endRef);
+
+  return {
+    sheet,
+    startRow: start.row ?? 0,
+    endRow: end.row,
+    startColumn: start.column ?? 0,
+    endColumn: end.column,
+  };
+}
+
+/** Formats a grid range back to A1 notation, as echoed in API responses */
+function formatRange(range: GridRange, rowCount: number, columnCount: number): string {
+  const sheet = `'${range.sheet.title.replace(/'/g, "''")}'`;
+  const endRow = range.startRow + Math.max(rowCount, 1) - 1;
+  const endColumn = range.startColumn + Math.max(columnCount, 1) - 1;
+  return `${sheet}!${columnLetters(range.startColumn)}${range.startRow + 1}:${columnLetters(endColumn)}${endRow + 1}`;
+}
+
+// ─── Values ───────────────────────────────────────────────────────────────────
+
+const MS_PER_DAY = 86_400_000;
+const SERIAL_EPOCH = Date.UTC(1899, 11, 30);
+
+function isDateCell(value: StoredCell): value is DateCell {
+  return typeof value === 'object' && value !== null;
+}
+
+/** Order of the day/month/year fields in a locale's numeric dates */
+function dateFieldOrder(locale: string): string[] {
+  return new Intl.DateTimeFormat(locale.replace(/_/g, '-'), { timeZone: 'UTC' })
+    .formatToParts(new Date(Date.UTC(2024, 0, 15)))
+    .map((part) => part.type)
+    .filter((type) => type === 'day' || type === 'month' || type === 'year');
+}
+
+/** Parses ISO or locale-ordered numeric date text into a serial, or null */
+function parseDate(text: string, locale: string): number | null {
+  const parts = text.trim().split(/[./-]/);
+  if (parts.length !== 3 || !parts.every((part) => /^\d{1,4}$/.test(part))) return null;
+
+  const order = parts[0].length === 4 ? ['year', 'month', 'day'] : dateFieldOrder(locale);
+  const fields = Object.fromEntries(order.map((field, index) => [field, Number(parts[index])]));
+  if (parts[order.indexOf('year')].length <= 2) fields.year += fields.year < 30 ? 2000 : 1900;
+
+  const time = Date.UTC(fields.year, fields.month - 1, fields.day);
+  const date = new Date(time);
+  if (date.getUTCMonth() !== fields.month - 1 || date.getUTCDate() !== fields.day) return null;
+  return Math.round((time - SERIAL_EPOCH) / MS_PER_DAY);
+}
+
+function formatDate(serial: number, locale: string): string {
+  return new Intl.DateTimeFormat(locale.replace(/_/g, '-'), {
+    timeZone: 'UTC',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+  }).format(new Date(SERIAL_EPOCH + serial * MS_PER_DAY));
+}
+
+/** Emulates USER_ENTERED parsing for the types the vendor service writes */
+function parseUserEntered(value: Cell, locale: string): StoredCell {
+  if (typeof value !== 'string') return value;
+  if (value.startsWith("'")) return value.slice(1);
+  if (/^-?\d+(\.\d+)?$/.test(value.trim())) return Number(value);
+  if (/^(true|false)$/i.test(value)) return value.toLowerCase() === 'true';
+  const serial = parseDate(value, locale);
+  return serial !== null ? { serial } : value;
+}
+
+/** How cells are rendered in a values.get response */
+interface RenderOptions {
+  valueRenderOption: string;
+  dateTimeRenderOption: string;
+  locale: string;
+}
+
+function renderCell(value: StoredCell, options: RenderOptions): Cell {
+  if (isDateCell(value)) {
+    return options.valueRenderOption === 'UNFORMATTED_VALUE' &&
+      options.dateTimeRenderOption !== 'FORMATTED_STRING'
+      ? value.serial
+      : formatDate(value.serial, options.locale);
+  }
+  if (options.valueRenderOption === 'UNFORMATTED_VALUE') return value;
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  return String(value);
+}
+
+/** Drops trailing empty cells and rows, as the real API does */
+function trimGrid<T extends StoredCell>(rows: T[][]): T[][] {
+  const trimmed = rows.map((row) => {
+    let end = row.length;
+    while (end > 0 && (row[end - 1] === '' || row[end - 1] === undefined || row[end - 1] === null)) end--;
+    return row.slice(0, end);
+  });
+  let end = trimmed.length;
+  while (end > 0 && trimmed[end - 1].length === 0) end--;
+  return trimmed.slice(0, end);
+}
+
+function readRange(range: GridRange, options: RenderOptions): Cell[][] {
+  const lastRow = range.endRow ?? range.sheet.rows.length - 1;
+  const rows: Cell[][] = [];
+  for (let r = range.startRow; r <= lastRow; r++) {
+    const row = range.sheet.rows[r] ?? [];
+    const lastColumn = range.endColumn ?? row.length - 1;
+    const cells: Cell[] = [];
+    for (let c = range.startColumn; c <= lastColumn; c++) {
+      cells.push(row[c] === undefined || row[c] === null ? '' : renderCell(row[c], options));
+    }
+    rows.push(cells);
+  }
+  return trimGrid(rows);
+}
+
+/** Writes values at the top-left of a range; returns the number of cells written */
+function writeValues(range: GridRange, values: Cell[][], inputOption: string, locale: string): number {
+  if (inputOption !== 'RAW' && inputOption !== 'USER_ENTERED') {
+    throw new ApiError(400, "Invalid valueInputOption: must be 'RAW' or 'USER_ENTERED'");
+  }
+
+  let cells = 0;
+  values.forEach((rowValues, r) => {
+    const rowIndex = range.startRow + r;
+    while (range.sheet.rows.length <= rowIndex) range.sheet.rows.push([]);
+    const row = range.sheet.rows[rowIndex];
+    rowValues.forEach((value, c) => {
+      const columnIndex = range.startColumn + c;
+      while (row.length < columnIndex) row.push('');
+      row[columnIndex] =
+        value === null || value === undefined
+          ? ''
+          : inputOption === 'USER_ENTERED'
+            ? parseUserEntered(value, locale)
+            : value;
+      cells++;
+    });
+  });
+  return cells;
+}
+
+/** Index of the first row after the last non-empty row of the sheet */
+function tableEnd(sheet: Worksheet): number {
+  return trimGrid(sheet.rows).length;
+}
+
+function updateResult(spreadsheetId: string, range: GridRange, values: Cell[][], cells: number) {
+  const columns = Math.max(0, ...values.map((row) => row.length));
+  return {
+    spreadsheetId,
+    updatedRange: formatRange(range, values.length, columns),
+    updatedRows: values.length,
+    updatedColumns: columns,
+    updatedCells: cells,
+  };
+}
+
+// ─── Handlers ─────────────────────────────────────────────────────────────────
+
+interface ApiRequest {
+  req: IncomingMessage;
+  url: URL;
+  spreadsheetId: string;
+  spreadsheet: Spreadsheet;
+  /** Path after the spreadsheet ID, e.g. `/values/Vendors!1:1` or `:batchUpdate` */
+  rest: string;
+  /** Whether the request carries a bearer token (API keys are read-only) */
+  isAuthenticated: boolean;
+}
+
+function requireWriteAccess(request: ApiRequest): void {
+  if (!request.isAuthenticated) {
+    throw new ApiError(
+      401,
+      'API keys are not supported by this API. Expected OAuth2 access token or other authentication credentials that assert a principal.'
+    );
+  }
+}
+
+function getMetadata({ spreadsheetId, spreadsheet }: ApiRequest) {
+  return {
+    spreadsheetId,
+    properties: { title: spreadsheet.title, locale: localeOf(spreadsheet) },
+    sheets: spreadsheet.sheets.map((sheet, index) => ({
+      properties: {
+        sheetId: sheet.sheetId,
+        title: sheet.title,
+        index,
+        sheetType: 'GRID',
+        ...(sheet.hidden ? { hidden: true } : {}),
+        gridProperties: {
+          rowCount: Math.max(1000, sheet.rows.length),
+          columnCount: Math.max(26, ...sheet.rows.map((row) => row.length)),
+          ...(sheet.frozenRowCount ? { frozenRowCount: sheet.frozenRowCount } : {}),
+        },
+      },
+      ...(sheet.protectedRanges?.length ? { protectedRanges: sheet.protectedRanges } : {}),
+      ...(sheet.conditionalFormats?.length ? { conditionalFormats: sheet.conditionalFormats } : {}),
+    })),
+  };
+}
+
+function renderOptionsOf({ url, spreadsheet }: ApiRequest): RenderOptions {
+  return {
+    valueRenderOption: url.searchParams.get('valueRenderOption') ?? 'FORMATTED_VALUE',
+    dateTimeRenderOption: url.searchParams.get('dateTimeRenderOption') ?? 'SERIAL_NUMBER',
+    locale: localeOf(spreadsheet),
+  };
+}
+
+function getValues(request: ApiRequest, a1: string) {
+  const range = parseRange(request.spreadsheet, a1);
+  const values = readRange(range, renderOptionsOf(request));
+  const result: { range: string; majorDimension: string; values?: Cell[][] } = {
+    range: formatRange(range, (range.endRow ?? range.sheet.rows.length - 1) - range.startRow + 1, 26),
+    majorDimension: 'ROWS',
+  };
+  if (values.length > 0) result.values = values;
+  return result;
+}
+
+function batchGetValues(request: ApiRequest) {
+  return {
+    spreadsheetId: request.spreadsheetId,
+    valueRanges: request.url.searchParams.getAll('ranges').map((a1) => getValues(request, a1)),
+  };
+}
+
+async function updateValues(request: ApiRequest, a1: string) {
+  requireWriteAccess(request);
+  const { values = [] } = await readJson<{ values?: Cell[][] }>(request.req);
+  const range = parseRange(request.spreadsheet, a1);
+  const inputOption = request.url.searchParams.get('valueInputOption') ?? '';
+  const cells = writeValues(range, values, inputOption, localeOf(request.spreadsheet));
+  commitWrite(request.spreadsheet);
+  return updateResult(request.spreadsheetId, range, values, cells);
+}
+
+async function appendValues(request: ApiRequest, a1: string) {
+  requireWriteAccess(request);
+  const { values = [] } = await readJson<{ values?: Cell[][] }>(request.req);
+  const tableRange = parseRange(request.spreadsheet, a1);
+  const sheet = tableRange.sheet;
+
+  // Both insert modes behave the same here: the stand-in has no fixed grid
+  const target: GridRange = { ...tableRange, startRow: tableEnd(sheet), endRow: undefined };
+  const inputOption = request.url.searchParams.get('valueInputOption') ?? '';
+  const cells = writeValues(target, values, inputOption, localeOf(request.spreadsheet));
+  commitWrite(request.spreadsheet);
+
+  return {
+    spreadsheetId: request.spreadsheetId,
+    tableRange: formatRange({ ...tableRange, startRow: 0 }, target.startRow, 26),
+    updates: updateResult(request.spreadsheetId, target, values, cells),
+  };
+}
+
+async function batchUpdateValues(request: ApiRequest) {
+  requireWriteAccess(request);
+  const { valueInputOption = '', data = [] } = await readJson<{
+    valueInputOption?: string;
+    data?: { range: string; values?: Cell[][] }[];
+  }>(request.req);
+
+  // Parse every range before writing anything, so a bad range fails the whole batch
+  const writes = data.map((entry) => ({
+    range: parseRange(request.spreadsheet, entry.range),
+    values: entry.values ?? [],
+  }));
+  const locale = localeOf(request.spreadsheet);
+  const responses = writes.map(({ range, values }) =>
+    updateResult(request.spreadsheetId, range, values, writeValues(range, values, valueInputOption, locale))
+  );
+  commitWrite(request.spreadsheet);
+
+  return {
+    spreadsheetId: request.spreadsheetId,
+    totalUpdatedRows: responses.reduce((sum, r) => sum + r.updatedRows, 0),
+    totalUpdatedCells: responses.reduce((sum, r) => sum + r.updatedCells, 0),
+    responses,
+  };
+}
+
+type BatchRequest = Record<string, Record<string, unknown>>;
+
+/** The sheet a batch request addresses by ID */
+function sheetById(spreadsheet: Spreadsheet, sheetId: unknown): Worksheet {
+  const sheet = spreadsheet.sheets.find((s) => s.sheetId === (sheetId ?? 0));
+  if (!sheet) throw new ApiError(400, `No grid with id: ${sheetId}`);
+  return sheet;
+}
+
+/** Applies one `spreadsheets.batchUpdate` request; returns its reply */
+function applyBatchRequest(spreadsheet: Spreadsheet, request: BatchRequest): Record<string, unknown> {
+  if (request.deleteDimension) {
+    const range = request.deleteDimension.range as {
+      sheetId: number;
+      dimension: string;
+      startIndex: number;
+      endIndex: number;
+    };
+    const sheet = spreadsheet.sheets.find((s) => s.sheetId === range.sheetId);
+    if (!sheet) throw new ApiError(400, `No grid with id: ${range.sheetId}`);
+    if (range.endIndex <= range.startIndex) throw new ApiError(400, 'Invalid dimension range');
+
+    const count = range.endIndex - range.startIndex;
+    if (range.dimension === 'ROWS') {
+      sheet.rows.splice(range.startIndex, count);
+    } else if (range.dimension === 'COLUMNS') {
+      sheet.rows.forEach((row) => row.splice(range.startIndex, count));
+    } else {
+      throw new ApiError(400, `Invalid dimension: ${range.dimension}`);
+    }
+    return {};
+  }
+
+  if (request.addSheet) {
+    const properties = (request.addSheet.properties ?? {}) as { title?: string; sheetId?: number; hidden?: boolean };
+    const title = properties.title ?? `Sheet${spreadsheet.sheets.length + 1}`;
+    if (spreadsheet.sheets.some((s) => s.title === title)) {
+      throw new ApiError(
+        400,
+        `Invalid requests[0].addSheet: A sheet with the name "${title}" already exists. Please enter another name.`
+      );
+    }
+    const sheetId = properties.sheetId ?? Math.max(-1, ...spreadsheet.sheets.map((s) => s.sheetId)) + 1;
+    if (spreadsheet.sheets.some((s) => s.sheetId === sheetId)) {
+      throw new ApiError(400, `Invalid requests[0].addSheet: Sheet with id ${sheetId} already exists.`);
+    }
+    spreadsheet.sheets.push({ sheetId, title, rows: [], ...(properties.hidden ? { hidden: true } : {}) });
+    return { addSheet: { properties: { sheetId, title, index: spreadsheet.sheets.length - 1 } } };
+  }
+
+  if (request.updateSheetProperties) {
+    const { properties, fields } = request.updateSheetProperties as {
+      properties: { sheetId: number; hidden?: boolean; gridProperties?: { frozenRowCount?: number } };
+      fields: string;
+    };
+    const sheet = spreadsheet.sheets.find((s) => s.sheetId === properties.sheetId);
+    if (!sheet) throw new ApiError(400, `No grid with id: ${properties.sheetId}`);
+    fields.split(',').forEach((field) => {
+      if (field === 'hidden') {
+        sheet.hidden = Boolean(properties.hidden);
+      } else if (field === 'gridProperties.frozenRowCount') {
+        sheet.frozenRowCount = properties.gridProperties?.frozenRowCount ?? 0;
+      } else {
+        throw new ApiError(400, `Unsupported field mask: ${field}`);
+      }
+    });
+    return {};
+  }
+
+  if (request.addProtectedRange) {
+    const protectedRange = request.addProtectedRange.protectedRange as Omit<ProtectedRange, 'protectedRangeId'>;
+    const sheetId = (protectedRange.range as { sheetId?: number }).sheetId ?? 0;
+    const sheet = spreadsheet.sheets.find((s) => s.sheetId === sheetId);
+    if (!sheet) throw new ApiError(400, `No grid with id: ${sheetId}`);
+    const existingIds = spreadsheet.sheets.flatMap((s) => (s.protectedRanges ?? []).map((p) => p.protectedRangeId));
+    const protectedRangeId = Math.max(0, ...existingIds) + 1;
+    const added = { ...protectedRange, protectedRangeId };
+    sheet.protectedRanges = [...(sheet.protectedRanges ?? []), added];
+    return { addProtectedRange: { protectedRange: added } };
+  }
+
+  if (request.setDataValidation) {
+    const { range, rule } = request.setDataValidation as {
+      range: Record<string, unknown>;
+      rule?: Record<string, unknown>;
+    };
+    const sheet = sheetById(spreadsheet, range.sheetId);
+    // Same-range rules are replaced; a request without a rule clears the range
+    const key = JSON.stringify(range);
+    const kept = (sheet.dataValidation ?? []).filter((entry) => JSON.stringify(entry.range) !== key);
+    sheet.dataValidation = rule ? [...kept, { range, rule }] : kept;
+    return {};
+  }
+
+  if (request.addConditionalFormatRule) {
+    const { rule, index = 0 } = request.addConditionalFormatRule as {
+      rule: { ranges?: Record<string, unknown>[] };
+      index?: number;
+    };
+    const sheet = sheetById(spreadsheet, rule.ranges?.[0]?.sheetId);
+    const formats = sheet.conditionalFormats ?? [];
+    formats.splice(index, 0, rule);
+    sheet.conditionalFormats = formats;
+    return {};
+  }
+
+  if (request.deleteConditionalFormatRule) {
+    const { sheetId, index } = request.deleteConditionalFormatRule as { sheetId: number; index: number };
+    const sheet = sheetById(spreadsheet, sheetId);
+    if (!sheet.conditionalFormats?.[index]) {
+      throw new ApiError(400, `No conditional format at index ${index} of sheet ${sheetId}`);
+    }
+    sheet.conditionalFormats.splice(index, 1);
+    return {};
+  }
+
+  throw new ApiError(400, `Unsupported request: ${Object.keys(request).join(', ') || '(empty)'}`);
+}
+
+async function batchUpdateSpreadsheet(request: ApiRequest) {
+  requireWriteAccess(request);
+  const { requests = [] } = await readJson<{ requests?: BatchRequest[] }>(request.req);
+
+  // Apply to a copy so a failing request leaves the spreadsheet untouched, like the real API
+  const draft: Spreadsheet = structuredClone(request.spreadsheet);
+  const replies = requests.map((entry) => applyBatchRequest(draft, entry));
+  state.spreadsheets[request.spreadsheetId] = draft;
+  commitWrite(draft);
+
+  return { spreadsheetId: request.spreadsheetId, replies };
+}
+
+/** Routes a request below `/v4/spreadsheets/{id}` */
+async function handleApi(request: ApiRequest): Promise<unknown> {
+  const { req, rest } = request;
+
+  if (req.method === 'GET' && rest === '') return getMetadata(request);
+  if (req.method === 'POST' && rest === ':batchUpdate') return batchUpdateSpreadsheet(request);
+  if (req.method === 'POST' && rest === '/values:batchUpdate') return batchUpdateValues(request);
+  if (req.method === 'GET' && rest === '/values:batchGet') return batchGetValues(request);
+
+  if (rest.startsWith('/values/')) {
+    const encoded = rest.slice('/values/'.length);
+    if (req.method === 'POST' && encoded.endsWith(':append')) {
+      return appendValues(request, decodeURIComponent(encoded.slice(0, -':append'.length)));
+    }
+    const a1 = decodeURIComponent(encoded);
+    if (req.method === 'GET') return getValues(request, a1);
+    if (req.method === 'PUT') return updateValues(request, a1);
+  }
+
+  throw new ApiError(404, `Method not found: ${req.method} ${rest || '/'}`);
+}
+
+// ─── Control Endpoints ────────────────────────────────────────────────────────
+
+async function handleControl(req: IncomingMessage, res: ServerResponse, action: string): Promise<void> {
+  if (req.method === 'GET' && action === 'state') {
+    sendJson(res, 200, state);
+    return;
+  }
+
+  if (req.method === 'POST' && action === 'reset') {
+    state = initialState();
+    faults = initialFaults();
+    saveState();
+    sendJson(res, 200, { state, faults });
+    return;
+  }
+
+  if (req.method === 'POST' && action === 'faults') {
+    const patch = await readJson<Partial<Faults>>(req);
+    faults = { ...faults, ...patch };
+    sendJson(res, 200, faults);
+    return;
+  }
+
+  sendError(res, 404, `Unknown control endpoint: ${action}`);
+}
+
+// ─── Server ───────────────────────────────────────────────────────────────────
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, OPTIONS',
+  'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+  'Access-Control-Expose-Headers': 'Retry-After',
+};
+
+/** Picks the status of an injected failure for this request, if any */
+function injectedFailure(): number | null {
+  if (faults.failNext.length > 0) {
+    const [status, ...remaining] = faults.failNext;
+    faults.failNext = remaining;
+    return status;
+  }
+  return Math.random() < faults.errorRate ? faults.errorStatus : null;
+}
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  Object.entries(CORS_HEADERS).forEach(([name, value]) => res.setHeader(name, value));
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  const url = new URL(req.url ?? '/', `http://${req.headers.host}`);
+
+  if (url.pathname.startsWith('/__standin/')) {
+    await handleControl(req, res, url.pathname.slice('/__standin/'.length));
+    return;
+  }
+
+  const isDrive = url.pathname.startsWith(DRIVE_PREFIX);
+  if (!url.pathname.startsWith(API_PREFIX) && !isDrive) {
+    sendError(res, 404, `Not found: ${url.pathname}`);
+    return;
+  }
+
+  if (faults.latencyMs > 0) await delay(faults.latencyMs);
+
+  const failure = injectedFailure();
+  if (failure !== null) {
+    sendError(
+      res,
+      failure,
+      failure === 429
+        ? "Quota exceeded for quota metric 'Read requests' and limit 'Read requests per minute per user'."
+        : 'Internal error encountered.',
+      failure === 429 ? { 'Retry-After': '1' } : {}
+    );
+    return;
+  }
+
+  const authorization = req.headers.authorization ?? '';
+  const isAuthenticated = /^Bearer \S+/.test(authorization);
+  if (!isAuthenticated && !url.searchParams.get('key')) {
+    sendError(res, 401, 'Request is missing required authentication credential.');
+    return;
+  }
+
+  // Drive files.get: only the version is of interest
+  if (isDrive) {
+    const fileId = decodeURIComponent(url.pathname.slice(DRIVE_PREFIX.length));
+    const file = state.spreadsheets[fileId];
+    if (req.method !== 'GET' || !file) {
+      sendError(res, 404, `File not found: ${fileId}.`);
+      return;
+    }
+    sendJson(res, 200, { kind: 'drive#file', id: fileId, version: String(file.version ?? 1) });
+    return;
+  }
+
+  // The path is kept encoded so `:append` and `!` inside ranges survive routing
+  const path = url.pathname.slice(API_PREFIX.length);
+  const idEnd = path.search(/[/:]/);
+  const spreadsheetId = decodeURIComponent(idEnd === -1 ? path : path.slice(0, idEnd));
+  const spreadsheet = state.spreadsheets[spreadsheetId];
+  if (!spreadsheet) {
+    sendError(res, 404, 'Requested entity was not found.');
+    return;
+  }
+
+  const body = await handleApi({
+    req,
+    url,
+    spreadsheetId,
+    spreadsheet,
+    rest: idEnd === -1 ? '' : path.slice(idEnd),
+    isAuthenticated,
+  });
+  sendJson(res, 200, body);
+}
+
+const server = createServer((req, res) => {
+  handleRequest(req, res).catch((error: unknown) => {
+    if (error instanceof ApiError) {
+      sendError(res, error.code, error.message);
+    } else {
+      sendError(res, 500, error instanceof Error ? error.message : String(error));
+    }
+  });
+});
+
+server.listen(PORT, () => {
+  console.info(`📄 Sheets API stand-in listening on http://localhost:${PORT}${API_PREFIX}${DEFAULT_SPREADSHEET_ID}`);
+  if (STATE_FILE) console.info(`   persisting state to ${STATE_FILE}`);
+});
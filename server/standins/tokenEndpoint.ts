@@ -0,0 +1,154 @@
+/**
+ * @module server/standins/tokenEndpoint
+ * @description Local stand-in for Google's OAuth2 token endpoint.
+ *
+ * Accepts the JWT-bearer grant used by `createServiceAccountProvider` and
+ * issues short-lived fake access tokens, so the service-account flow can be
+ * exercised without network access or real credentials. The assertion's
+ * structure and claims are checked; its signature is not.
+ *
+ * Endpoints:
+ * - `POST /token` — exchange a signed JWT for an access token
+ * - `GET /tokeninfo?access_token=...` — inspect an issued token
+ *
+ * Environment:
+ * - `TOKEN_STANDIN_PORT` — port to listen on (default 4010)
+ * - `TOKEN_STANDIN_TTL` — token lifetime in seconds (default 3600)
+ *
+ * @example
+ * ```bash
+ * npm run standin:token
+ * # then point the provider at it:
+ * createServiceAccountProvider({ ..., tokenUri: 'http://localhost:4010/token' })
+ * ```
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { randomBytes } from 'node:crypto';
+
+const PORT = Number(process.env.TOKEN_STANDIN_PORT) || 4010;
+const TOKEN_TTL_SECONDS = Number(process.env.TOKEN_STANDIN_TTL) || 3600;
+const JWT_BEARER_GRANT = 'urn:ietf:params:oauth:grant-type:jwt-bearer';
+
+/** Tokens issued by this process, keyed by access token */
+const issuedTokens = new Map<string, { email: string; scope: string; expiresAt: number }>();
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', (chunk) => {
+      body += chunk;
+    });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+function decodeSegment(segment: string): Record<string, unknown> {
+  return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+}
+
+/**
+ * Validates a JWT-bearer assertion and returns its claims, or an error
+ * description in the same shape Google's endpoint uses.
+ */
+function verifyAssertion(
+  assertion: string,
+  audience: string
+): { claims: Record<string, unknown> } | { error: string } {
+  const segments = assertion.split('.');
+  if (segments.length !== 3) {
+    return { error: 'Assertion is not a JWT' };
+  }
+
+  let header: Record<string, unknown>;
+  let claims: Record<string, unknown>;
+  try {
+    header = decodeSegment(segments[0]);
+    claims = decodeSegment(segments[1]);
+  } catch {
+    return { error: 'Assertion is not valid base64url-encoded JSON' };
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+
+  if (header.alg !== 'RS256') return { error: 'Unsupported signing algorithm' };
+  if (typeof claims.iss !== 'string' || !claims.iss) return { error: 'Missing iss claim' };
+  if (typeof claims.scope !== 'string' || !claims.scope) return { error: 'Missing scope claim' };
+  if (claims.aud !== audience) return { error: `Invalid audience; expected ${audience}` };
+  if (typeof claims.exp !== 'number' || claims.exp < now) return { error: 'Assertion has expired' };
+  if (typeof claims.iat !== 'number' || claims.iat > now + 60) return { error: 'Invalid iat claim' };
+
+  return { claims };
+}
+
+async function handleToken(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const params = new URLSearchParams(await readBody(req));
+
+  if (params.get('grant_type') !== JWT_BEARER_GRANT) {
+    sendJson(res, 400, { error: 'unsupported_grant_type', error_description: 'Only the JWT bearer grant is supported' });
+    return;
+  }
+
+  const audience = `http://${req.headers.host}/token`;
+  const result = verifyAssertion(params.get('assertion') ?? '', audience);
+  if ('error' in result) {
+    sendJson(res, 400, { error: 'invalid_grant', error_description: result.error });
+    return;
+  }
+
+  const accessToken = `standin.${randomBytes(24).toString('base64url')}`;
+  issuedTokens.set(accessToken, {
+    email: String(result.claims.iss),
+    scope: String(result.claims.scope),
+    expiresAt: Date.now() + TOKEN_TTL_SECONDS * 1000,
+  });
+
+  sendJson(res, 200, {
+    access_token: accessToken,
+    expires_in: TOKEN_TTL_SECONDS,
+    token_type: 'Bearer',
+  });
+}
+
+function handleTokenInfo(url: URL, res: ServerResponse): void {
+  const token = issuedTokens.get(url.searchParams.get('access_token') ?? '');
+  if (!token || token.expiresAt < Date.now()) {
+    sendJson(res, 400, { error: 'invalid_token', error_description: 'Invalid or expired token' });
+    return;
+  }
+
+  sendJson(res, 200, {
+    email: token.email,
+    scope: token.scope,
+    expires_in: Math.floor((token.expiresAt - Date.now()) / 1000),
+  });
+}
+
+const server = createServer((req, res) => {
+  const url = new URL(req.url ?? '/', `http://${req.headers.host}`);
+
+  if (req.method === 'POST' && url.pathname === '/token') {
+    handleToken(req, res).catch((error: unknown) => {
+      sendJson(res, 500, { error: 'server_error', error_description: String(error) });
+    });
+    return;
+  }
+
+  if (req.method === 'GET' && url.pathname === '/tokeninfo') {
+    handleTokenInfo(url, res);
+    return;
+  }
+
+  sendJson(res, 404, { error: 'not_found' });
+});
+
+server.listen(PORT, () => {
+  console.info(`🔑 Token endpoint stand-in listening on http://localhost:${PORT}/token`);
+});
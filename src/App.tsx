@@ -3,43 +3,83 @@
  * @description Root application component for the Vendor Management Portal.
  *
  * Implements the main layout with action selection and renders the appropriate
- * view based on the selected action (Onboard, Update, View, Delete).
+ * view based on the selected action (Onboard, Update, View, Delete, Import).
  *
  * Architecture:
  * - Uses `useVendors` hook for centralized state management
  * - Wraps content in `ErrorBoundary` for graceful error handling
  * - Displays global alerts from vendor operations
  * - Shows loading states during initial data fetch
+ * - Lists changes queued while offline in the `OutboxPanel`
+ * - Shows a notice while Google Sheets is unreachable and being retried
+ * - Offers to sign in again when the data source rejects the credentials
+ * - Lists rows with invalid or unexpected values in the `DataIssuesPanel`
+ * - Reports progress while large sheets load page by page
+ * - Shows the freshness of the cached vendor list in `SyncStatus`
+ * - Reports edits made directly in the spreadsheet in the `RemoteChangesBanner`
+ * - Switches between workspaces from the header with the `WorkspaceSelector`;
+ *   the app is remounted per workspace (see `WorkspaceRoot`), so no state carries over
  *
  */
 
 import React, { useState, useCallback } from 'react';
-import type { VendorAction } from './types/vendor';
+import type { VendorAction, Workspace } from './types/vendor';
 import { useVendors } from './hooks/useVendors';
+import { describeWorkspace } from './services/workspaces';
 import { ErrorBoundary } from './components/ErrorBoundary/ErrorBoundary';
 import { ActionSelector } from './components/ActionSelector/ActionSelector';
 import { VendorForm } from './components/VendorForm/VendorForm';
 import { VendorTable } from './components/VendorTable/VendorTable';
 import { VendorUpdate } from './components/VendorUpdate/VendorUpdate';
 import { VendorDelete } from './components/VendorDelete/VendorDelete';
+import { VendorImport } from './components/VendorImport/VendorImport';
+import { OutboxPanel } from './components/OutboxPanel/OutboxPanel';
+import { DataIssuesPanel } from './components/DataIssuesPanel/DataIssuesPanel';
+import { SyncStatus } from './components/SyncStatus/SyncStatus';
+import { RemoteChangesBanner } from './components/RemoteChangesBanner/RemoteChangesBanner';
+import { WorkspaceSelector } from './components/WorkspaceSelector/WorkspaceSelector';
 import { Alert, LoadingSpinner } from './components/ui';
 import './App.css';
 
-const App: React.FC = () => {
+export interface AppProps {
+  /** Workspace to manage (default: the one set by `VITE_GOOGLE_SHEETS_*`) */
+  workspace?: Workspace;
+  /** Workspaces offered in the header */
+  workspaces?: Workspace[];
+  /** Switch to another workspace */
+  onWorkspaceChange?: (workspaceId: string) => void;
+}
+
+const App: React.FC<AppProps> = ({ workspace, workspaces = [], onWorkspaceChange }) => {
   const [currentAction, setCurrentAction] = useState<VendorAction>('onboard');
 
   const {
     vendors,
     isLoading,
     isInitialLoading,
+    isRevalidating,
+    isStale,
+    lastSyncedAt,
+    loadedCount,
     error,
     alert,
     addVendor,
     updateVendor,
     deleteVendor,
+    importVendors,
     refresh,
     clearAlert,
-  } = useVendors();
+    isOnline,
+    outbox,
+    retryMutation,
+    discardMutation,
+    connectionStatus,
+    needsSignIn,
+    reauthenticate,
+    dataIssues,
+    remoteChanges,
+    dismissRemoteChanges,
+  } = useVendors(undefined, { workspace });
 
   /** Handle action change and clear alerts */
   const handleActionChange = useCallback(
@@ -74,6 +114,8 @@ const App: React.FC = () => {
           <VendorTable
             vendors={vendors}
             isLoading={isLoading}
+            issues={dataIssues}
+            source={workspace && describeWorkspace(workspace)}
           />
         );
       case 'delete':
@@ -84,6 +126,14 @@ const App: React.FC = () => {
             onDelete={deleteVendor}
           />
         );
+      case 'import':
+        return (
+          <VendorImport
+            vendors={vendors}
+            isLoading={isLoading}
+            onImport={importVendors}
+          />
+        );
       default:
         return null;
     }
@@ -102,6 +152,13 @@ const App: React.FC = () => {
                 Manage your vendor data with Google Sheets integration
               </p>
             </div>
+            {workspace && onWorkspaceChange && (
+              <WorkspaceSelector
+                workspaces={workspaces}
+                currentId={workspace.id}
+                onChange={onWorkspaceChange}
+              />
+            )}
           </div>
         </header>
 
@@ -115,6 +172,66 @@ const App: React.FC = () => {
               disabled={isInitialLoading}
             />
 
+            {/* Paged Load Progress */}
+            {loadedCount !== null && !isInitialLoading && (
+              <p className="load-progress" role="status">
+                Loading vendors… {loadedCount.toLocaleString()} loaded
+              </p>
+            )}
+
+            {/* Data Freshness */}
+            <SyncStatus
+              lastSyncedAt={lastSyncedAt}
+              isStale={isStale}
+              isRevalidating={isRevalidating}
+              onRefresh={refresh}
+            />
+
+            {/* Connection Status */}
+            {connectionStatus !== 'online' && (
+              <Alert
+                type={connectionStatus === 'unavailable' ? 'warning' : 'info'}
+                message={
+                  connectionStatus === 'unavailable'
+                    ? 'Sheets temporarily unavailable, retrying…'
+                    : 'Sheets is responding slowly, retrying…'
+                }
+                autoDismiss={0}
+              />
+            )}
+
+            {/* Re-authentication */}
+            {needsSignIn && (
+              <div className="error-container">
+                <Alert
+                  type="warning"
+                  message="Your session has expired or lacks access to this vendor list."
+                  autoDismiss={0}
+                />
+                <button
+                  className="btn btn--secondary"
+                  onClick={reauthenticate}
+                  type="button"
+                >
+                  Sign In Again
+                </button>
+              </div>
+            )}
+
+            {/* Changes Made in the Spreadsheet */}
+            <RemoteChangesBanner changes={remoteChanges} onDismiss={dismissRemoteChanges} />
+
+            {/* Offline Outbox */}
+            <OutboxPanel
+              entries={outbox}
+              isOnline={isOnline}
+              onRetry={retryMutation}
+              onDiscard={discardMutation}
+            />
+
+            {/* Data Issues */}
+            <DataIssuesPanel issues={dataIssues} />
+
             {/* Global Alerts */}
             {alert && (
               <Alert
@@ -128,7 +245,7 @@ const App: React.FC = () => {
             {/* Error State */}
             {error && !isInitialLoading && (
               <div className="error-container">
-                <Alert type="error" message={error} autoDismiss={0} />
+                <Alert type="error" message={error.message} autoDismiss={0} />
                 <button
                   className="btn btn--secondary"
                   onClick={refresh}
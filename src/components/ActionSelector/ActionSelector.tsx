@@ -34,6 +34,7 @@ const ACTION_ICONS: Record<VendorAction, string> = {
   update: '✏️',
   view: '📋',
   delete: '🗑️',
+  import: '📥',
 };
 
 export const ActionSelector: React.FC<ActionSelectorProps> = ({
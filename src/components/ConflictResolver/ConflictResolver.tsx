@@ -0,0 +1,164 @@
+/**
+ * @component ConflictResolver
+ * @description Side-by-side view for resolving an update conflict, shown when a
+ * vendor was changed by someone else after the user started editing it.
+ *
+ * Offers three resolutions:
+ * - **Keep mine** — overwrite the current version with the user's edits
+ * - **Take theirs** — discard the user's edits and continue from the current version
+ * - **Merge** — pick, field by field, which version to keep
+ *
+ * @example
+ * ```tsx
+ * <ConflictResolver
+ *   mine={pendingVendor}
+ *   theirs={conflict.current}
+ *   isLoading={isSaving}
+ *   onKeepMine={() => save(pendingVendor)}
+ *   onTakeTheirs={() => reloadForm(conflict.current)}
+ *   onMerge={(merged) => save(merged)}
+ * />
+ * ```
+ */
+
+import React, { useState, useMemo } from 'react';
+import type { Vendor, NewVendor } from '../../types/vendor';
+import { Button } from '../ui';
+
+export interface ConflictResolverProps {
+  /** The user's pending edits */
+  mine: NewVendor;
+  /** The version currently stored */
+  theirs: Vendor;
+  /** Whether a save is in progress */
+  isLoading: boolean;
+  /** Save the user's edits over the current version */
+  onKeepMine: () => void;
+  /** Discard the user's edits in favour of the current version */
+  onTakeTheirs: () => void;
+  /** Save a field-by-field merge of both versions */
+  onMerge: (merged: NewVendor) => void;
+  /** Additional CSS class names */
+  className?: string;
+}
+
+type ConflictField = Exclude<keyof NewVendor, 'VendorId'>;
+type Side = 'mine' | 'theirs';
+
+/** Fields compared between the two versions, in display order */
+const CONFLICT_FIELDS: { key: ConflictField; label: string }[] = [
+  { key: 'CompanyName', label: 'Company Name' },
+  { key: 'BusinessType', label: 'Business Type' },
+  { key: 'Products', label: 'Products' },
+  { key: 'YearsInBusiness', label: 'Years in Business' },
+  { key: 'OnboardingDate', label: 'Onboarding Date' },
+  { key: 'AdditionalInfo', label: 'Notes' },
+];
+
+export const ConflictResolver: React.FC<ConflictResolverProps> = ({
+  mine,
+  theirs,
+  isLoading,
+  onKeepMine,
+  onTakeTheirs,
+  onMerge,
+  className = '',
+}) => {
+  /** Fields whose values differ between the two versions */
+  const differing = useMemo(
+    () => CONFLICT_FIELDS.filter(({ key }) => String(mine[key]) !== String(theirs[key])),
+    [mine, theirs]
+  );
+
+  const [choices, setChoices] = useState<Partial<Record<ConflictField, Side>>>({});
+
+  const choiceFor = (field: ConflictField): Side => choices[field] ?? 'mine';
+
+  const handleMerge = () => {
+    const merged: NewVendor = { ...mine };
+    differing.forEach(({ key }) => {
+      if (choiceFor(key) === 'theirs') {
+        (merged as Record<ConflictField, unknown>)[key] = theirs[key];
+      }
+    });
+    onMerge(merged);
+  };
+
+  const renderValue = (value: string | number) =>
+    value === '' ? <span className="conflict-empty">—</span> : String(value);
+
+  return (
+    <div className={`conflict-resolver ${className}`} role="alertdialog" aria-labelledby="conflict-title">
+      <h3 id="conflict-title" className="conflict-title">
+        This vendor was changed by someone else
+      </h3>
+      <p className="conflict-message">
+        <strong>{theirs.CompanyName}</strong> was updated while you were editing it.
+        {differing.length > 0
+          ? ' Choose which version to keep for each field that differs.'
+          : ' Their changes match yours.'}
+      </p>
+
+      <div className="table-wrapper">
+        <table className="conflict-table" aria-label="Conflicting changes">
+          <thead>
+            <tr>
+              <th className="table-header">Field</th>
+              <th className="table-header">Your version</th>
+              <th className="table-header">Current version</th>
+            </tr>
+          </thead>
+          <tbody>
+            {CONFLICT_FIELDS.map(({ key, label }) => {
+              const isDifferent = differing.some((field) => field.key === key);
+              return (
+                <tr key={key} className={`table-row ${isDifferent ? 'conflict-row--different' : ''}`}>
+                  <td className="table-cell table-cell--name">{label}</td>
+                  {(['mine', 'theirs'] as const).map((side) => {
+                    const value = side === 'mine' ? mine[key] : theirs[key];
+                    return (
+                      <td key={side} className="table-cell">
+                        {isDifferent ? (
+                          <label className="conflict-choice">
+                            <input
+                              type="radio"
+                              name={`conflict-${key}`}
+                              checked={choiceFor(key) === side}
+                              onChange={() => setChoices((prev) => ({ ...prev, [key]: side }))}
+                              disabled={isLoading}
+                            />
+                            <span>{renderValue(value)}</span>
+                          </label>
+                        ) : (
+                          renderValue(value)
+                        )}
+                      </td>
+                    );
+                  })}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="confirm-actions">
+        <Button variant="primary" onClick={onKeepMine} isLoading={isLoading}>
+          Keep Mine
+        </Button>
+        <Button variant="secondary" onClick={onTakeTheirs} disabled={isLoading}>
+          Take Theirs
+        </Button>
+        <Button
+          variant="secondary"
+          onClick={handleMerge}
+          disabled={isLoading || differing.length === 0}
+        >
+          Save Merged
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+ConflictResolver.displayName = 'ConflictResolver';
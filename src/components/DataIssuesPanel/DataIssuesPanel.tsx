@@ -0,0 +1,76 @@
+/**
+ * @component DataIssuesPanel
+ * @description Lists problems found in the stored vendor data — unknown
+ * business types, invalid dates, non-numeric years and so on — with the sheet
+ * row and column of each, so they can be fixed at the source.
+ *
+ * Collapsed by default; renders nothing when there are no issues.
+ *
+ * @example
+ * ```tsx
+ * <DataIssuesPanel issues={dataIssues} />
+ * ```
+ */
+
+import React, { useMemo } from 'react';
+import type { VendorIssue } from '../../types/vendor';
+
+export interface DataIssuesPanelProps {
+  /** Issues reported by the last load */
+  issues: VendorIssue[];
+  /** Additional CSS class names */
+  className?: string;
+}
+
+export const DataIssuesPanel: React.FC<DataIssuesPanelProps> = ({ issues, className = '' }) => {
+  /** Issues grouped by row, in row order */
+  const rows = useMemo(() => {
+    const grouped = new Map<number, VendorIssue[]>();
+    issues.forEach((issue) => grouped.set(issue.row, [...(grouped.get(issue.row) ?? []), issue]));
+    return [...grouped.entries()].sort(([a], [b]) => a - b);
+  }, [issues]);
+
+  if (issues.length === 0) return null;
+
+  const errorCount = issues.filter((issue) => issue.severity === 'error').length;
+
+  return (
+    <details className={`data-issues ${className}`}>
+      <summary className="data-issues-summary">
+        <span className="data-issues-icon" aria-hidden="true">⚠</span>
+        {rows.length} row{rows.length !== 1 ? 's have' : ' has'} data issues
+        <span className="data-issues-counts">
+          {errorCount} error{errorCount !== 1 ? 's' : ''}, {issues.length - errorCount} warning
+          {issues.length - errorCount !== 1 ? 's' : ''}
+        </span>
+      </summary>
+
+      <ul className="data-issues-list">
+        {rows.map(([row, rowIssues]) => (
+          <li key={row} className="data-issues-row">
+            <span className="data-issues-row-label">
+              Row {row}
+              {rowIssues[0].companyName ? ` · ${rowIssues[0].companyName}` : ''}
+            </span>
+            <ul className="data-issues-cells">
+              {rowIssues.map((issue) => (
+                <li
+                  key={issue.field}
+                  className={`data-issues-cell data-issues-cell--${issue.severity}`}
+                >
+                  <span className="data-issues-field">
+                    {issue.column ? `${issue.column}${row} ` : ''}
+                    {issue.field}
+                  </span>
+                  {issue.message}
+                </li>
+              ))}
+            </ul>
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+};
+
+DataIssuesPanel.displayName = 'DataIssuesPanel';
@@ -0,0 +1,101 @@
+/**
+ * @component OutboxPanel
+ * @description Lists vendor changes queued while offline, with their sync status.
+ * Failed and conflicted entries can be retried or discarded.
+ *
+ * Renders nothing when the browser is online and the outbox is empty.
+ *
+ * @example
+ * ```tsx
+ * <OutboxPanel
+ *   entries={outbox}
+ *   isOnline={isOnline}
+ *   onRetry={retryMutation}
+ *   onDiscard={discardMutation}
+ * />
+ * ```
+ */
+
+import React from 'react';
+import type { OutboxEntry, OutboxStatus } from '../../services/mutationOutbox';
+import { describeMutation } from '../../services/mutationOutbox';
+import { Button } from '../ui';
+
+export interface OutboxPanelProps {
+  /** Queued mutations in replay order */
+  entries: OutboxEntry[];
+  /** Whether the browser is online */
+  isOnline: boolean;
+  /** Retry a failed or conflicted entry */
+  onRetry: (entryId: string) => void;
+  /** Discard an entry without sending it */
+  onDiscard: (entryId: string) => void;
+  /** Additional CSS class names */
+  className?: string;
+}
+
+const STATUS_LABELS: Record<OutboxStatus, string> = {
+  pending: 'Pending',
+  failed: 'Failed',
+  conflicted: 'Conflict',
+};
+
+export const OutboxPanel: React.FC<OutboxPanelProps> = ({
+  entries,
+  isOnline,
+  onRetry,
+  onDiscard,
+  className = '',
+}) => {
+  if (isOnline && entries.length === 0) return null;
+
+  return (
+    <section className={`outbox-panel ${className}`} aria-label="Unsynced changes">
+      <div className="outbox-header">
+        <span className={`outbox-connection ${isOnline ? '' : 'outbox-connection--offline'}`}>
+          {isOnline ? 'Online' : 'Offline'}
+        </span>
+        <span className="outbox-summary">
+          {entries.length === 0
+            ? 'Changes you make will be saved locally and synced when you reconnect.'
+            : `${entries.length} unsynced change${entries.length !== 1 ? 's' : ''}`}
+        </span>
+      </div>
+
+      {entries.length > 0 && (
+        <ul className="outbox-list">
+          {entries.map((entry) => (
+            <li key={entry.id} className="outbox-item">
+              <div className="outbox-item-main">
+                <span className="outbox-item-title">{describeMutation(entry.mutation)}</span>
+                <span className={`outbox-status outbox-status--${entry.status}`}>
+                  {STATUS_LABELS[entry.status]}
+                </span>
+              </div>
+              {entry.error && <p className="outbox-item-error">{entry.error}</p>}
+              {entry.status !== 'pending' && (
+                <div className="outbox-item-actions">
+                  <Button variant="secondary" onClick={() => onRetry(entry.id)} disabled={!isOnline}>
+                    {entry.status === 'conflicted' ? 'Overwrite' : 'Retry'}
+                  </Button>
+                  <Button variant="ghost" onClick={() => onDiscard(entry.id)}>
+                    Discard
+                  </Button>
+                </div>
+              )}
+              {entry.status === 'pending' && !isOnline && (
+                <div className="outbox-item-actions">
+                  <Button variant="ghost" onClick={() => onDiscard(entry.id)}>
+                    Discard
+                  </Button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+OutboxPanel.displayName = 'OutboxPanel';
@@ -0,0 +1,78 @@
+/**
+ * @component RemoteChangesBanner
+ * @description Reports vendors that were added, changed or removed in the
+ * spreadsheet by someone else, as found by background reloads. The list has
+ * already been updated; the banner only says what changed, with the affected
+ * vendors listed on demand.
+ *
+ * Renders nothing when there are no changes to report.
+ *
+ * @example
+ * ```tsx
+ * <RemoteChangesBanner changes={remoteChanges} onDismiss={dismissRemoteChanges} />
+ * ```
+ */
+
+import React from 'react';
+import type { VendorDiff } from '../../utils/vendorDiff';
+import { Button } from '../ui';
+
+export interface RemoteChangesBannerProps {
+  /** Changes found since the banner was last dismissed */
+  changes: VendorDiff | null;
+  /** Acknowledge the changes */
+  onDismiss: () => void;
+  /** Additional CSS class names */
+  className?: string;
+}
+
+/** Formats a count with a label, e.g. "2 added" */
+const countOf = (count: number, label: string) => (count > 0 ? [`${count} ${label}`] : []);
+
+export const RemoteChangesBanner: React.FC<RemoteChangesBannerProps> = ({
+  changes,
+  onDismiss,
+  className = '',
+}) => {
+  if (!changes) return null;
+
+  const { added, changed, removed } = changes;
+  const summary = [
+    ...countOf(added.length, 'added'),
+    ...countOf(changed.length, 'changed'),
+    ...countOf(removed.length, 'removed'),
+  ].join(', ');
+
+  return (
+    <section className={`remote-changes ${className}`} role="status" aria-label="Changes from the spreadsheet">
+      <details className="remote-changes-details">
+        <summary className="remote-changes-summary">
+          Vendors were updated in the spreadsheet: {summary}
+        </summary>
+        <ul className="remote-changes-list">
+          {added.map((vendor) => (
+            <li key={vendor.VendorId} className="remote-changes-item remote-changes-item--added">
+              {`Added "${vendor.CompanyName}"`}
+            </li>
+          ))}
+          {changed.map(({ before, after }) => (
+            <li key={after.VendorId} className="remote-changes-item remote-changes-item--changed">
+              {`Changed "${after.CompanyName}"`}
+              {before.CompanyName !== after.CompanyName && ` (was "${before.CompanyName}")`}
+            </li>
+          ))}
+          {removed.map((vendor) => (
+            <li key={vendor.VendorId} className="remote-changes-item remote-changes-item--removed">
+              {`Removed "${vendor.CompanyName}"`}
+            </li>
+          ))}
+        </ul>
+      </details>
+      <Button variant="ghost" onClick={onDismiss}>
+        Dismiss
+      </Button>
+    </section>
+  );
+};
+
+RemoteChangesBanner.displayName = 'RemoteChangesBanner';
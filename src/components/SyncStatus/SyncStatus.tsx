@@ -0,0 +1,83 @@
+/**
+ * @component SyncStatus
+ * @description Shows how fresh the displayed vendor list is: when it was last
+ * read from the data source, whether it is being reloaded, and whether it is
+ * older than the cache TTL. Offers a manual refresh.
+ *
+ * Renders nothing until the list has been synced once.
+ *
+ * @example
+ * ```tsx
+ * <SyncStatus
+ *   lastSyncedAt={lastSyncedAt}
+ *   isStale={isStale}
+ *   isRevalidating={isRevalidating}
+ *   onRefresh={refresh}
+ * />
+ * ```
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Button } from '../ui';
+
+export interface SyncStatusProps {
+  /** When the list was last read from the data source */
+  lastSyncedAt: Date | null;
+  /** Whether the list is older than the cache TTL */
+  isStale: boolean;
+  /** Whether the list is being reloaded */
+  isRevalidating: boolean;
+  /** Reload the list */
+  onRefresh: () => void;
+  /** Additional CSS class names */
+  className?: string;
+}
+
+/** How often the relative time is re-rendered */
+const TICK_MS = 30_000;
+
+const relativeTime = new Intl.RelativeTimeFormat(undefined, { numeric: 'auto' });
+
+/** Formats a past moment relative to now, e.g. "5 minutes ago" */
+function formatAge(date: Date, now: number): string {
+  const seconds = Math.round((date.getTime() - now) / 1000);
+  if (seconds > -60) return 'just now';
+  const minutes = Math.round(seconds / 60);
+  if (minutes > -60) return relativeTime.format(minutes, 'minute');
+  const hours = Math.round(minutes / 60);
+  if (hours > -24) return relativeTime.format(hours, 'hour');
+  return relativeTime.format(Math.round(hours / 24), 'day');
+}
+
+export const SyncStatus: React.FC<SyncStatusProps> = ({
+  lastSyncedAt,
+  isStale,
+  isRevalidating,
+  onRefresh,
+  className = '',
+}) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  if (!lastSyncedAt) return null;
+
+  return (
+    <div className={`sync-status ${isStale ? 'sync-status--stale' : ''} ${className}`} role="status">
+      <span className="sync-status-text" title={lastSyncedAt.toLocaleString()}>
+        {isRevalidating
+          ? 'Checking for updates…'
+          : `Last synced ${formatAge(lastSyncedAt, Math.max(now, lastSyncedAt.getTime()))}`}
+      </span>
+      {isStale && !isRevalidating && <span className="sync-status-badge">Out of date</span>}
+      <Button variant="ghost" onClick={onRefresh} disabled={isRevalidating}>
+        Refresh
+      </Button>
+    </div>
+  );
+};
+
+SyncStatus.displayName = 'SyncStatus';
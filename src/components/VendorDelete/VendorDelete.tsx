@@ -21,6 +21,7 @@
 
 import React, { useState, useCallback, useMemo } from 'react';
 import type { Vendor, AlertMessage } from '../../types/vendor';
+import { vendorSelectOptions } from '../../utils/vendorId';
 import { Select, Button, Alert } from '../ui';
 
 export interface VendorDeleteProps {
@@ -28,8 +29,8 @@ export interface VendorDeleteProps {
   vendors: Vendor[];
   /** Whether a deletion is in progress */
   isLoading: boolean;
-  /** Callback when vendor deletion is confirmed */
-  onDelete: (companyName: string) => Promise<boolean>;
+  /** Callback when vendor deletion is confirmed, receiving the vendor ID and its revision */
+  onDelete: (vendorId: string, expectedRevision?: number) => Promise<boolean>;
   /** Additional CSS class names */
   className?: string;
 }
@@ -44,15 +45,12 @@ export const VendorDelete: React.FC<VendorDeleteProps> = ({
   const [showConfirm, setShowConfirm] = useState<boolean>(false);
   const [formAlert, setFormAlert] = useState<AlertMessage | null>(null);
 
-  /** List of vendor names for the selector */
-  const vendorNames = useMemo(
-    () => vendors.map((v) => v.CompanyName),
-    [vendors]
-  );
+  /** Vendor options for the selector, keyed by vendor ID */
+  const vendorOptions = useMemo(() => vendorSelectOptions(vendors), [vendors]);
 
   /** Get the full vendor details for the selected vendor */
   const vendorDetails = useMemo(
-    () => vendors.find((v) => v.CompanyName === selectedVendor),
+    () => vendors.find((v) => v.VendorId === selectedVendor),
     [vendors, selectedVendor]
   );
 
@@ -71,15 +69,15 @@ export const VendorDelete: React.FC<VendorDeleteProps> = ({
 
   /** Confirm and execute deletion */
   const handleConfirmDelete = useCallback(async () => {
-    if (!selectedVendor) return;
+    if (!selectedVendor || !vendorDetails) return;
 
-    const success = await onDelete(selectedVendor);
+    const success = await onDelete(selectedVendor, vendorDetails.Revision);
 
     if (success) {
       setSelectedVendor('');
-      setShowConfirm(false);
     }
-  }, [selectedVendor, onDelete]);
+    setShowConfirm(false);
+  }, [selectedVendor, vendorDetails, onDelete]);
 
   /** Cancel deletion */
   const handleCancelDelete = useCallback(() => {
@@ -111,7 +109,7 @@ export const VendorDelete: React.FC<VendorDeleteProps> = ({
           setShowConfirm(false);
           setFormAlert(null);
         }}
-        options={vendorNames}
+        options={vendorOptions}
         placeholder="Choose a vendor..."
         disabled={isLoading}
       />
@@ -12,6 +12,7 @@
  * - Text area for additional notes
  * - Validation with error messages
  * - Duplicate vendor name checking
+ * - Highlights fields rejected by the data service
  *
  * @example
  * ```tsx
@@ -24,17 +25,25 @@
  */
 
 import React, { useState, useCallback } from 'react';
-import type { Vendor, VendorFormData, BusinessType, Product } from '../../types/vendor';
+import type {
+  Vendor,
+  NewVendor,
+  VendorFormData,
+  BusinessType,
+  Product,
+  VendorMutationResult,
+} from '../../types/vendor';
 import {
   BUSINESS_TYPES,
   PRODUCTS,
   YEARS_IN_BUSINESS,
-  DEFAULT_FORM_VALUES,
+  getDefaultFormValues,
 } from '../../constants/vendor';
 import {
   validateMandatoryFields,
   isDuplicateVendor,
   formDataToVendor,
+  toFormFieldErrors,
 } from '../../utils/validation';
 import { TextInput, Select, MultiSelect, Slider, DatePicker, TextArea, Button, Alert } from '../ui';
 import type { AlertMessage } from '../../types/vendor';
@@ -45,7 +54,7 @@ export interface VendorFormProps {
   /** Whether a submission is in progress */
   isLoading: boolean;
   /** Callback when the form is submitted with valid data */
-  onSubmit: (vendor: Vendor) => Promise<boolean>;
+  onSubmit: (vendor: NewVendor) => Promise<VendorMutationResult>;
   /** Additional CSS class names */
   className?: string;
 }
@@ -56,7 +65,7 @@ export const VendorForm: React.FC<VendorFormProps> = ({
   onSubmit,
   className = '',
 }) => {
-  const [formData, setFormData] = useState<VendorFormData>({ ...DEFAULT_FORM_VALUES });
+  const [formData, setFormData] = useState<VendorFormData>(getDefaultFormValues);
   const [formAlert, setFormAlert] = useState<AlertMessage | null>(null);
   const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
 
@@ -78,7 +87,7 @@ export const VendorForm: React.FC<VendorFormProps> = ({
 
   /** Reset the form to default values */
   const resetForm = useCallback(() => {
-    setFormData({ ...DEFAULT_FORM_VALUES });
+    setFormData(getDefaultFormValues());
     setFieldErrors({});
     setFormAlert(null);
   }, []);
@@ -118,10 +127,13 @@ export const VendorForm: React.FC<VendorFormProps> = ({
 
       // Convert form data to vendor format and submit
       const vendor = formDataToVendor(formData);
-      const success = await onSubmit(vendor);
+      const result = await onSubmit(vendor);
 
-      if (success) {
+      if (result.success) {
         resetForm();
+      } else if (result.error?.code === 'validation' || result.error?.code === 'duplicate') {
+        // Highlight the fields the data service rejected
+        setFieldErrors(toFormFieldErrors(result.error.fields));
       }
     },
     [formData, vendors, onSubmit, resetForm]
@@ -194,6 +206,7 @@ export const VendorForm: React.FC<VendorFormProps> = ({
           onChange={(value) => updateField('onboardingDate', value)}
           required
           disabled={isLoading}
+          error={fieldErrors.onboardingDate}
         />
 
         <TextArea
@@ -0,0 +1,395 @@
+/**
+ * @component VendorImport
+ * @description Wizard for onboarding a batch of vendors from a CSV file.
+ *
+ * Features:
+ * - Reads comma-, semicolon- or tab-separated files
+ * - Maps source columns to vendor fields, pre-filled from the header names
+ * - Previews every row with its validation errors and duplicates
+ * - Skips, overwrites or renames vendors that already exist
+ * - Writes the valid rows in one batch
+ * - Downloadable error report of the rows left out
+ *
+ * See `utils/vendorImport` for how rows are validated and planned.
+ *
+ * @example
+ * ```tsx
+ * <VendorImport
+ *   vendors={existingVendors}
+ *   isLoading={isImporting}
+ *   onImport={importVendors}
+ * />
+ * ```
+ */
+
+import React, { useState, useCallback, useMemo } from 'react';
+import type {
+  Vendor,
+  NewVendor,
+  AlertMessage,
+  VendorImportResult,
+  VendorUpdateInput,
+} from '../../types/vendor';
+import {
+  IMPORT_FIELDS,
+  guessColumnMapping,
+  importErrorReport,
+  parseImportFile,
+  planImport,
+  previewImport,
+  type ColumnMapping,
+  type DuplicateStrategy,
+  type ImportField,
+  type ImportFile,
+  type ImportRow,
+  type RejectedImportRow,
+} from '../../utils/vendorImport';
+import { downloadFile } from '../../utils/download';
+import { Select, Button, Alert } from '../ui';
+
+export interface VendorImportProps {
+  /** Existing vendors, to find duplicates */
+  vendors: Vendor[];
+  /** Whether an import is in progress */
+  isLoading: boolean;
+  /** Callback writing the planned adds and overwrites */
+  onImport: (adds: NewVendor[], updates: VendorUpdateInput[]) => Promise<VendorImportResult>;
+  /** Additional CSS class names */
+  className?: string;
+}
+
+type ImportStep = 'upload' | 'map' | 'preview' | 'done';
+
+/** Select value of fields that are not imported */
+const NOT_MAPPED = '-1';
+
+/** Fields that must have a value, marked as required in the mapping */
+const REQUIRED_FIELDS: readonly ImportField[] = ['CompanyName', 'BusinessType', 'OnboardingDate'];
+
+const DUPLICATE_STRATEGIES: readonly { value: DuplicateStrategy; label: string; description: string }[] = [
+  { value: 'skip', label: 'Skip', description: 'Leave existing vendors unchanged' },
+  { value: 'overwrite', label: 'Overwrite', description: 'Replace the mapped fields of the existing vendor' },
+  { value: 'rename', label: 'Rename', description: 'Add as a new vendor with a numbered name, e.g. "Acme (2)"' },
+];
+
+/** Status text of a previewed row */
+function rowStatus(row: ImportRow): { label: string; detail: string[]; tone: 'error' | 'warning' | 'ok' } {
+  if (row.errors.length > 0) return { label: 'Invalid', detail: row.errors, tone: 'error' };
+  if (row.duplicateRow) {
+    return { label: 'Repeated', detail: [`Same company as row ${row.duplicateRow}.`], tone: 'warning' };
+  }
+  if (row.duplicateOf) {
+    return { label: 'Duplicate', detail: [`"${row.duplicateOf.CompanyName}" already exists.`], tone: 'warning' };
+  }
+  return { label: row.warnings.length > 0 ? 'Ready, with warnings' : 'Ready', detail: row.warnings, tone: 'ok' };
+}
+
+export const VendorImport: React.FC<VendorImportProps> = ({
+  vendors,
+  isLoading,
+  onImport,
+  className = '',
+}) => {
+  const [step, setStep] = useState<ImportStep>('upload');
+  const [fileName, setFileName] = useState<string>('');
+  const [file, setFile] = useState<ImportFile | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [strategy, setStrategy] = useState<DuplicateStrategy>('skip');
+  const [outcome, setOutcome] = useState<{ saved: number; rejected: RejectedImportRow[] } | null>(null);
+  const [formAlert, setFormAlert] = useState<AlertMessage | null>(null);
+
+  /** Every data row, validated against the current mapping */
+  const rows = useMemo(
+    () => (file && step === 'preview' ? previewImport(file, mapping, vendors) : []),
+    [file, step, mapping, vendors]
+  );
+
+  /** What the import will write with the chosen duplicate strategy */
+  const plan = useMemo(() => planImport(rows, mapping, strategy, vendors), [rows, mapping, strategy, vendors]);
+
+  const invalidCount = rows.filter((row) => row.errors.length > 0).length;
+  const duplicateCount = rows.filter(
+    (row) => row.errors.length === 0 && (row.duplicateOf || row.duplicateRow)
+  ).length;
+  const writeCount = plan.adds.length + plan.overwrites.length;
+
+  /** Column options for the mapping selects */
+  const columnOptions = useMemo(
+    () => [
+      { value: NOT_MAPPED, label: '(not imported)' },
+      ...(file?.headers ?? []).map((header, index) => ({
+        value: String(index),
+        label: header || `Column ${index + 1}`,
+      })),
+    ],
+    [file]
+  );
+
+  /** Read the chosen file and guess the mapping from its header */
+  const handleFileChange = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const chosen = event.target.files?.[0];
+    event.target.value = '';
+    if (!chosen) return;
+
+    const parsed = parseImportFile(await chosen.text());
+    if (parsed.rows.length === 0) {
+      setFormAlert({
+        type: 'warning',
+        message: `${chosen.name} has no data rows. The first row must name the columns.`,
+      });
+      return;
+    }
+
+    setFileName(chosen.name);
+    setFile(parsed);
+    setMapping(guessColumnMapping(parsed.headers));
+    setFormAlert(null);
+    setStep('map');
+  }, []);
+
+  /** Map a field to a source column, or stop importing it */
+  const handleMappingChange = useCallback((field: ImportField, value: string) => {
+    setMapping((current) => {
+      const next = { ...current };
+      if (value === NOT_MAPPED) delete next[field];
+      else next[field] = Number(value);
+      return next;
+    });
+  }, []);
+
+  /** Continue to the preview once the company name is mapped */
+  const handlePreview = useCallback(() => {
+    if (mapping.CompanyName === undefined) {
+      setFormAlert({
+        type: 'warning',
+        message: 'Please choose the column holding the company name; it identifies duplicates.',
+      });
+      return;
+    }
+    setFormAlert(null);
+    setStep('preview');
+  }, [mapping]);
+
+  /** Write the planned rows and collect the ones the data source rejected */
+  const handleImport = useCallback(async () => {
+    const result = await onImport(
+      plan.adds.map((add) => add.vendor),
+      plan.overwrites.map((overwrite) => overwrite.update)
+    );
+    if (result.error) return;
+
+    const failed: RejectedImportRow[] = [
+      ...result.added.flatMap((response, index) =>
+        response.success
+          ? []
+          : [{ row: plan.adds[index].row, reason: response.error?.message ?? 'Failed to add vendor' }]
+      ),
+      ...result.updated.flatMap((response, index) =>
+        response.success
+          ? []
+          : [{ row: plan.overwrites[index].row, reason: response.error?.message ?? 'Failed to update vendor' }]
+      ),
+    ];
+    const rejected = [...plan.rejected, ...failed].sort((a, b) => a.row.row - b.row.row);
+    setOutcome({ saved: writeCount - failed.length, rejected });
+    setStep('done');
+  }, [onImport, plan, writeCount]);
+
+  /** Download the rejected rows with their reasons */
+  const handleDownloadReport = useCallback(() => {
+    if (!file || !outcome) return;
+    const baseName = fileName.replace(/\.[^.]*$/, '') || 'vendors';
+    downloadFile(
+      importErrorReport(file.headers, outcome.rejected),
+      `${baseName}-errors.csv`,
+      'text/csv;charset=utf-8'
+    );
+  }, [file, fileName, outcome]);
+
+  /** Start over with another file */
+  const handleReset = useCallback(() => {
+    setStep('upload');
+    setFileName('');
+    setFile(null);
+    setMapping({});
+    setOutcome(null);
+    setFormAlert(null);
+  }, []);
+
+  return (
+    <div className={`vendor-import-container ${className}`} role="tabpanel" id="panel-import">
+      <div className="section-header">
+        <h2 className="section-title">Import Vendors</h2>
+        <p className="section-description">
+          Onboard a batch of vendors from a CSV file, such as a supplier spreadsheet.
+        </p>
+      </div>
+
+      {formAlert && (
+        <Alert
+          type={formAlert.type}
+          message={formAlert.message}
+          onDismiss={() => setFormAlert(null)}
+        />
+      )}
+
+      {/* Step 1: File */}
+      {step === 'upload' && (
+        <div className="form-field">
+          <label htmlFor="import-file" className="form-label">
+            CSV File
+          </label>
+          <input
+            id="import-file"
+            type="file"
+            accept=".csv,text/csv"
+            className="form-input import-file-input"
+            onChange={handleFileChange}
+            disabled={isLoading}
+          />
+          <p className="form-hint">
+            The first row must name the columns. Commas, semicolons and tabs are recognised as separators.
+          </p>
+        </div>
+      )}
+
+      {/* Step 2: Column Mapping */}
+      {step === 'map' && file && (
+        <>
+          <p className="import-file-summary">
+            <strong>{fileName}</strong> — {file.rows.length} row{file.rows.length !== 1 ? 's' : ''},{' '}
+            {file.headers.length} column{file.headers.length !== 1 ? 's' : ''}
+          </p>
+          <div className="form-grid">
+            {IMPORT_FIELDS.map(({ field, label }) => (
+              <Select
+                key={field}
+                id={`import-map-${field}`}
+                label={label}
+                value={mapping[field] !== undefined ? String(mapping[field]) : NOT_MAPPED}
+                onChange={(value) => handleMappingChange(field, value)}
+                options={columnOptions}
+                required={REQUIRED_FIELDS.includes(field)}
+              />
+            ))}
+          </div>
+          <div className="form-actions">
+            <Button variant="secondary" onClick={handleReset}>
+              Choose Another File
+            </Button>
+            <Button onClick={handlePreview}>Preview Rows</Button>
+          </div>
+        </>
+      )}
+
+      {/* Step 3: Preview */}
+      {step === 'preview' && (
+        <>
+          <p className="import-file-summary" role="status">
+            {rows.length} row{rows.length !== 1 ? 's' : ''}: {rows.length - invalidCount - duplicateCount} new,{' '}
+            {duplicateCount} duplicate{duplicateCount !== 1 ? 's' : ''}, {invalidCount} invalid
+          </p>
+
+          {duplicateCount > 0 && (
+            <fieldset className="import-strategy">
+              <legend className="form-label">Duplicates</legend>
+              {DUPLICATE_STRATEGIES.map((option) => (
+                <label key={option.value} className="import-strategy-option">
+                  <input
+                    type="radio"
+                    name="import-strategy"
+                    value={option.value}
+                    checked={strategy === option.value}
+                    onChange={() => setStrategy(option.value)}
+                    disabled={isLoading}
+                  />
+                  <span className="import-strategy-label">{option.label}</span>
+                  <span className="import-strategy-description">{option.description}</span>
+                </label>
+              ))}
+            </fieldset>
+          )}
+
+          <div className="table-wrapper">
+            <table className="vendor-table" aria-label="Import preview">
+              <thead>
+                <tr>
+                  <th scope="col" className="table-header import-header">Row</th>
+                  <th scope="col" className="table-header import-header">Company</th>
+                  <th scope="col" className="table-header import-header">Business Type</th>
+                  <th scope="col" className="table-header import-header">Products</th>
+                  <th scope="col" className="table-header import-header">Years</th>
+                  <th scope="col" className="table-header import-header">Onboarding Date</th>
+                  <th scope="col" className="table-header import-header">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => {
+                  const status = rowStatus(row);
+                  return (
+                    <tr
+                      key={row.row}
+                      className={`table-row ${status.tone === 'error' ? 'table-row--invalid' : ''}`}
+                    >
+                      <td className="table-cell table-cell--center">{row.row}</td>
+                      <td className="table-cell table-cell--name">{row.vendor.CompanyName || '—'}</td>
+                      <td className="table-cell">{row.vendor.BusinessType || '—'}</td>
+                      <td className="table-cell">{row.vendor.Products || '—'}</td>
+                      <td className="table-cell table-cell--center">{row.vendor.YearsInBusiness}</td>
+                      <td className="table-cell">{row.vendor.OnboardingDate || '—'}</td>
+                      <td className="table-cell">
+                        <span className={`import-status import-status--${status.tone}`}>{status.label}</span>
+                        {status.detail.length > 0 && (
+                          <ul className="import-status-detail">
+                            {status.detail.map((message) => (
+                              <li key={message}>{message}</li>
+                            ))}
+                          </ul>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="form-actions">
+            <Button variant="secondary" onClick={() => setStep('map')} disabled={isLoading}>
+              Back to Mapping
+            </Button>
+            <Button onClick={handleImport} isLoading={isLoading} disabled={writeCount === 0}>
+              Import {writeCount} Vendor{writeCount !== 1 ? 's' : ''}
+            </Button>
+          </div>
+        </>
+      )}
+
+      {/* Step 4: Result */}
+      {step === 'done' && outcome && (
+        <div className="empty-state">
+          <div className="empty-state-icon" aria-hidden="true">{outcome.rejected.length > 0 ? '⚠️' : '✅'}</div>
+          <h3 className="empty-state-title">
+            Imported {outcome.saved} vendor{outcome.saved !== 1 ? 's' : ''}
+          </h3>
+          <p className="empty-state-message">
+            {outcome.rejected.length > 0
+              ? `${outcome.rejected.length} row${outcome.rejected.length !== 1 ? 's were' : ' was'} not imported. ` +
+                'The error report lists them with the reason; fix them there and import the report again.'
+              : 'Every row was imported.'}
+          </p>
+          <div className="confirm-actions">
+            {outcome.rejected.length > 0 && (
+              <Button onClick={handleDownloadReport}>Download Error Report</Button>
+            )}
+            <Button variant="secondary" onClick={handleReset}>
+              Import Another File
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+VendorImport.displayName = 'VendorImport';
@@ -9,22 +9,31 @@
  * - Sortable columns
  * - Empty state message
  * - Row count display
+ * - Rows with data issues flagged, with the offending cells highlighted
+ * - Export of the filtered, sorted rows to CSV, JSON or Excel (see `utils/vendorExport`)
  *
  * @example
  * ```tsx
- * <VendorTable vendors={vendors} isLoading={isLoading} />
+ * <VendorTable vendors={vendors} isLoading={isLoading} issues={dataIssues} source="EMEA" />
  * ```
  */
 
 import React, { useState, useMemo } from 'react';
-import type { Vendor } from '../../types/vendor';
+import type { Vendor, VendorIssue } from '../../types/vendor';
 import { SHEET_COLUMNS } from '../../constants/vendor';
+import { issuesByVendor } from '../../utils/vendorSchema';
+import { EXPORT_FORMATS, exportVendors, type ExportFormat } from '../../utils/vendorExport';
+import { downloadFile } from '../../utils/download';
 
 export interface VendorTableProps {
   /** Array of vendor records to display */
   vendors: Vendor[];
   /** Whether data is currently loading */
   isLoading: boolean;
+  /** Data issues from the last load, used to flag rows */
+  issues?: VendorIssue[];
+  /** Where the vendors come from, recorded in exports (e.g. the workspace) */
+  source?: string;
   /** Additional CSS class names */
   className?: string;
 }
@@ -45,11 +54,17 @@ const TABLE_COLUMNS: { key: SortField; label: string; width?: string }[] = [
 export const VendorTable: React.FC<VendorTableProps> = ({
   vendors,
   isLoading,
+  issues = [],
+  source = 'Vendor Management Portal',
   className = '',
 }) => {
   const [searchQuery, setSearchQuery] = useState<string>('');
   const [sortField, setSortField] = useState<SortField>('CompanyName');
   const [sortDirection, setSortDirection] = useState<SortDirection>('asc');
+  const [isExportMenuOpen, setIsExportMenuOpen] = useState<boolean>(false);
+
+  /** Issues keyed by vendor ID */
+  const vendorIssues = useMemo(() => issuesByVendor(issues), [issues]);
 
   /** Filter vendors based on search query */
   const filteredVendors = useMemo(() => {
@@ -57,8 +72,8 @@ export const VendorTable: React.FC<VendorTableProps> = ({
 
     const query = searchQuery.toLowerCase().trim();
     return vendors.filter((vendor) =>
-      Object.values(vendor).some((value) =>
-        String(value).toLowerCase().includes(query)
+      TABLE_COLUMNS.some(({ key }) =>
+        String(vendor[key]).toLowerCase().includes(query)
       )
     );
   }, [vendors, searchQuery]);
@@ -91,6 +106,19 @@ export const VendorTable: React.FC<VendorTableProps> = ({
     }
   };
 
+  /** Download the rows and columns on screen in the chosen format */
+  const handleExport = (format: ExportFormat) => {
+    setIsExportMenuOpen(false);
+    const sortLabel = TABLE_COLUMNS.find((column) => column.key === sortField)?.label ?? sortField;
+    const file = exportVendors(format, sortedVendors, TABLE_COLUMNS, {
+      exportedAt: new Date(),
+      source,
+      filter: searchQuery.trim(),
+      sort: `${sortLabel} (${sortDirection === 'asc' ? 'ascending' : 'descending'})`,
+    });
+    downloadFile(file.content, file.fileName, file.mimeType);
+  };
+
   /** Get sort indicator for column headers */
   const getSortIndicator = (field: SortField): string => {
     if (sortField !== field) return '↕';
@@ -132,6 +160,42 @@ export const VendorTable: React.FC<VendorTableProps> = ({
         <span className="table-count">
           {filteredVendors.length} of {vendors.length} vendor{vendors.length !== 1 ? 's' : ''}
         </span>
+        <div
+          className="export-menu"
+          onBlur={(e) => {
+            if (!e.currentTarget.contains(e.relatedTarget)) setIsExportMenuOpen(false);
+          }}
+          onKeyDown={(e) => {
+            if (e.key === 'Escape') setIsExportMenuOpen(false);
+          }}
+        >
+          <button
+            type="button"
+            className="btn btn--secondary export-menu-toggle"
+            onClick={() => setIsExportMenuOpen((open) => !open)}
+            disabled={sortedVendors.length === 0}
+            aria-haspopup="menu"
+            aria-expanded={isExportMenuOpen}
+          >
+            Export ▾
+          </button>
+          {isExportMenuOpen && (
+            <ul className="export-menu-list" role="menu" aria-label="Export format">
+              {EXPORT_FORMATS.map((format) => (
+                <li key={format.value} role="none">
+                  <button
+                    type="button"
+                    role="menuitem"
+                    className="export-menu-item"
+                    onClick={() => handleExport(format.value)}
+                  >
+                    {format.label}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
       </div>
 
       {/* Table */}
@@ -185,32 +249,59 @@ export const VendorTable: React.FC<VendorTableProps> = ({
               </tr>
             </thead>
             <tbody>
-              {sortedVendors.map((vendor, index) => (
-                <tr key={`${vendor.CompanyName}-${index}`} className="table-row">
-                  <td className="table-cell table-cell--name">{vendor.CompanyName}</td>
-                  <td className="table-cell">
-                    <span className="badge">{vendor.BusinessType}</span>
-                  </td>
-                  <td className="table-cell">
-                    <div className="product-tags">
-                      {vendor.Products.split(', ')
-                        .filter(Boolean)
-                        .map((product) => (
-                          <span key={product} className="product-tag">
-                            {product}
-                          </span>
-                        ))}
-                    </div>
-                  </td>
-                  <td className="table-cell table-cell--center">
-                    {vendor.YearsInBusiness}
-                  </td>
-                  <td className="table-cell">{vendor.OnboardingDate}</td>
-                  <td className="table-cell table-cell--notes">
-                    {vendor.AdditionalInfo || '—'}
-                  </td>
-                </tr>
-              ))}
+              {sortedVendors.map((vendor) => {
+                const rowIssues = vendorIssues.get(vendor.VendorId) ?? [];
+                /** Cell class, highlighted when the field has an issue */
+                const cellClass = (field: keyof Vendor, modifier = '') =>
+                  [
+                    'table-cell',
+                    modifier,
+                    rowIssues.some((issue) => issue.field === field) ? 'table-cell--invalid' : '',
+                  ]
+                    .filter(Boolean)
+                    .join(' ');
+
+                return (
+                  <tr
+                    key={vendor.VendorId}
+                    className={`table-row ${rowIssues.length > 0 ? 'table-row--invalid' : ''}`}
+                  >
+                    <td className={cellClass(SHEET_COLUMNS.COMPANY_NAME, 'table-cell--name')}>
+                      {rowIssues.length > 0 && (
+                        <span
+                          className="table-issue-marker"
+                          title={rowIssues.map((issue) => issue.message).join('\n')}
+                          aria-label={`${rowIssues.length} data issue${rowIssues.length !== 1 ? 's' : ''}`}
+                        >
+                          ⚠
+                        </span>
+                      )}
+                      {vendor.CompanyName}
+                    </td>
+                    <td className={cellClass(SHEET_COLUMNS.BUSINESS_TYPE)}>
+                      <span className="badge">{vendor.BusinessType}</span>
+                    </td>
+                    <td className={cellClass(SHEET_COLUMNS.PRODUCTS)}>
+                      <div className="product-tags">
+                        {vendor.Products.split(', ')
+                          .filter(Boolean)
+                          .map((product) => (
+                            <span key={product} className="product-tag">
+                              {product}
+                            </span>
+                          ))}
+                      </div>
+                    </td>
+                    <td className={cellClass(SHEET_COLUMNS.YEARS_IN_BUSINESS, 'table-cell--center')}>
+                      {vendor.YearsInBusiness}
+                    </td>
+                    <td className={cellClass(SHEET_COLUMNS.ONBOARDING_DATE)}>{vendor.OnboardingDate}</td>
+                    <td className={cellClass(SHEET_COLUMNS.ADDITIONAL_INFO, 'table-cell--notes')}>
+                      {vendor.AdditionalInfo || '—'}
+                    </td>
+                  </tr>
+                );
+              })}
             </tbody>
           </table>
         </div>
@@ -4,6 +4,12 @@
  * Allows selection of an existing vendor, pre-fills the form with current data,
  * and submits the updated information.
  *
+ * Updates are conditional on the revision the form was loaded from; if someone
+ * else changed the vendor in the meantime, a {@link ConflictResolver} is shown.
+ * Edits made directly in the spreadsheet do not change the revision, so the
+ * form also watches `vendors`: when the vendor being edited changes there, a
+ * warning is shown and saving opens the resolver first.
+ *
  * @example
  * ```tsx
  * <VendorUpdate
@@ -14,8 +20,16 @@
  * ```
  */
 
-import React, { useState, useCallback, useEffect, useMemo } from 'react';
-import type { Vendor, VendorFormData, BusinessType, Product, AlertMessage } from '../../types/vendor';
+import React, { useState, useCallback, useMemo } from 'react';
+import type {
+  Vendor,
+  NewVendor,
+  VendorFormData,
+  BusinessType,
+  Product,
+  AlertMessage,
+  VendorMutationResult,
+} from '../../types/vendor';
 import {
   BUSINESS_TYPES,
   PRODUCTS,
@@ -25,16 +39,25 @@ import {
   validateMandatoryFields,
   formDataToVendor,
   vendorToFormData,
+  toFormFieldErrors,
 } from '../../utils/validation';
+import { vendorSelectOptions } from '../../utils/vendorId';
+import { sameVendor } from '../../utils/vendorDiff';
+import { fnv1a } from '../../utils/hash';
 import { TextInput, Select, MultiSelect, Slider, DatePicker, TextArea, Button, Alert } from '../ui';
+import { ConflictResolver } from '../ConflictResolver/ConflictResolver';
 
 export interface VendorUpdateProps {
   /** Existing vendors to select from */
   vendors: Vendor[];
   /** Whether an update is in progress */
   isLoading: boolean;
-  /** Callback when vendor update is submitted */
-  onUpdate: (originalName: string, vendor: Vendor) => Promise<boolean>;
+  /** Callback when vendor update is submitted, receiving the vendor ID and base revision */
+  onUpdate: (
+    vendorId: string,
+    vendor: NewVendor,
+    expectedRevision?: number
+  ) => Promise<VendorMutationResult>;
   /** Additional CSS class names */
   className?: string;
 }
@@ -49,26 +72,88 @@ export const VendorUpdate: React.FC<VendorUpdateProps> = ({
   const [formData, setFormData] = useState<VendorFormData | null>(null);
   const [formAlert, setFormAlert] = useState<AlertMessage | null>(null);
   const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  /** The vendor as it was when the form was loaded */
+  const [baseVendor, setBaseVendor] = useState<Vendor | null>(null);
+  /** Pending edits rejected because of a concurrent change */
+  const [conflict, setConflict] = useState<{ mine: NewVendor; theirs: Vendor } | null>(null);
+
+  /** Revision of the vendor the form was loaded from */
+  const baseRevision = baseVendor?.Revision;
+
+  /** Vendor options for the selector, keyed by vendor ID */
+  const vendorOptions = useMemo(() => vendorSelectOptions(vendors), [vendors]);
 
-  /** List of vendor names for the selector */
-  const vendorNames = useMemo(
-    () => vendors.map((v) => v.CompanyName),
+  /**
+   * The current version of the vendor being edited, when it changed since the
+   * form was loaded; `null` when it was removed, `undefined` when unchanged.
+   */
+  const remoteVersion = useMemo(() => {
+    if (!baseVendor) return undefined;
+    const current = vendors.find((v) => v.VendorId === baseVendor.VendorId);
+    if (!current) return null;
+    return sameVendor(current, baseVendor) ? undefined : current;
+  }, [vendors, baseVendor]);
+
+  /** Select a vendor and load its data into the form */
+  const handleSelectVendor = useCallback(
+    (vendorId: string) => {
+      setSelectedVendor(vendorId);
+      const vendor = vendors.find((v) => v.VendorId === vendorId);
+      setFormData(vendor ? vendorToFormData(vendor) : null);
+      setBaseVendor(vendor ?? null);
+      setConflict(null);
+      setFieldErrors({});
+      setFormAlert(null);
+    },
     [vendors]
   );
 
-  /** Load selected vendor data into the form */
-  useEffect(() => {
-    if (selectedVendor) {
-      const vendor = vendors.find((v) => v.CompanyName === selectedVendor);
-      if (vendor) {
-        setFormData(vendorToFormData(vendor));
-        setFieldErrors({});
-        setFormAlert(null);
+  /** Clear the selection and close the form */
+  const resetSelection = useCallback(() => {
+    setSelectedVendor('');
+    setFormData(null);
+    setBaseVendor(null);
+    setConflict(null);
+  }, []);
+
+  /**
+   * Submit an update conditional on `expectedRevision`, opening the conflict
+   * view if the vendor changed in the meantime.
+   */
+  const submitUpdate = useCallback(
+    async (vendor: NewVendor, expectedRevision: number | undefined) => {
+      const result = await onUpdate(selectedVendor, vendor, expectedRevision);
+
+      if (result.success) {
+        resetSelection();
+      } else if (result.error?.code === 'validation' || result.error?.code === 'duplicate') {
+        setConflict(null);
+        setFieldErrors(toFormFieldErrors(result.error.fields));
+      } else if (result.error?.code === 'not_found') {
+        // The list has been refreshed without this vendor
+        resetSelection();
+      } else if (result.conflict) {
+        if (result.conflict.current) {
+          setConflict({ mine: vendor, theirs: result.conflict.current });
+        } else {
+          setConflict(null);
+          setFormAlert({
+            type: 'error',
+            message: 'This vendor was deleted by someone else, so your changes could not be saved.',
+          });
+        }
       }
-    } else {
-      setFormData(null);
-    }
-  }, [selectedVendor, vendors]);
+    },
+    [selectedVendor, onUpdate, resetSelection]
+  );
+
+  /** Discard local edits and continue from the current stored version */
+  const handleTakeTheirs = useCallback(() => {
+    if (!conflict) return;
+    setFormData(vendorToFormData(conflict.theirs));
+    setBaseVendor(conflict.theirs);
+    setConflict(null);
+  }, [conflict]);
 
   /** Update a single field in the form data */
   const updateField = useCallback(
@@ -108,15 +193,16 @@ export const VendorUpdate: React.FC<VendorUpdateProps> = ({
         return;
       }
 
-      const vendor = formDataToVendor(formData);
-      const success = await onUpdate(selectedVendor, vendor);
-
-      if (success) {
-        setSelectedVendor('');
-        setFormData(null);
+      // Changed in the spreadsheet since loading: review before overwriting
+      if (remoteVersion) {
+        setBaseVendor(remoteVersion);
+        setConflict({ mine: formDataToVendor(formData), theirs: remoteVersion });
+        return;
       }
+
+      await submitUpdate(formDataToVendor(formData), baseRevision);
     },
-    [formData, selectedVendor, onUpdate]
+    [formData, selectedVendor, baseRevision, remoteVersion, submitUpdate]
   );
 
   return (
@@ -140,13 +226,38 @@ export const VendorUpdate: React.FC<VendorUpdateProps> = ({
       <Select
         label="Select a Vendor to Update"
         value={selectedVendor}
-        onChange={setSelectedVendor}
-        options={vendorNames}
+        onChange={handleSelectVendor}
+        options={vendorOptions}
         placeholder="Choose a vendor..."
         disabled={isLoading}
       />
 
-      {formData && (
+      {formData && !conflict && remoteVersion !== undefined && (
+        <Alert
+          type="warning"
+          message={
+            remoteVersion
+              ? 'This vendor was changed in the spreadsheet after you opened it. Saving will let you review both versions first.'
+              : 'This vendor was removed from the spreadsheet after you opened it. Saving will fail.'
+          }
+          autoDismiss={0}
+        />
+      )}
+
+      {conflict && (
+        <ConflictResolver
+          // Edits typed into the sheet keep the Revision, so key on the content
+          key={`${conflict.theirs.VendorId}:${fnv1a(JSON.stringify(conflict.theirs))}`}
+          mine={conflict.mine}
+          theirs={conflict.theirs}
+          isLoading={isLoading}
+          onKeepMine={() => submitUpdate(conflict.mine, conflict.theirs.Revision)}
+          onTakeTheirs={handleTakeTheirs}
+          onMerge={(merged) => submitUpdate(merged, conflict.theirs.Revision)}
+        />
+      )}
+
+      {formData && !conflict && (
         <form onSubmit={handleSubmit} className="vendor-form" noValidate>
           <div className="form-grid">
             <TextInput
@@ -196,6 +307,7 @@ export const VendorUpdate: React.FC<VendorUpdateProps> = ({
             onChange={(value) => updateField('onboardingDate', value)}
             required
             disabled={isLoading}
+            error={fieldErrors.onboardingDate}
           />
 
           <TextArea
@@ -219,10 +331,7 @@ export const VendorUpdate: React.FC<VendorUpdateProps> = ({
             <Button
               type="button"
               variant="ghost"
-              onClick={() => {
-                setSelectedVendor('');
-                setFormData(null);
-              }}
+              onClick={resetSelection}
               disabled={isLoading}
             >
               Cancel
@@ -0,0 +1,36 @@
+/**
+ * @component WorkspaceRoot
+ * @description Renders the app for the selected workspace. The app is keyed
+ * by workspace ID, so switching remounts it: vendor state, pending loads and
+ * the open tab never carry over from one vendor list to another.
+ *
+ * @example
+ * ```tsx
+ * const workspaces = createWorkspaceStore(configuredWorkspaces());
+ * <WorkspaceRoot store={workspaces} />
+ * ```
+ */
+
+import React, { useSyncExternalStore } from 'react';
+import type { WorkspaceStore } from '../../services/workspaces';
+import App from '../../App';
+
+export interface WorkspaceRootProps {
+  /** Available workspaces and the current selection */
+  store: WorkspaceStore;
+}
+
+export const WorkspaceRoot: React.FC<WorkspaceRootProps> = ({ store }) => {
+  const workspace = useSyncExternalStore(store.subscribe, store.getCurrent);
+
+  return (
+    <App
+      key={workspace.id}
+      workspace={workspace}
+      workspaces={store.getWorkspaces()}
+      onWorkspaceChange={store.select}
+    />
+  );
+};
+
+WorkspaceRoot.displayName = 'WorkspaceRoot';
@@ -0,0 +1,62 @@
+/**
+ * @component WorkspaceSelector
+ * @description Header control for switching between workspaces (vendor lists
+ * kept in different worksheets or spreadsheets).
+ *
+ * Renders nothing when only one workspace is configured.
+ *
+ * @example
+ * ```tsx
+ * <WorkspaceSelector
+ *   workspaces={workspaces}
+ *   currentId={workspace.id}
+ *   onChange={selectWorkspace}
+ * />
+ * ```
+ */
+
+import React from 'react';
+import type { Workspace } from '../../types/vendor';
+
+export interface WorkspaceSelectorProps {
+  /** Available workspaces */
+  workspaces: Workspace[];
+  /** ID of the selected workspace */
+  currentId: string;
+  /** Called with the ID of the workspace to switch to */
+  onChange: (workspaceId: string) => void;
+  /** Whether switching is disabled */
+  disabled?: boolean;
+  /** Additional CSS class names */
+  className?: string;
+}
+
+export const WorkspaceSelector: React.FC<WorkspaceSelectorProps> = ({
+  workspaces,
+  currentId,
+  onChange,
+  disabled = false,
+  className = '',
+}) => {
+  if (workspaces.length < 2) return null;
+
+  return (
+    <label className={`workspace-selector ${className}`}>
+      <span className="workspace-selector-label">Workspace</span>
+      <select
+        className="workspace-selector-select"
+        value={currentId}
+        onChange={(e) => onChange(e.target.value)}
+        disabled={disabled}
+      >
+        {workspaces.map((workspace) => (
+          <option key={workspace.id} value={workspace.id}>
+            {workspace.name}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+};
+
+WorkspaceSelector.displayName = 'WorkspaceSelector';
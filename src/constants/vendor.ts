@@ -4,7 +4,8 @@
  * Centralized configuration values used across components.
  */
 
-import type { BusinessType, Product, VendorAction } from '../types/vendor';
+import type { BusinessType, Product, VendorAction, VendorFormData } from '../types/vendor';
+import { todayIsoDate } from '../utils/dates';
 
 /**
  * Available business type options for vendor classification.
@@ -39,6 +40,7 @@ export const VENDOR_ACTIONS: readonly { value: VendorAction; label: string }[] =
   { value: 'update', label: 'Update Existing Vendor' },
   { value: 'view', label: 'View All Vendors' },
   { value: 'delete', label: 'Delete Vendor' },
+  { value: 'import', label: 'Import Vendors' },
 ] as const;
 
 /**
@@ -53,25 +55,38 @@ export const YEARS_IN_BUSINESS = {
 
 /**
  * Default form values for a new vendor entry.
+ * The onboarding date is left empty; use {@link getDefaultFormValues} to
+ * default it to today.
  */
 export const DEFAULT_FORM_VALUES = {
   companyName: '',
   businessType: '' as const,
   products: [] as Product[],
   yearsInBusiness: YEARS_IN_BUSINESS.DEFAULT,
-  onboardingDate: new Date().toISOString().split('T')[0],
+  onboardingDate: '',
   additionalInfo: '',
 };
 
+/**
+ * Default form values with the onboarding date set to today in the user's
+ * time zone. Computed per call, so a form opened after midnight (or left open
+ * overnight and reset) gets the current date.
+ */
+export function getDefaultFormValues(): VendorFormData {
+  return { ...DEFAULT_FORM_VALUES, onboardingDate: todayIsoDate() };
+}
+
 /**
  * Column headers mapping between form fields and Google Sheets columns.
  */
 export const SHEET_COLUMNS = {
+  VENDOR_ID: 'VendorId',
   COMPANY_NAME: 'CompanyName',
   BUSINESS_TYPE: 'BusinessType',
   PRODUCTS: 'Products',
   YEARS_IN_BUSINESS: 'YearsInBusiness',
   ONBOARDING_DATE: 'OnboardingDate',
   ADDITIONAL_INFO: 'AdditionalInfo',
+  REVISION: 'Revision',
 } as const;
 
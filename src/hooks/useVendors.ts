@@ -6,6 +6,36 @@
  * Automatically fetches vendor data on mount and provides methods to
  * create, update, and delete vendors.
  *
+ * Mutations made while offline are stored in a persistent outbox (see
+ * `services/mutationOutbox`), applied optimistically to `vendors`, and
+ * replayed in order when the browser comes back online.
+ *
+ * When the data source reports itself unavailable (its circuit breaker is
+ * open), failed loads keep the current data instead of showing an error,
+ * mutations are queued in the outbox, and loading is retried automatically.
+ *
+ * Failures are reported as typed {@link ServiceError}s: a vendor that no longer
+ * exists triggers a refresh, rejected credentials set `needsSignIn`, and
+ * validation errors are returned to the calling form to highlight fields.
+ *
+ * Paged data sources report each page as it arrives: the first load shows
+ * vendors page by page, and `loadedCount` tracks progress of any load.
+ *
+ * The last-known list is cached (see `services/vendorCache`) and rendered
+ * immediately on mount. It is revalidated in the background whenever it is
+ * older than the cache TTL; `isStale` and `lastSyncedAt` describe its
+ * freshness. Successful mutations update the cache instead of reloading.
+ *
+ * While the tab is visible the list is also polled, to pick up edits made
+ * directly in the spreadsheet; what changed since the list on screen is
+ * reported as `remoteChanges` until dismissed.
+ *
+ * Data sources that need setup (see `VendorDataService.initialize`) are
+ * initialized before the first load, e.g. creating a missing worksheet.
+ *
+ * Each workspace (see `services/workspaces`) has its own cache and outbox.
+ * Switching workspaces is done by remounting with another `workspace`.
+ *
  * @example
  * ```tsx
  * function VendorPage() {
@@ -27,35 +57,163 @@
  * ```
  */
 
-import { useState, useEffect, useCallback, useMemo } from 'react';
-import type { Vendor, AlertMessage } from '../types/vendor';
+import { useState, useEffect, useCallback, useMemo, useRef, useSyncExternalStore } from 'react';
+import type {
+  Vendor,
+  NewVendor,
+  AlertMessage,
+  VendorMutationResult,
+  VendorImportResult,
+  VendorUpdateInput,
+  ConnectionState,
+  ConnectionStatus,
+  ServiceError,
+  VendorIssue,
+  Workspace,
+  SheetsApiResponse,
+} from '../types/vendor';
 import { createVendorService, type VendorDataService } from '../services/googleSheetsService';
+import {
+  createMutationOutbox,
+  DEFAULT_OUTBOX_KEY,
+  applyOutbox,
+  replayMutation,
+  type MutationOutbox,
+  type OutboxEntry,
+  type OutboxMutation,
+} from '../services/mutationOutbox';
+import {
+  createVendorCache,
+  DEFAULT_CACHE_KEY,
+  type CachedVendors,
+  type VendorCache,
+} from '../services/vendorCache';
+import { DEFAULT_WORKSPACE_ID, workspaceStorageKey } from '../services/workspaces';
+import { diffVendors, isEmptyDiff, mergeVendorDiffs, type VendorDiff } from '../utils/vendorDiff';
+import { generateVendorId } from '../utils/vendorId';
+import { needsReauthentication, serviceError } from '../services/serviceErrors';
 
 interface UseVendorsReturn {
   /** Array of vendor records */
   vendors: Vendor[];
-  /** Whether an operation is in progress */
+  /** Whether a mutation is in progress */
   isLoading: boolean;
-  /** Whether the initial fetch is happening */
+  /** Whether the initial fetch is happening (until its first page arrives); false when cached data exists */
   isInitialLoading: boolean;
-  /** Current error message, if any */
-  error: string | null;
+  /** Whether vendors are being reloaded from the source */
+  isRevalidating: boolean;
+  /** Whether the shown vendors are older than the cache TTL */
+  isStale: boolean;
+  /** When the shown vendors were last read from the source, or null if never */
+  lastSyncedAt: Date | null;
+  /** Rows loaded so far while a paged load is in progress, otherwise null */
+  loadedCount: number | null;
+  /** Error from the last load, if any */
+  error: ServiceError | null;
+  /** Problems found in the stored vendor data during the last load */
+  dataIssues: VendorIssue[];
   /** Current alert/notification message */
   alert: AlertMessage | null;
   /** Add a new vendor */
-  addVendor: (vendor: Vendor) => Promise<boolean>;
-  /** Update an existing vendor */
-  updateVendor: (originalName: string, vendor: Vendor) => Promise<boolean>;
-  /** Delete a vendor by company name */
-  deleteVendor: (companyName: string) => Promise<boolean>;
+  addVendor: (vendor: NewVendor) => Promise<VendorMutationResult>;
+  /** Update an existing vendor by ID, conditional on its revision when given */
+  updateVendor: (
+    vendorId: string,
+    vendor: NewVendor,
+    expectedRevision?: number
+  ) => Promise<VendorMutationResult>;
+  /** Delete a vendor by ID, conditional on its revision when given */
+  deleteVendor: (vendorId: string, expectedRevision?: number) => Promise<boolean>;
+  /** Add and overwrite vendors in batches; needs a connection to the data source */
+  importVendors: (adds: NewVendor[], updates: VendorUpdateInput[]) => Promise<VendorImportResult>;
   /** Refresh vendor data from the source */
   refresh: () => Promise<void>;
   /** Clear the current alert message */
   clearAlert: () => void;
   /** Set a custom alert message */
   setAlert: (alert: AlertMessage | null) => void;
+  /** Whether the browser currently reports a network connection */
+  isOnline: boolean;
+  /** Mutations queued while offline, in replay order */
+  outbox: OutboxEntry[];
+  /** Re-queue a failed or conflicted mutation (conflicts are retried unconditionally) */
+  retryMutation: (entryId: string) => void;
+  /** Drop a queued mutation without sending it */
+  discardMutation: (entryId: string) => void;
+  /** Health of the connection to the data source */
+  connectionStatus: ConnectionStatus;
+  /** Whether the data source rejected the current credentials and supports signing in again */
+  needsSignIn: boolean;
+  /** Sign in again and reload */
+  reauthenticate: () => Promise<void>;
+  /** Vendors added, changed or removed in the data source by others, found by background reloads */
+  remoteChanges: VendorDiff | null;
+  /** Acknowledge the reported remote changes */
+  dismissRemoteChanges: () => void;
+}
+
+/** Options for {@link useVendors} */
+export interface UseVendorsOptions {
+  /** Workspace whose vendor list to manage (default: the one set by `VITE_GOOGLE_SHEETS_*`) */
+  workspace?: Workspace;
+  /** Cache for the vendor list (default: the workspace's localStorage cache) */
+  cache?: VendorCache;
+  /**
+   * How often to check the data source for changes while the tab is visible,
+   * in milliseconds; 0 disables polling (default: `VITE_VENDOR_POLL_INTERVAL_SECONDS`
+   * or one minute)
+   */
+  pollIntervalMs?: number;
+}
+
+/** Subscribes to browser online/offline events */
+function subscribeToConnectivity(callback: () => void): () => void {
+  window.addEventListener('online', callback);
+  window.addEventListener('offline', callback);
+  return () => {
+    window.removeEventListener('online', callback);
+    window.removeEventListener('offline', callback);
+  };
+}
+
+/** Outbox and vendor cache of each workspace, created on first use */
+const workspaceStores = new Map<string, { outbox: MutationOutbox; cache: VendorCache }>();
+
+/**
+ * Returns the outbox and cache of a workspace, persisted under
+ * workspace-scoped localStorage keys. Without a workspace, those of the
+ * default workspace.
+ */
+function storesFor(workspace?: Workspace): { outbox: MutationOutbox; cache: VendorCache } {
+  const scope = workspace ?? { id: DEFAULT_WORKSPACE_ID, name: '', worksheetName: '' };
+  let stores = workspaceStores.get(scope.id);
+  if (!stores) {
+    stores = {
+      outbox: createMutationOutbox(workspaceStorageKey(DEFAULT_OUTBOX_KEY, scope)),
+      cache: createVendorCache({ storageKey: workspaceStorageKey(DEFAULT_CACHE_KEY, scope) }),
+    };
+    workspaceStores.set(scope.id, stores);
+  }
+  return stores;
+}
+
+/** Initialization of each service, started by the first hook that loads from it */
+const initializations = new WeakMap<VendorDataService, Promise<ServiceError | null>>();
+
+const DEFAULT_POLL_INTERVAL_MS = 60_000;
+
+/** Poll interval configured through the environment, if any */
+function configuredPollInterval(): number | undefined {
+  const raw = import.meta.env.VITE_VENDOR_POLL_INTERVAL_SECONDS;
+  const seconds = Number(raw);
+  return raw && Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : undefined;
 }
 
+/** Connection state for data sources that do not report one */
+const ALWAYS_ONLINE: ConnectionState = { status: 'online' };
+const getAlwaysOnline = () => ALWAYS_ONLINE;
+const subscribeToNothing = () => () => {};
+
 /**
  * Custom hook for managing vendor data with full CRUD operations.
  *
@@ -65,21 +223,77 @@ interface UseVendorsReturn {
  * - Error handling with descriptive messages
  * - Alert system for user feedback
  * - Memoized service instance
+ * - Offline outbox with optimistic updates and replay on reconnect
+ * - Progressive first load for paged data sources
+ * - Stale-while-revalidate cache of the vendor list
+ * - Background polling that reports changes made in the data source
  *
  * @param customService - Optional custom service implementation (useful for testing)
+ * @param options - Cache and polling settings
  * @returns Object containing vendor data, states, and CRUD methods
  */
-export function useVendors(customService?: VendorDataService): UseVendorsReturn {
-  const [vendors, setVendors] = useState<Vendor[]>([]);
+export function useVendors(
+  customService?: VendorDataService,
+  {
+    workspace,
+    cache: customCache,
+    pollIntervalMs = configuredPollInterval() ?? DEFAULT_POLL_INTERVAL_MS,
+  }: UseVendorsOptions = {}
+): UseVendorsReturn {
+  const { outbox, cache: workspaceCache } = storesFor(workspace);
+  const cache = customCache ?? workspaceCache;
+
+  const [vendors, setVendors] = useState<Vendor[]>(() => cache.read()?.vendors ?? []);
   const [isLoading, setIsLoading] = useState<boolean>(false);
-  const [isInitialLoading, setIsInitialLoading] = useState<boolean>(true);
-  const [error, setError] = useState<string | null>(null);
+  const [isInitialLoading, setIsInitialLoading] = useState<boolean>(() => cache.read() === null);
+  const [isRevalidating, setIsRevalidating] = useState<boolean>(false);
+  const [lastSyncedAt, setLastSyncedAt] = useState<number | null>(() => cache.read()?.syncedAt ?? null);
+  const [isStale, setIsStale] = useState<boolean>(() => {
+    const cached = cache.read();
+    return !cached || cache.isStale(cached);
+  });
+  const [loadedCount, setLoadedCount] = useState<number | null>(null);
+  const [error, setError] = useState<ServiceError | null>(null);
+  const [dataIssues, setDataIssues] = useState<VendorIssue[]>(() => cache.read()?.issues ?? []);
+  const [needsSignIn, setNeedsSignIn] = useState<boolean>(false);
+  const [remoteChanges, setRemoteChanges] = useState<VendorDiff | null>(null);
   const [alert, setAlert] = useState<AlertMessage | null>(null);
 
   /** Memoized service instance to prevent unnecessary re-creation */
   const service = useMemo<VendorDataService>(
-    () => customService || createVendorService(),
-    [customService]
+    () => customService || createVendorService(workspace),
+    [customService, workspace]
+  );
+
+  const outboxEntries = useSyncExternalStore(outbox.subscribe, outbox.getEntries);
+  const isOnline = useSyncExternalStore(subscribeToConnectivity, () => navigator.onLine);
+  const isReplayingRef = useRef(false);
+  /** Whether vendors have been loaded or cached; later loads keep showing the old list until done */
+  const hasLoadedRef = useRef(!isInitialLoading);
+  /** Whether a load is in progress, so polls do not overlap it */
+  const isFetchingRef = useRef(false);
+  /** Count of mutations started; a background load that overlaps one is discarded */
+  const writesRef = useRef(0);
+  const connection = useSyncExternalStore(
+    service.connection?.subscribe ?? subscribeToNothing,
+    service.connection?.getState ?? getAlwaysOnline
+  );
+
+  /** Whether the data source is refusing requests until it recovers */
+  const isUnavailable = useCallback(
+    () => service.connection?.getState().status === 'unavailable',
+    [service]
+  );
+
+  const lastSyncedDate = useMemo(
+    () => (lastSyncedAt === null ? null : new Date(lastSyncedAt)),
+    [lastSyncedAt]
+  );
+
+  /** Vendor list with queued mutations applied optimistically */
+  const visibleVendors = useMemo(
+    () => applyOutbox(vendors, outboxEntries),
+    [vendors, outboxEntries]
   );
 
   /**
@@ -89,120 +303,557 @@ export function useVendors(customService?: VendorDataService): UseVendorsReturn
     setAlert(null);
   }, []);
 
+  /** Whether a failed mutation should be queued rather than reported */
+  const canQueueAfterFailure = useCallback(
+    (failure: ServiceError | undefined) =>
+      !navigator.onLine || isUnavailable() || failure?.code === 'network',
+    [isUnavailable]
+  );
+
+  /** Records whether an error means the user must sign in again */
+  const trackAuthError = useCallback(
+    (failure: ServiceError | null | undefined) => {
+      if (needsReauthentication(failure) && service.reauthenticate) setNeedsSignIn(true);
+    },
+    [service]
+  );
+
+  /**
+   * Prepares the data source (see `VendorDataService.initialize`) once per
+   * service. Resolves with the error if that failed; the next call tries again.
+   */
+  const initialize = useCallback(() => {
+    if (!service.initialize) return Promise.resolve(null);
+    let pending = initializations.get(service);
+    if (!pending) {
+      pending = service.initialize().then((result) => {
+        if (!result.success) {
+          initializations.delete(service);
+          return result.error ?? serviceError('unknown', 'Failed to prepare the data source');
+        }
+        if (result.data?.migrations.length) {
+          console.info(`🛠️ Migrated the vendor worksheet: ${result.data.migrations.join('; ')}`);
+        }
+        return null;
+      });
+      initializations.set(service, pending);
+    }
+    return pending;
+  }, [service]);
+
   /**
-   * Fetches all vendor data from the service.
+   * Fetches all vendor data from the service and caches it.
+   * The data source is initialized first, if it has not been.
+   *
+   * Background loads (polls and revalidation of a stale list) report what
+   * changed compared to the cached list, and are discarded if a mutation
+   * started meanwhile, as they may predate it. Their failures are not shown
+   * as errors; the list just stays stale.
    */
-  const refresh = useCallback(async () => {
-    setIsLoading(true);
-    setError(null);
+  const load = useCallback(async (background: boolean) => {
+    isFetchingRef.current = true;
+    const writes = writesRef.current;
+    setIsRevalidating(true);
+    if (!background) setError(null);
 
-    const result = await service.fetchVendors();
+    const setupError = await initialize();
+    const result: SheetsApiResponse<Vendor[]> = setupError
+      ? { success: false, error: setupError }
+      : await service.fetchVendors({
+          onPage: ({ vendors: loaded, issues, loaded: count }) => {
+            setLoadedCount(count);
+            if (!hasLoadedRef.current) {
+              setVendors(loaded);
+              setDataIssues(issues);
+              setIsInitialLoading(false);
+            }
+          },
+        });
+    setLoadedCount(null);
+
+    if (background && writes !== writesRef.current) {
+      // Superseded by a mutation; the next poll reads again
+    } else if (result.success && result.data) {
+      const previous = hasLoadedRef.current ? cache.read()?.vendors : undefined;
+      hasLoadedRef.current = true;
+      const entry = cache.write(result.data, result.issues ?? []);
+      if (!result.unchanged) {
+        setVendors(entry.vendors);
+        setDataIssues(entry.issues);
+      }
+      setLastSyncedAt(entry.syncedAt);
+      setIsStale(cache.isStale(entry));
 
-    if (result.success && result.data) {
-      setVendors(result.data);
-    } else {
-      setError(result.error || 'Failed to fetch vendor data');
+      if (background && previous && !result.unchanged) {
+        const diff = diffVendors(previous, entry.vendors);
+        if (!isEmptyDiff(diff)) {
+          setRemoteChanges((reported) => (reported ? mergeVendorDiffs(reported, diff) : diff));
+        }
+      }
+    } else if (!isUnavailable()) {
+      if (!background) {
+        setError(
+          result.error ?? { code: 'unknown', message: 'Failed to fetch vendor data', retryable: true }
+        );
+      }
+      trackAuthError(result.error);
     }
 
-    setIsLoading(false);
+    isFetchingRef.current = false;
+    setIsRevalidating(false);
     setIsInitialLoading(false);
-  }, [service]);
+  }, [service, cache, initialize, isUnavailable, trackAuthError]);
+
+  /**
+   * Reloads all vendor data from the service.
+   */
+  const refresh = useCallback(() => load(false), [load]);
+
+  /** Acknowledges the reported remote changes */
+  const dismissRemoteChanges = useCallback(() => {
+    setRemoteChanges(null);
+  }, []);
+
+  /**
+   * Shows the cached list after a mutation was written into it. Reloads
+   * instead when nothing was cached, or the service returned no record.
+   */
+  const showCached = useCallback(
+    async (entry: CachedVendors | null) => {
+      if (entry) {
+        setVendors(entry.vendors);
+        setDataIssues(entry.issues);
+      } else {
+        await refresh();
+      }
+      setIsLoading(false);
+    },
+    [refresh]
+  );
+
+  /**
+   * Sends queued mutations to the service in order. Stops early if the
+   * connection drops again, leaving the remaining entries pending.
+   */
+  const replayOutbox = useCallback(async () => {
+    if (isReplayingRef.current || !navigator.onLine) return;
+    isReplayingRef.current = true;
+
+    let synced = 0;
+    for (const entry of outbox.getEntries().filter((e) => e.status === 'pending')) {
+      const result = await replayMutation(service, entry.mutation);
+
+      // An add rejected as a duplicate ID was already applied by an earlier attempt
+      const alreadyApplied = entry.mutation.type === 'add' && result.error?.code === 'duplicate';
+
+      if (result.success || alreadyApplied) {
+        outbox.removeEntry(entry.id);
+        synced++;
+      } else if (canQueueAfterFailure(result.error)) {
+        break;
+      } else {
+        trackAuthError(result.error);
+        outbox.updateEntry(entry.id, {
+          status: result.conflict ? 'conflicted' : 'failed',
+          error: result.error?.message,
+          attempts: entry.attempts + 1,
+        });
+      }
+    }
+
+    isReplayingRef.current = false;
+
+    if (synced > 0) {
+      setAlert({
+        type: 'success',
+        message: `Synced ${synced} queued change${synced !== 1 ? 's' : ''}.`,
+      });
+      await refresh();
+    }
+  }, [outbox, service, refresh, canQueueAfterFailure, trackAuthError]);
+
+  /**
+   * Whether a mutation must go through the outbox: when offline or the data
+   * source is unavailable, or when earlier mutations are still pending (to
+   * preserve their order).
+   */
+  const shouldQueue = useCallback(
+    () =>
+      !navigator.onLine ||
+      isUnavailable() ||
+      outbox.getEntries().some((e) => e.status === 'pending'),
+    [outbox, isUnavailable]
+  );
+
+  /**
+   * Reports a failed (non-conflict) mutation. Vendors that no longer exist
+   * trigger a refresh; field errors are left to the calling form.
+   */
+  const reportFailure = useCallback(
+    async (failure: ServiceError | undefined, fallbackMessage: string) => {
+      setIsLoading(false);
+      trackAuthError(failure);
+
+      if (failure?.code === 'not_found') {
+        setAlert({
+          type: 'warning',
+          message: `${failure.message}. It may have been deleted elsewhere; the list has been refreshed.`,
+        });
+        await refresh();
+        return;
+      }
+
+      if (failure?.code === 'validation' || failure?.code === 'duplicate') {
+        setAlert({ type: 'warning', message: `Please correct the highlighted fields. ${failure.message}` });
+      } else {
+        setAlert({ type: 'error', message: failure?.message || fallbackMessage });
+      }
+    },
+    [refresh, trackAuthError]
+  );
+
+  /**
+   * Queues a mutation for later replay and tells the user about it.
+   */
+  const queueMutation = useCallback(
+    (mutation: OutboxMutation): VendorMutationResult => {
+      const queued = outbox.enqueue(mutation);
+      setIsLoading(false);
+      if (!queued.success) {
+        setAlert({ type: 'error', message: queued.error?.message || 'Failed to queue the change' });
+        return { success: false, error: queued.error };
+      }
+      setAlert({
+        type: 'info',
+        message: !navigator.onLine
+          ? "You're offline. The change was saved locally and will sync when you reconnect."
+          : isUnavailable()
+            ? 'Sheets is temporarily unavailable. The change was saved locally and will sync automatically.'
+            : 'Change queued behind earlier offline changes; syncing now.',
+      });
+      replayOutbox();
+      return { success: true };
+    },
+    [outbox, replayOutbox, isUnavailable]
+  );
 
   /**
-   * Adds a new vendor and refreshes the list.
+   * Adds a new vendor and caches it.
    */
   const addVendor = useCallback(
-    async (vendor: Vendor): Promise<boolean> => {
+    async (vendor: NewVendor): Promise<VendorMutationResult> => {
       setIsLoading(true);
+      writesRef.current++;
       setAlert(null);
 
-      const result = await service.addVendor(vendor);
+      // Assign the ID up front so a queued add can be referenced by later mutations
+      const record: Vendor = { ...vendor, VendorId: vendor.VendorId || generateVendorId(), Revision: 1 };
+
+      if (shouldQueue()) {
+        return queueMutation({ type: 'add', vendor: record });
+      }
+
+      const result = await service.addVendor(record);
+
+      if (!result.success && canQueueAfterFailure(result.error)) {
+        return queueMutation({ type: 'add', vendor: record });
+      }
 
       if (result.success) {
         setAlert({ type: 'success', message: 'Vendor details successfully submitted!' });
-        await refresh();
-        return true;
+        await showCached(result.data ? cache.upsert(result.data) : null);
+        return { success: true };
       } else {
-        setAlert({
-          type: 'error',
-          message: result.error || 'Failed to add vendor',
-        });
-        setIsLoading(false);
-        return false;
+        await reportFailure(result.error, 'Failed to add vendor');
+        return { success: false, error: result.error };
       }
     },
-    [service, refresh]
+    [service, cache, shouldQueue, queueMutation, canQueueAfterFailure, reportFailure, showCached]
   );
 
   /**
-   * Updates an existing vendor and refreshes the list.
+   * Updates an existing vendor and caches the result.
+   * A revision conflict is returned to the caller for resolution.
    */
   const updateVendor = useCallback(
-    async (originalName: string, vendor: Vendor): Promise<boolean> => {
+    async (
+      vendorId: string,
+      vendor: NewVendor,
+      expectedRevision?: number
+    ): Promise<VendorMutationResult> => {
       setIsLoading(true);
+      writesRef.current++;
       setAlert(null);
 
-      const result = await service.updateVendor(originalName, vendor);
+      const mutation: OutboxMutation = { type: 'update', vendorId, vendor, expectedRevision };
+
+      if (shouldQueue()) {
+        return queueMutation(mutation);
+      }
+
+      const result = await service.updateVendor(vendorId, vendor, expectedRevision);
+
+      if (!result.success && !result.conflict && canQueueAfterFailure(result.error)) {
+        return queueMutation(mutation);
+      }
 
       if (result.success) {
         setAlert({ type: 'success', message: 'Vendor details successfully updated!' });
+        await showCached(result.data ? cache.upsert(result.data) : null);
+        return { success: true };
+      } else if (result.conflict) {
         await refresh();
-        return true;
-      } else {
-        setAlert({
-          type: 'error',
-          message: result.error || 'Failed to update vendor',
-        });
         setIsLoading(false);
-        return false;
+        return { success: false, error: result.error, conflict: result.conflict };
+      } else {
+        await reportFailure(result.error, 'Failed to update vendor');
+        return { success: false, error: result.error };
       }
     },
-    [service, refresh]
+    [service, cache, refresh, shouldQueue, queueMutation, canQueueAfterFailure, reportFailure, showCached]
   );
 
   /**
-   * Deletes a vendor and refreshes the list.
+   * Deletes a vendor and removes it from the cache.
    */
   const deleteVendor = useCallback(
-    async (companyName: string): Promise<boolean> => {
+    async (vendorId: string, expectedRevision?: number): Promise<boolean> => {
       setIsLoading(true);
+      writesRef.current++;
       setAlert(null);
 
-      const result = await service.deleteVendor(companyName);
+      const mutation: OutboxMutation = {
+        type: 'delete',
+        vendorId,
+        companyName: visibleVendors.find((v) => v.VendorId === vendorId)?.CompanyName ?? vendorId,
+        expectedRevision,
+      };
+
+      if (shouldQueue()) {
+        return queueMutation(mutation).success;
+      }
+
+      const result = await service.deleteVendor(vendorId, expectedRevision);
+
+      if (!result.success && !result.conflict && canQueueAfterFailure(result.error)) {
+        return queueMutation(mutation).success;
+      }
 
       if (result.success) {
         setAlert({ type: 'success', message: 'Vendor successfully deleted!' });
-        await refresh();
+        await showCached(cache.remove(vendorId));
         return true;
-      } else {
+      } else if (result.conflict) {
         setAlert({
-          type: 'error',
-          message: result.error || 'Failed to delete vendor',
+          type: 'warning',
+          message: `${result.error?.message} The list has been refreshed; review it before deleting.`,
         });
+        await refresh();
         setIsLoading(false);
         return false;
+      } else {
+        await reportFailure(result.error, 'Failed to delete vendor');
+        return false;
+      }
+    },
+    [
+      service,
+      cache,
+      refresh,
+      visibleVendors,
+      shouldQueue,
+      queueMutation,
+      canQueueAfterFailure,
+      reportFailure,
+      showCached,
+    ]
+  );
+
+  /**
+   * Writes an import as one batch of adds and one of updates, and caches the
+   * vendors saved. Imports are not queued offline: the rows were checked for
+   * duplicates against the list on screen, which a queued import would outlive.
+   */
+  const importVendors = useCallback(
+    async (adds: NewVendor[], updates: VendorUpdateInput[]): Promise<VendorImportResult> => {
+      if (shouldQueue()) {
+        const error = serviceError(
+          'unavailable',
+          'Importing needs a connection to the data source, and no changes waiting to sync.'
+        );
+        setAlert({ type: 'warning', message: error.message });
+        return { added: [], updated: [], error };
+      }
+
+      setIsLoading(true);
+      writesRef.current++;
+      setAlert(null);
+
+      const added = adds.length > 0 ? await service.addVendors(adds) : [];
+      const updated = updates.length > 0 ? await service.updateVendors(updates) : [];
+      const responses = [...added, ...updated];
+      const saved = responses.flatMap((response) => (response.success && response.data ? [response.data] : []));
+      const failure = responses.find((response) => !response.success)?.error;
+      trackAuthError(failure);
+
+      let entry: CachedVendors | null = null;
+      saved.forEach((vendor) => {
+        entry = cache.upsert(vendor);
+      });
+      await showCached(saved.length === responses.length ? entry : null);
+
+      const imported = `Imported ${saved.length} vendor${saved.length !== 1 ? 's' : ''}`;
+      if (!failure) {
+        setAlert({ type: 'success', message: `${imported}.` });
+      } else {
+        setAlert({
+          type: saved.length > 0 ? 'warning' : 'error',
+          message: `${imported}; ${responses.length - saved.length} failed. ${failure.message}`,
+        });
       }
+      return { added, updated };
+    },
+    [service, cache, shouldQueue, trackAuthError, showCached]
+  );
+
+  /**
+   * Re-queues a failed or conflicted mutation and replays the outbox.
+   * Retrying a conflict drops its revision check, overwriting the remote change.
+   */
+  const retryMutation = useCallback(
+    (entryId: string) => {
+      const entry = outbox.getEntries().find((e) => e.id === entryId);
+      if (!entry) return;
+
+      const mutation =
+        entry.status === 'conflicted' && entry.mutation.type !== 'add'
+          ? { ...entry.mutation, expectedRevision: undefined }
+          : entry.mutation;
+
+      outbox.updateEntry(entryId, { status: 'pending', error: undefined, mutation });
+      replayOutbox();
     },
-    [service, refresh]
+    [outbox, replayOutbox]
   );
 
-  // Fetch vendors on mount
+  /**
+   * Removes a queued mutation without sending it.
+   */
+  const discardMutation = useCallback(
+    (entryId: string) => {
+      outbox.removeEntry(entryId);
+    },
+    [outbox]
+  );
+
+  /**
+   * Signs in again (the provider may show a consent prompt), then reloads
+   * and replays anything queued while signed out.
+   */
+  const reauthenticate = useCallback(async () => {
+    if (!service.reauthenticate) return;
+    try {
+      await service.reauthenticate();
+      setNeedsSignIn(false);
+      setAlert(null);
+      await refresh();
+      await replayOutbox();
+    } catch (failure) {
+      setAlert({
+        type: 'error',
+        message: failure instanceof Error ? failure.message : 'Sign-in failed',
+      });
+    }
+  }, [service, refresh, replayOutbox]);
+
+  // Load on mount unless the cached list is fresh, and again whenever it goes stale;
+  // then replay anything queued in an earlier session
+  useEffect(() => {
+    (isStale ? load(hasLoadedRef.current) : initialize()).then(replayOutbox);
+  }, [isStale, load, initialize, replayOutbox]);
+
+  // Poll for changes made in the data source, only while the tab is visible
+  useEffect(() => {
+    if (pollIntervalMs <= 0) return;
+    let active = true;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let lastPolledAt = Date.now();
+
+    const poll = async () => {
+      if (navigator.onLine && !isUnavailable() && !isFetchingRef.current) await load(true);
+      lastPolledAt = Date.now();
+      if (active) schedule();
+    };
+
+    // Hidden tabs stop polling; a tab shown again polls at once if a poll is overdue
+    function schedule() {
+      clearTimeout(timer);
+      if (document.hidden) return;
+      timer = setTimeout(poll, Math.max(0, lastPolledAt + pollIntervalMs - Date.now()));
+    }
+
+    schedule();
+    document.addEventListener('visibilitychange', schedule);
+    return () => {
+      active = false;
+      clearTimeout(timer);
+      document.removeEventListener('visibilitychange', schedule);
+    };
+  }, [pollIntervalMs, load, isUnavailable]);
+
+  // Mark the list stale once it outlives the cache TTL
+  useEffect(() => {
+    if (lastSyncedAt === null || cache.ttlMs <= 0) return;
+    const timer = setTimeout(
+      () => setIsStale(true),
+      Math.max(0, lastSyncedAt + cache.ttlMs - Date.now())
+    );
+    return () => clearTimeout(timer);
+  }, [cache, lastSyncedAt]);
+
+  // Replay queued mutations whenever connectivity returns
+  useEffect(() => {
+    window.addEventListener('online', replayOutbox);
+    return () => window.removeEventListener('online', replayOutbox);
+  }, [replayOutbox]);
+
+  // While the data source is unavailable, reload (and replay) once it may accept requests again
   useEffect(() => {
-    refresh();
-  }, [refresh]);
+    if (connection.status !== 'unavailable') return;
+    const delay = Math.max(0, (connection.retryAt ?? Date.now()) - Date.now());
+    const timer = setTimeout(() => {
+      refresh().then(replayOutbox);
+    }, delay);
+    return () => clearTimeout(timer);
+  }, [connection, refresh, replayOutbox]);
 
   return {
-    vendors,
+    vendors: visibleVendors,
     isLoading,
     isInitialLoading,
+    isRevalidating,
+    isStale,
+    lastSyncedAt: lastSyncedDate,
+    loadedCount,
     error,
+    dataIssues,
     alert,
     addVendor,
     updateVendor,
     deleteVendor,
+    importVendors,
     refresh,
     clearAlert,
     setAlert,
+    isOnline,
+    outbox: outboxEntries,
+    retryMutation,
+    discardMutation,
+    connectionStatus: connection.status,
+    needsSignIn,
+    reauthenticate,
+    remoteChanges,
+    dismissRemoteChanges,
   };
 }
 
@@ -1,10 +1,13 @@
 import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
-import App from './App'
+import { WorkspaceRoot } from './components/WorkspaceRoot/WorkspaceRoot'
+import { configuredWorkspaces, createWorkspaceStore } from './services/workspaces'
 import './index.css'
 
+const workspaces = createWorkspaceStore(configuredWorkspaces())
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    <WorkspaceRoot store={workspaces} />
   </StrictMode>,
 )
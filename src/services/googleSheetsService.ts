@@ -8,16 +8,50 @@
  *
  * ## Setup for Google Sheets API:
  * 1. Create a Google Cloud project and enable the Google Sheets API
- * 2. Create an API key or OAuth2 credentials
+ * 2. Create an API key (read-only) and/or OAuth2 credentials (read/write)
  * 3. Share your spreadsheet with the service account email
  * 4. Set the environment variables in `.env`
  *
+ * Requests are authorized by a pluggable {@link SheetsCredentialProvider}
+ * (see `services/sheetsAuth`). An API key alone can only read; adding,
+ * updating and deleting vendors needs OAuth2 or service-account credentials.
+ *
+ * Cells are mapped to vendor fields by the sheet's header row (see
+ * `services/sheetColumns`), so columns may be reordered or added in the sheet.
+ *
+ * Every request goes through a retry pipeline with timeouts, backoff and a
+ * circuit breaker (see `services/sheetsRequest`); its health is exposed as
+ * `connection`.
+ *
+ * The worksheet is read in pages of `pageSize` rows. Before reading, the
+ * service checks the Drive file version and returns the cached vendors if
+ * the spreadsheet has not changed since its last read. Without Drive access
+ * it reads every time, and reports the data as unchanged when a checksum of
+ * all cells matches the previous read. Updates and deletes find their row
+ * through a cache of row numbers by vendor ID. Conditional writes compare
+ * the stored row with the version last fetched, not just its revision, as
+ * edits made directly in the sheet leave the revision unchanged.
+ *
+ * `initialize` creates the worksheet if needed, writes, freezes and protects
+ * its header row, and migrates older sheets to the current schema (see
+ * `services/sheetsBootstrap`). It also applies data validation and
+ * highlighting rules matching the app's constants (see
+ * `services/sheetsValidationRules`), unless `dataValidation` is false.
+ *
+ * Batch mutations (`addVendors`, `updateVendors`, `deleteVendors`) read what
+ * they need once and write every row in a single request, reporting success
+ * or failure per item.
+ *
+ * Values are read unformatted with date serials and converted to ISO dates
+ * (see `utils/dates`); writes use `USER_ENTERED` so dates become real date
+ * cells, while text that Sheets would coerce is written as text.
+ *
  * @example
  * ```ts
  * const service = createGoogleSheetsService({
- *   apiKey: 'your-api-key',
  *   spreadsheetId: 'your-spreadsheet-id',
  *   worksheetName: 'Vendors',
+ *   credentials: createOAuthTokenProvider({ clientId: 'your-client-id' }),
  * });
  *
  * const vendors = await service.fetchVendors();
@@ -25,26 +59,334 @@
  * ```
  */
 
-import type { Vendor, GoogleSheetsConfig, SheetsApiResponse } from '../types/vendor';
+import type {
+  Vendor,
+  VendorIssue,
+  NewVendor,
+  GoogleSheetsConfig,
+  SheetsApiResponse,
+  SheetsCredentialProvider,
+  FetchProgress,
+  FetchVendorsOptions,
+  VendorUpdateInput,
+  VendorDeleteInput,
+  ServiceError,
+  Workspace,
+  InitializeResult,
+} from '../types/vendor';
+import { createApiKeyProvider, createOAuthTokenProvider } from './sheetsAuth';
+import { createColumnMap, type CellValue, type ColumnMap } from './sheetColumns';
+import { columnLetter } from '../utils/a1Notation';
+import { SHEET_COLUMNS } from '../constants/vendor';
+import { generateVendorId } from '../utils/vendorId';
+import { fnv1a } from '../utils/hash';
+import { isBlankRecord, parseVendorRecords } from '../utils/vendorSchema';
+import { sameVendor } from '../utils/vendorDiff';
+import { createIndexedDbService, DEFAULT_DB_NAME } from './indexedDbService';
+import { createHttpVendorService } from './httpVendorService';
+import { createProxySession } from './proxySession';
+import { DEFAULT_WORKSPACE_ID, workspaceStorageKey } from './workspaces';
+import { createRequestPipeline, type ConnectionMonitor } from './sheetsRequest';
+import { planBootstrap, METADATA_SHEET, type SheetInfo } from './sheetsBootstrap';
+import { planValidation } from './sheetsValidationRules';
+import {
+  ServiceFailure,
+  serviceError,
+  fieldError,
+  errorFromResponse,
+  toServiceError,
+} from './serviceErrors';
+import { validateVendorRecord } from '../utils/validation';
 
 /**
  * Interface defining the vendor data service contract.
  * All implementations (real API, mock, etc.) must conform to this interface.
  */
 export interface VendorDataService {
-  /** Fetch all vendors from the data source */
-  fetchVendors(): Promise<SheetsApiResponse<Vendor[]>>;
-  /** Add a new vendor to the data source */
-  addVendor(vendor: Vendor): Promise<SheetsApiResponse<Vendor>>;
-  /** Update an existing vendor by company name */
-  updateVendor(originalName: string, vendor: Vendor): Promise<SheetsApiResponse<Vendor>>;
-  /** Delete a vendor by company name */
-  deleteVendor(companyName: string): Promise<SheetsApiResponse<void>>;
+  /**
+   * Fetch all vendors from the data source. Paged sources report each page
+   * through `options.onPage`; sources that can tell the data is unchanged
+   * may return their cached list with `unchanged` set.
+   */
+  fetchVendors(options?: FetchVendorsOptions): Promise<SheetsApiResponse<Vendor[]>>;
+  /** Add a new vendor to the data source, assigning a `VendorId` if missing */
+  addVendor(vendor: NewVendor): Promise<SheetsApiResponse<Vendor>>;
+  /**
+   * Update an existing vendor by ID. When `expectedRevision` is given, the write
+   * only succeeds if the stored revision still matches; otherwise the response
+   * carries a `conflict` with the current version.
+   */
+  updateVendor(
+    vendorId: string,
+    vendor: NewVendor,
+    expectedRevision?: number
+  ): Promise<SheetsApiResponse<Vendor>>;
+  /** Delete a vendor by ID, optionally conditional on `expectedRevision` */
+  deleteVendor(vendorId: string, expectedRevision?: number): Promise<SheetsApiResponse<void>>;
+  /**
+   * Add several vendors in one write. Returns one response per vendor, in
+   * input order; invalid or duplicate vendors fail without affecting the rest.
+   */
+  addVendors(vendors: NewVendor[]): Promise<SheetsApiResponse<Vendor>[]>;
+  /** Update several vendors in one write, with one response per input, in order */
+  updateVendors(updates: VendorUpdateInput[]): Promise<SheetsApiResponse<Vendor>[]>;
+  /** Delete several vendors in one write, with one response per input, in order */
+  deleteVendors(deletes: VendorDeleteInput[]): Promise<SheetsApiResponse<void>[]>;
+  /**
+   * Prepare the data source for use: create missing storage and migrate its
+   * schema. Safe to call repeatedly; sources that need no setup omit it.
+   */
+  initialize?(): Promise<SheetsApiResponse<InitializeResult>>;
+  /** Connection health, for remote data sources */
+  readonly connection?: ConnectionMonitor;
+  /** Drop cached credentials and sign in again, for sources that need credentials */
+  reauthenticate?(): Promise<void>;
+}
+
+/**
+ * Checks a conditional write against the currently stored vendor.
+ *
+ * @returns A conflict response if the vendor is gone or its revision moved on, else null
+ */
+export function checkRevision(
+  current: Vendor | undefined,
+  expectedRevision: number | undefined
+): SheetsApiResponse<never> | null {
+  if (expectedRevision === undefined) return null;
+
+  if (!current) {
+    return {
+      success: false,
+      error: serviceError('conflict', 'This vendor was deleted by someone else.', 409),
+      conflict: { current: null },
+    };
+  }
+
+  if (current.Revision !== expectedRevision) {
+    return {
+      success: false,
+      error: serviceError(
+        'conflict',
+        `"${current.CompanyName}" was changed by someone else since you loaded it.`,
+        409
+      ),
+      conflict: { current },
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Validates vendor data before a write.
+ *
+ * @returns A validation failure response, or null if the data is valid
+ */
+export function checkVendorRecord(vendor: NewVendor): SheetsApiResponse<never> | null {
+  const fields = validateVendorRecord(vendor);
+  return Object.keys(fields).length > 0 ? { success: false, error: fieldError('validation', fields) } : null;
+}
+
+/** Failure response for a vendor ID that does not exist */
+export function vendorNotFound(label: string): SheetsApiResponse<never> {
+  return {
+    success: false,
+    error: serviceError('not_found', `Vendor "${label}" not found`, 404),
+  };
+}
+
+// ─── Batch Helpers ────────────────────────────────────────────────────────────
+
+/** A batch item that can be written (`value`), or the response it fails with */
+export type BatchPlan<T> = { ok: true; value: T } | { ok: false; response: SheetsApiResponse<never> };
+
+/** Failure response for a vendor listed more than once in a batch */
+function repeatedInBatch(vendorId: string): SheetsApiResponse<never> {
+  return {
+    success: false,
+    error: serviceError('invalid_request', `Vendor "${vendorId}" appears more than once in this batch`, 400),
+  };
+}
+
+/**
+ * Checks a batch of adds and assigns IDs and revisions. Vendors fail when
+ * invalid, or when their caller-supplied ID is taken or repeated in the batch.
+ *
+ * @param vendors - Vendors to add
+ * @param existingIds - IDs already stored
+ */
+export function planVendorAdds(vendors: NewVendor[], existingIds: Set<string>): BatchPlan<Vendor>[] {
+  const taken = new Set(existingIds);
+  return vendors.map((vendor) => {
+    const invalid = checkVendorRecord(vendor);
+    if (invalid) return { ok: false, response: invalid };
+    if (vendor.VendorId && taken.has(vendor.VendorId)) {
+      return {
+        ok: false,
+        response: {
+          success: false,
+          error: fieldError('duplicate', { VendorId: 'A vendor with this ID already exists.' }),
+        },
+      };
+    }
+    const record: Vendor = { ...vendor, VendorId: vendor.VendorId || generateVendorId(), Revision: 1 };
+    taken.add(record.VendorId);
+    return { ok: true, value: record };
+  });
+}
+
+/**
+ * Checks a batch of updates against the stored vendors and builds the new
+ * records, with their revision bumped.
+ *
+ * @param updates - Updates to apply
+ * @param lookup - Returns the stored vendor with an ID, if any
+ * @param check - Conflict check of each conditional update (default: {@link checkRevision})
+ */
+export function planVendorUpdates(
+  updates: VendorUpdateInput[],
+  lookup: (vendorId: string) => Vendor | undefined,
+  check: typeof checkRevision = checkRevision
+): BatchPlan<Vendor>[] {
+  const seen = new Set<string>();
+  return updates.map(({ vendorId, vendor, expectedRevision }) => {
+    if (seen.has(vendorId)) return { ok: false, response: repeatedInBatch(vendorId) };
+    seen.add(vendorId);
+
+    const invalid = checkVendorRecord(vendor);
+    if (invalid) return { ok: false, response: invalid };
+
+    const current = lookup(vendorId);
+    const conflict = check(current, expectedRevision);
+    if (conflict) return { ok: false, response: conflict };
+    if (!current) return { ok: false, response: vendorNotFound(vendor.CompanyName) };
+
+    return { ok: true, value: { ...vendor, VendorId: vendorId, Revision: current.Revision + 1 } };
+  });
+}
+
+/**
+ * Checks a batch of deletes against the stored vendors.
+ *
+ * @param deletes - Deletes to apply
+ * @param lookup - Returns the stored vendor with an ID, if any
+ * @param check - Conflict check of each conditional delete (default: {@link checkRevision})
+ * @returns Plans whose value is the vendor to delete
+ */
+export function planVendorDeletes(
+  deletes: VendorDeleteInput[],
+  lookup: (vendorId: string) => Vendor | undefined,
+  check: typeof checkRevision = checkRevision
+): BatchPlan<Vendor>[] {
+  const seen = new Set<string>();
+  return deletes.map(({ vendorId, expectedRevision }) => {
+    if (seen.has(vendorId)) return { ok: false, response: repeatedInBatch(vendorId) };
+    seen.add(vendorId);
+
+    const current = lookup(vendorId);
+    const conflict = check(current, expectedRevision);
+    if (conflict) return { ok: false, response: conflict };
+    if (!current) return { ok: false, response: vendorNotFound(vendorId) };
+
+    return { ok: true, value: current };
+  });
+}
+
+/** Values of the plans that can be written, in order */
+export function plannedValues<T>(plans: BatchPlan<T>[]): T[] {
+  return plans.flatMap((plan) => (plan.ok ? [plan.value] : []));
+}
+
+/**
+ * Turns plans into per-item responses once the planned values were written.
+ *
+ * @param toData - Response data for a written value (omit for deletes)
+ */
+export function batchResponses<T, D>(
+  plans: BatchPlan<T>[],
+  toData?: (value: T) => D
+): SheetsApiResponse<D>[] {
+  return plans.map((plan) =>
+    plan.ok ? { success: true, data: toData?.(plan.value) } : plan.response
+  );
+}
+
+/** One failure response per batch item, for a batch that failed as a whole */
+export function batchFailure(count: number, error: ServiceError): SheetsApiResponse<never>[] {
+  return Array.from({ length: count }, () => ({ success: false, error }));
 }
 
 // ─── Google Sheets API Implementation ─────────────────────────────────────────
 
-const SHEETS_API_BASE = 'https://sheets.googleapis.com/v4/spreadsheets';
+/** Default API base; override with `apiBaseUrl` (e.g. to use the local stand-in) */
+export const SHEETS_API_BASE = 'https://sheets.googleapis.com/v4/spreadsheets';
+
+/** Default Drive API base, used for change detection; override with `driveApiBaseUrl` */
+export const DRIVE_API_BASE = 'https://www.googleapis.com/drive/v3/files';
+
+/** Rows fetched per request unless `pageSize` is configured */
+export const DEFAULT_PAGE_SIZE = 1000;
+
+/** Spreadsheet metadata read by `initialize` (see `SheetInfo`) */
+const BOOTSTRAP_FIELDS =
+  'sheets(properties(sheetId,title,gridProperties.frozenRowCount),protectedRanges(description),' +
+  'conditionalFormats(booleanRule(condition(values))))';
+
+/** Read options: numbers stay numbers and dates arrive as serials */
+const UNFORMATTED_VALUES = 'valueRenderOption=UNFORMATTED_VALUE&dateTimeRenderOption=SERIAL_NUMBER';
+
+/** Result of reading the whole worksheet */
+interface SheetRead {
+  columns: ColumnMap;
+  /** Raw data rows (excluding the header), index 0 = sheet row 2 */
+  rows: CellValue[][];
+  vendors: Vendor[];
+  issues: VendorIssue[];
+  /** Zero-based data row of each vendor ID (sheet row − 2) */
+  rowIndex: Map<string, number>;
+  /** Checksum of every cell as read, header included; null if IDs were backfilled */
+  checksum: string | null;
+}
+
+/** What the service keeps from its last read of the worksheet */
+interface SheetCache {
+  vendors: Vendor[];
+  issues: VendorIssue[];
+  rowIndex: Map<string, number>;
+  /** Change token of the data when read; null makes the next fetch read again */
+  version: string | null;
+}
+
+/** A vendor's row, as found by `locateVendor` */
+interface LocatedRow {
+  columns: ColumnMap;
+  /** One-based sheet row number */
+  sheetRow: number;
+  /** The vendor stored in the row */
+  current: Vendor;
+}
+
+/**
+ * Checksums whole rows, so any edit to any cell changes it, including edits
+ * typed directly into the sheet (which do not bump the revision). Trailing
+ * blank cells and rows are ignored, as the API leaves them out.
+ */
+function checksumRows(rows: CellValue[][]): string {
+  const lines = rows.map((row) => {
+    const cells = row.map((cell) => cell ?? '');
+    while (cells.length > 0 && cells[cells.length - 1] === '') cells.pop();
+    return JSON.stringify(cells);
+  });
+  while (lines.length > 0 && lines[lines.length - 1] === '[]') lines.pop();
+
+  return `checksum:${lines.length}:${fnv1a(lines.join('\n'))}`;
+}
+
+/** First row number of an A1 range such as `'Vendors'!A7:H7`, or null */
+function firstRowOf(range: string | undefined): number | null {
+  const match = /!\$?[A-Z]*\$?(\d+)/i.exec(range ?? '');
+  return match ? Number(match[1]) : null;
+}
 
 /**
  * Creates a Google Sheets API service instance.
@@ -53,244 +395,883 @@ const SHEETS_API_BASE = 'https://sheets.googleapis.com/v4/spreadsheets';
  * @returns VendorDataService implementation using the Google Sheets API
  */
 export function createGoogleSheetsService(config: GoogleSheetsConfig): VendorDataService {
-  const { apiKey, spreadsheetId, worksheetName } = config;
+  const { spreadsheetId, worksheetName } = config;
+  const apiBaseUrl = (config.apiBaseUrl || SHEETS_API_BASE).replace(/\/+$/, '');
+  const driveApiBaseUrl = (config.driveApiBaseUrl || DRIVE_API_BASE).replace(/\/+$/, '');
+  const pageSize = Math.max(1, config.pageSize ?? DEFAULT_PAGE_SIZE);
+  const dataValidation = config.dataValidation ?? true;
+  const pipeline = createRequestPipeline({
+    retry: config.retry,
+    circuitBreaker: config.circuitBreaker,
+  });
 
-  async function fetchVendors(): Promise<SheetsApiResponse<Vendor[]>> {
-    try {
-      const url = `${SHEETS_API_BASE}/${spreadsheetId}/values/${worksheetName}?key=${apiKey}`;
-      const response = await fetch(url);
+  const credentials: SheetsCredentialProvider | null =
+    config.credentials ?? (config.apiKey ? createApiKeyProvider(config.apiKey) : null);
+
+  /**
+   * Sends an authorized request to a Google API through the retry pipeline.
+   * Bearer tokens rejected with 401 are invalidated and the request is retried
+   * once with a fresh token.
+   */
+  async function authorizedFetch(target: string, init: RequestInit = {}): Promise<Response> {
+    if (!credentials) {
+      throw new ServiceFailure(
+        serviceError('unauthenticated', 'Google Sheets credentials are not configured')
+      );
+    }
+
+    const method = (init.method ?? 'GET').toUpperCase();
+    const send = async () => {
+      // Authorize outside the pipeline: a cancelled sign-in is not a transient failure
+      const auth = await credentials.authorize();
+      return pipeline.send(
+        (signal) => {
+          const url = new URL(target);
+          Object.entries(auth.query).forEach(([name, value]) => url.searchParams.set(name, value));
+          return fetch(url, {
+            ...init,
+            signal,
+            headers: { ...(init.headers as Record<string, string>), ...auth.headers },
+          });
+        },
+        { idempotent: method === 'GET' }
+      );
+    };
+
+    const response = await send();
+    if (response.status === 401 && credentials.kind !== 'apiKey') {
+      credentials.invalidate();
+      return send();
+    }
+    return response;
+  }
+
+  /** Sends an authorized request to a path below the spreadsheet's Sheets API URL */
+  function sheetsFetch(path: string, init?: RequestInit): Promise<Response> {
+    return authorizedFetch(`${apiBaseUrl}/${spreadsheetId}${path}`, init);
+  }
+
+  /**
+   * Throws a descriptive error when the configured credentials cannot write,
+   * instead of letting the Sheets API reject the request with a bare 401.
+   */
+  function assertCanWrite(): void {
+    if (!credentials?.canWrite) {
+      throw new ServiceFailure(
+        serviceError(
+          'permission_denied',
+          'Write access requires OAuth2 or service-account credentials; an API key can only read'
+        )
+      );
+    }
+  }
+
+  /** Qualifies an A1 range with the (quoted) sheet name; no range means the whole sheet */
+  function sheetRange(range?: string, sheetName = worksheetName): string {
+    const sheet = `'${sheetName.replace(/'/g, "''")}'`;
+    return range ? `${sheet}!${range}` : sheet;
+  }
+
+  /** Builds a `values` API path for an A1 range within the worksheet (or another sheet) */
+  function valuesPath(range?: string, suffix = '', sheetName = worksheetName): string {
+    return `/values/${encodeURIComponent(sheetRange(range, sheetName))}${suffix}`;
+  }
+
+  /**
+   * Fetches the values of an A1 range (e.g. `1:1`, `A2:G10`) of the worksheet.
+   * Values are unformatted, so numbers stay numbers and date cells arrive as
+   * serials regardless of the sheet's number formats and locale.
+   */
+  async function getValues(range?: string, sheetName = worksheetName): Promise<CellValue[][]> {
+    const response = await sheetsFetch(valuesPath(range, `?${UNFORMATTED_VALUES}`, sheetName));
+
+    if (!response.ok) {
+      throw await errorFromResponse(response, 'Google Sheets API error');
+    }
+
+    const data = await response.json();
+    return data.values || [];
+  }
+
+  /** Fetches several A1 ranges of the worksheet in one request */
+  async function batchGetValues(ranges: string[]): Promise<CellValue[][][]> {
+    const query = ranges.map((range) => `ranges=${encodeURIComponent(sheetRange(range))}`).join('&');
+    const response = await sheetsFetch(`/values:batchGet?${query}&${UNFORMATTED_VALUES}`);
+
+    if (!response.ok) {
+      throw await errorFromResponse(response, 'Google Sheets API error');
+    }
+
+    const data: { valueRanges?: { values?: CellValue[][] }[] } = await response.json();
+    return ranges.map((_, index) => data.valueRanges?.[index]?.values ?? []);
+  }
+
+  /**
+   * Builds the column map for the worksheet and writes the header row back
+   * when the mapping had to extend it (new sheet or missing VendorId column).
+   */
+  async function mapColumns(headerRow: CellValue[]): Promise<ColumnMap> {
+    const columns = createColumnMap(headerRow, worksheetName);
+
+    if (columns.headerChanged && credentials?.canWrite) {
+      const response = await sheetsFetch(
+        valuesPath(`A1:${columns.lastColumn}1`, '?valueInputOption=RAW'),
+        {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ values: [columns.headers] }),
+        }
+      );
 
       if (!response.ok) {
-        throw new Error(`Google Sheets API error: ${response.status} ${response.statusText}`);
+        throw await errorFromResponse(response, 'Failed to write header row');
       }
+    }
 
-      const data = await response.json();
-      const rows: string[][] = data.values || [];
+    return columns;
+  }
+
+  let cachedInfo: { sheetId: number; locale: string } | null = null;
+
+  /**
+   * Resolves the numeric `sheetId` of the worksheet and the spreadsheet's
+   * locale from the spreadsheet metadata. The sheet ID is needed by
+   * `batchUpdate` requests, which address sheets by ID; the locale tells how
+   * dates typed as text are formatted.
+   */
+  async function getSpreadsheetInfo(): Promise<{ sheetId: number; locale: string }> {
+    if (cachedInfo !== null) return cachedInfo;
+
+    const response = await sheetsFetch('?fields=properties.locale,sheets.properties(sheetId,title)');
+    if (!response.ok) {
+      throw await errorFromResponse(response, 'Failed to read spreadsheet metadata');
+    }
 
-      if (rows.length <= 1) {
-        return { success: true, data: [] };
+    const data: {
+      properties?: { locale?: string };
+      sheets?: { properties: { sheetId: number; title: string } }[];
+    } = await response.json();
+    const sheet = data.sheets?.find((s) => s.properties.title === worksheetName);
+    if (!sheet) {
+      throw new ServiceFailure(
+        serviceError('not_found', `Worksheet "${worksheetName}" not found in spreadsheet`, 404)
+      );
+    }
+
+    cachedInfo = { sheetId: sheet.properties.sheetId, locale: data.properties?.locale || 'en_US' };
+    return cachedInfo;
+  }
+
+  async function getSheetId(): Promise<number> {
+    return (await getSpreadsheetInfo()).sheetId;
+  }
+
+  /** Reads the header row only; enough to map columns for appends */
+  async function loadColumns(): Promise<ColumnMap> {
+    const [headerRow = []] = await getValues('1:1');
+    return mapColumns(headerRow);
+  }
+
+  /**
+   * Writes backfilled vendor IDs back to the sheet in a single
+   * `values:batchUpdate`. Best effort: read-only credentials cannot persist
+   * IDs, but they cannot modify rows either.
+   *
+   * @param ids - New vendor IDs by zero-based data row (sheet row − 2)
+   */
+  async function persistVendorIds(columns: ColumnMap, ids: Map<number, string>): Promise<void> {
+    if (!credentials?.canWrite) return;
+
+    const column = columnLetter(columns.indexOf(SHEET_COLUMNS.VENDOR_ID));
+    const data = [...ids].map(([index, vendorId]) => ({
+      // +2: sheet rows are 1-indexed and row 1 is the header
+      range: sheetRange(`${column}${index + 2}`),
+      values: [[vendorId]],
+    }));
+
+    const response = await sheetsFetch('/values:batchUpdate', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ valueInputOption: 'RAW', data }),
+    });
+
+    if (!response.ok) {
+      console.warn(`Failed to persist backfilled vendor IDs: ${response.status} ${response.statusText}`);
+    }
+  }
+
+  /**
+   * Reads and parses all vendors in pages of `pageSize` rows, backfilling IDs
+   * for rows that have none. Blank rows are skipped: they hold no vendor and
+   * are never given an ID. Cells that do not match the vendor schema are
+   * reported as issues.
+   *
+   * Pages are whole-row ranges, so the first one brings the header row along.
+   * Reading stops at the first page that comes back empty: the API trims
+   * trailing blank rows from each range, so a short page only means its last
+   * rows are blank, not that the sheet ends there.
+   */
+  async function readVendors(onPage?: (progress: FetchProgress) => void): Promise<SheetRead> {
+    const [firstPage, { locale }] = await Promise.all([
+      getValues(`1:${pageSize}`),
+      getSpreadsheetInfo(),
+    ]);
+    const columns = await mapColumns(firstPage[0] ?? []);
+
+    const rows: CellValue[][] = [];
+    const vendors: Vendor[] = [];
+    const issues: VendorIssue[] = [];
+    const rowIndex = new Map<string, number>();
+    const backfilled = new Map<number, string>();
+
+    /** Adds the rows of a page whose first row is data row `offset` (sheet row − 2) */
+    const addPage = (pageRows: CellValue[][], offset: number) => {
+      // Pad for the trimmed blank rows at the end of the previous page
+      while (rows.length < offset) rows.push([]);
+      rows.push(...pageRows);
+      const records = pageRows.map((row, index) => ({ index: offset + index, record: columns.rowToRecord(row) }));
+      const filled = records.filter(({ record }) => !isBlankRecord(record));
+      const parsed = parseVendorRecords(
+        filled.map(({ record }) => record),
+        // +2: sheet rows are 1-indexed and row 1 is the header
+        (i) => filled[i].index + 2,
+        (field) => columns.columnOf(field),
+        locale
+      );
+      parsed.vendors.forEach((vendor, i) => rowIndex.set(vendor.VendorId, filled[i].index));
+      parsed.backfilled.forEach((i) => backfilled.set(filled[i].index, parsed.vendors[i].VendorId));
+      vendors.push(...parsed.vendors);
+      issues.push(...parsed.issues);
+      onPage?.({ vendors: [...vendors], issues: [...issues], loaded: vendors.length });
+    };
+
+    addPage(firstPage.slice(1), 0);
+    for (let start = 1, page = firstPage; page.length > 0; ) {
+      start += pageSize;
+      page = await getValues(`${start}:${start + pageSize - 1}`);
+      addPage(page, start - 2);
+    }
+
+    if (backfilled.size > 0) {
+      await persistVendorIds(columns, backfilled);
+    }
+
+    return {
+      columns,
+      rows,
+      vendors,
+      issues,
+      rowIndex,
+      checksum: backfilled.size > 0 ? null : checksumRows([firstPage[0] ?? [], ...rows]),
+    };
+  }
+
+  let cache: SheetCache | null = null;
+
+  /**
+   * The `values:batchUpdate` ranges that write a vendor's fields to its row,
+   * one cell each, leaving columns the app does not know about untouched.
+   */
+  function fieldWrites(
+    columns: ColumnMap,
+    vendor: Vendor,
+    sheetRow: number
+  ): { range: string; values: CellValue[][] }[] {
+    return columns.vendorToCells(vendor).map(({ column, value }) => ({
+      range: sheetRange(`${column}${sheetRow}`),
+      values: [[value]],
+    }));
+  }
+
+  /**
+   * Vendors as last returned by `fetchVendors`, by ID: the versions callers
+   * base their edits on. Written vendors are dropped until fetched again.
+   */
+  let fetched = new Map<string, Vendor>();
+
+  /**
+   * {@link checkRevision}, plus a check of the stored content: edits typed
+   * directly into the sheet leave Revision unchanged, so a vendor whose row
+   * no longer matches the version last fetched is a conflict too. The
+   * conflict hands the caller the stored version, so it becomes the one
+   * their next write is checked against (e.g. after keeping their own edits).
+   */
+  function checkStoredVendor(
+    current: Vendor | undefined,
+    expectedRevision: number | undefined
+  ): SheetsApiResponse<never> | null {
+    const conflict = checkRevision(current, expectedRevision);
+    if (conflict || !current || expectedRevision === undefined) return conflict;
+
+    const known = fetched.get(current.VendorId);
+    if (!known || known.Revision !== expectedRevision || sameVendor(known, current)) return null;
+    fetched.set(current.VendorId, current);
+    return {
+      success: false,
+      error: serviceError(
+        'conflict',
+        `"${current.CompanyName}" was edited in the spreadsheet since you loaded it.`,
+        409
+      ),
+      conflict: { current },
+    };
+  }
+
+  /** Replaces the cache with a fresh read */
+  function cacheRead(read: SheetRead, version: string | null): void {
+    cache = {
+      vendors: read.vendors,
+      issues: read.issues,
+      rowIndex: read.rowIndex,
+      version,
+    };
+  }
+
+  /** Whether the Drive API may be used for change detection; cleared once it refuses */
+  let driveVersionAvailable = true;
+
+  /**
+   * Returns the Drive file version, a token that changes whenever the
+   * spreadsheet does. Null when the credentials may not read it or it could
+   * not be obtained, which makes the caller read everything.
+   */
+  async function probeVersion(): Promise<string | null> {
+    if (!driveVersionAvailable) return null;
+    try {
+      const response = await authorizedFetch(
+        `${driveApiBaseUrl}/${encodeURIComponent(spreadsheetId)}?fields=version`
+      );
+      if (response.ok) {
+        const data: { version?: string } = await response.json();
+        if (data.version) return `drive:${data.version}`;
+      }
+      // Drive scope not granted, Drive API not enabled, or no version reported
+      if (response.ok || [401, 403, 404].includes(response.status)) {
+        driveVersionAvailable = false;
       }
+      return null;
+    } catch {
+      return null;
+    }
+  }
 
-      const headers = rows[0];
-      const vendors: Vendor[] = rows.slice(1).map((row) => {
-        const vendor: Record<string, string | number> = {};
-        headers.forEach((header, index) => {
-          vendor[header] = row[index] || '';
-        });
-        // Parse YearsInBusiness as number
-        vendor.YearsInBusiness = Number(vendor.YearsInBusiness) || 0;
-        return vendor as unknown as Vendor;
-      });
+  async function fetchVendors(options: FetchVendorsOptions = {}): Promise<SheetsApiResponse<Vendor[]>> {
+    try {
+      const version = await probeVersion();
+      if (cache && version !== null && version === cache.version) {
+        return { success: true, data: cache.vendors, issues: cache.issues, unchanged: true };
+      }
 
-      return { success: true, data: vendors };
+      const read = await readVendors(options.onPage);
+      // Without a Drive version, the checksum of what was read tells whether anything changed
+      const unchanged = version === null && read.checksum !== null && read.checksum === cache?.version;
+      cacheRead(read, version ?? read.checksum);
+      fetched = new Map(read.vendors.map((vendor) => [vendor.VendorId, vendor]));
+      return { success: true, data: read.vendors, issues: read.issues, ...(unchanged && { unchanged }) };
     } catch (error) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Failed to fetch vendors',
+        error: toServiceError(error, 'Failed to fetch vendors'),
       };
     }
   }
 
-  async function addVendor(vendor: Vendor): Promise<SheetsApiResponse<Vendor>> {
+  /**
+   * Finds the rows of vendors. Cached row numbers are tried first, reading
+   * just the header and those rows in one request; if any row no longer holds
+   * its vendor (or an ID is not cached) the whole sheet is read again.
+   *
+   * @returns Rows by vendor ID; vendors that no row holds are left out
+   */
+  async function locateVendors(vendorIds: string[]): Promise<Map<string, LocatedRow>> {
+    const ids = [...new Set(vendorIds)];
+    const sheetRows = ids.flatMap((id) => {
+      const index = cache?.rowIndex.get(id);
+      return index === undefined ? [] : [index + 2];
+    });
+
+    if (sheetRows.length === ids.length) {
+      const [[[headerRow = []], ...rows], { locale }] = await Promise.all([
+        batchGetValues(['1:1', ...sheetRows.map((sheetRow) => `${sheetRow}:${sheetRow}`)]),
+        getSpreadsheetInfo(),
+      ]);
+      const columns = await mapColumns(headerRow);
+      const located = new Map<string, LocatedRow>();
+      rows.forEach(([row = []], i) => {
+        const current = columns.rowToVendor(row, locale);
+        if (current.VendorId === ids[i]) located.set(ids[i], { columns, sheetRow: sheetRows[i], current });
+      });
+      if (located.size === ids.length) return located;
+    }
+
+    // Not cached, or rows moved since the last read
+    const read = await readVendors();
+    cacheRead(read, null);
+    const located = new Map<string, LocatedRow>();
+    const vendorsById = new Map(read.vendors.map((vendor) => [vendor.VendorId, vendor]));
+    ids.forEach((id) => {
+      const index = read.rowIndex.get(id);
+      const current = vendorsById.get(id);
+      if (index !== undefined && current) {
+        located.set(id, { columns: read.columns, sheetRow: index + 2, current });
+      }
+    });
+    return located;
+  }
+
+  /**
+   * Finds a vendor's row (see {@link locateVendors}).
+   *
+   * @returns The row, or null when no row holds the vendor
+   */
+  async function locateVendor(vendorId: string): Promise<LocatedRow | null> {
+    return (await locateVendors([vendorId])).get(vendorId) ?? null;
+  }
+
+  /**
+   * Marks the cached data as outdated after a write, so the next fetch reads
+   * again, and forgets the fetched versions of the vendors written.
+   */
+  function invalidateCache(written: string[] = []): void {
+    if (cache) cache.version = null;
+    written.forEach((vendorId) => fetched.delete(vendorId));
+  }
+
+  async function addVendor(vendor: NewVendor): Promise<SheetsApiResponse<Vendor>> {
     try {
-      const url = `${SHEETS_API_BASE}/${spreadsheetId}/values/${worksheetName}:append?valueInputOption=USER_ENTERED&key=${apiKey}`;
-      const values = [
-        [
-          vendor.CompanyName,
-          vendor.BusinessType,
-          vendor.Products,
-          vendor.YearsInBusiness,
-          vendor.OnboardingDate,
-          vendor.AdditionalInfo,
-        ],
-      ];
-
-      const response = await fetch(url, {
+      assertCanWrite();
+      const invalid = checkVendorRecord(vendor);
+      if (invalid) return invalid;
+
+      const record: Vendor = {
+        ...vendor,
+        VendorId: vendor.VendorId || generateVendorId(),
+        Revision: 1,
+      };
+      const columns = await loadColumns();
+
+      // Caller-supplied IDs (e.g. replayed offline adds) must not collide
+      if (vendor.VendorId) {
+        const idColumn = columnLetter(columns.indexOf(SHEET_COLUMNS.VENDOR_ID));
+        const ids = await getValues(`${idColumn}2:${idColumn}`);
+        if (ids.some(([id]) => id === vendor.VendorId)) {
+          return {
+            success: false,
+            error: fieldError('duplicate', { VendorId: 'A vendor with this ID already exists.' }),
+          };
+        }
+      }
+
+      const path = valuesPath(
+        `A1:${columns.lastColumn}1`,
+        ':append?valueInputOption=USER_ENTERED&insertDataOption=INSERT_ROWS'
+      );
+      const values = [columns.vendorToRow(record)];
+
+      const response = await sheetsFetch(path, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ values }),
       });
 
       if (!response.ok) {
-        throw new Error(`Failed to add vendor: ${response.statusText}`);
+        throw await errorFromResponse(response, 'Failed to add vendor');
       }
 
-      return { success: true, data: vendor };
+      invalidateCache();
+      const result: { updates?: { updatedRange?: string } } = await response.json();
+      const sheetRow = firstRowOf(result.updates?.updatedRange);
+      if (sheetRow !== null) cache?.rowIndex.set(record.VendorId, sheetRow - 2);
+
+      return { success: true, data: record };
     } catch (error) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Failed to add vendor',
+        error: toServiceError(error, 'Failed to add vendor'),
       };
     }
   }
 
   async function updateVendor(
-    originalName: string,
-    vendor: Vendor
+    vendorId: string,
+    vendor: NewVendor,
+    expectedRevision?: number
   ): Promise<SheetsApiResponse<Vendor>> {
     try {
-      // Fetch all data, find the row, update it
-      const allData = await fetchVendors();
-      if (!allData.success || !allData.data) {
-        throw new Error('Failed to fetch existing data for update');
-      }
+      assertCanWrite();
+      const invalid = checkVendorRecord(vendor);
+      if (invalid) return invalid;
 
-      const rowIndex = allData.data.findIndex(
-        (v) => v.CompanyName === originalName
-      );
+      const located = await locateVendor(vendorId);
+
+      const conflict = checkStoredVendor(located?.current, expectedRevision);
+      if (conflict) return conflict;
+
+      if (!located) return vendorNotFound(vendor.CompanyName);
 
-      if (rowIndex === -1) {
-        throw new Error(`Vendor "${originalName}" not found`);
+      const { columns, sheetRow, current } = located;
+      const record: Vendor = {
+        ...vendor,
+        VendorId: vendorId,
+        Revision: current.Revision + 1,
+      };
+
+      const response = await sheetsFetch('/values:batchUpdate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ valueInputOption: 'USER_ENTERED', data: fieldWrites(columns, record, sheetRow) }),
+      });
+
+      if (!response.ok) {
+        throw await errorFromResponse(response, 'Failed to update vendor');
       }
 
-      // Google Sheets rows are 1-indexed, +1 for header row
-      const sheetRow = rowIndex + 2;
-      const range = `${worksheetName}!A${sheetRow}:F${sheetRow}`;
-      const url = `${SHEETS_API_BASE}/${spreadsheetId}/values/${range}?valueInputOption=USER_ENTERED&key=${apiKey}`;
-
-      const values = [
-        [
-          vendor.CompanyName,
-          vendor.BusinessType,
-          vendor.Products,
-          vendor.YearsInBusiness,
-          vendor.OnboardingDate,
-          vendor.AdditionalInfo,
-        ],
-      ];
-
-      const response = await fetch(url, {
-        method: 'PUT',
+      invalidateCache([vendorId]);
+      return { success: true, data: record };
+    } catch (error) {
+      return {
+        success: false,
+        error: toServiceError(error, 'Failed to update vendor'),
+      };
+    }
+  }
+
+  async function deleteVendor(
+    vendorId: string,
+    expectedRevision?: number
+  ): Promise<SheetsApiResponse<void>> {
+    try {
+      assertCanWrite();
+
+      // Reads the row right before deleting it, in case rows moved meanwhile
+      const located = await locateVendor(vendorId);
+
+      const conflict = checkStoredVendor(located?.current, expectedRevision);
+      if (conflict) return conflict;
+
+      if (!located) return vendorNotFound(vendorId);
+
+      const { sheetRow } = located;
+      const sheetId = await getSheetId();
+
+      const response = await sheetsFetch(':batchUpdate', {
+        method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ values }),
+        body: JSON.stringify({
+          requests: [
+            {
+              deleteDimension: {
+                range: {
+                  sheetId,
+                  dimension: 'ROWS',
+                  // Zero-based, end-exclusive
+                  startIndex: sheetRow - 1,
+                  endIndex: sheetRow,
+                },
+              },
+            },
+          ],
+        }),
       });
 
       if (!response.ok) {
-        throw new Error(`Failed to update vendor: ${response.statusText}`);
+        throw await errorFromResponse(response, 'Failed to delete vendor');
       }
 
-      return { success: true, data: vendor };
+      // Rows below the deleted one move up
+      if (cache) {
+        const { rowIndex } = cache;
+        rowIndex.delete(vendorId);
+        rowIndex.forEach((index, id) => {
+          if (index > sheetRow - 2) rowIndex.set(id, index - 1);
+        });
+      }
+      invalidateCache([vendorId]);
+
+      return { success: true };
     } catch (error) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Failed to update vendor',
+        error: toServiceError(error, 'Failed to delete vendor'),
       };
     }
   }
 
-  async function deleteVendor(companyName: string): Promise<SheetsApiResponse<void>> {
+  /** Appends all valid vendors in one `values:append` request */
+  async function addVendors(vendors: NewVendor[]): Promise<SheetsApiResponse<Vendor>[]> {
+    if (vendors.length === 0) return [];
     try {
-      // For deletion, we need to clear the row and shift data
-      // This requires the batchUpdate API with deleteDimension
-      const allData = await fetchVendors();
-      if (!allData.success || !allData.data) {
-        throw new Error('Failed to fetch existing data for deletion');
+      assertCanWrite();
+      const columns = await loadColumns();
+
+      // Caller-supplied IDs (e.g. imported records) must not collide
+      let existingIds = new Set<string>();
+      if (vendors.some((vendor) => vendor.VendorId)) {
+        const idColumn = columnLetter(columns.indexOf(SHEET_COLUMNS.VENDOR_ID));
+        const ids = await getValues(`${idColumn}2:${idColumn}`);
+        existingIds = new Set(ids.map(([id = '']) => String(id)));
       }
 
-      const rowIndex = allData.data.findIndex(
-        (v) => v.CompanyName === companyName
-      );
+      const plans = planVendorAdds(vendors, existingIds);
+      const records = plannedValues(plans);
 
-      if (rowIndex === -1) {
-        throw new Error(`Vendor "${companyName}" not found`);
+      if (records.length > 0) {
+        const path = valuesPath(
+          `A1:${columns.lastColumn}1`,
+          ':append?valueInputOption=USER_ENTERED&insertDataOption=INSERT_ROWS'
+        );
+        const response = await sheetsFetch(path, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ values: records.map((record) => columns.vendorToRow(record)) }),
+        });
+
+        if (!response.ok) {
+          throw await errorFromResponse(response, 'Failed to add vendors');
+        }
+
+        invalidateCache();
+        const result: { updates?: { updatedRange?: string } } = await response.json();
+        const firstRow = firstRowOf(result.updates?.updatedRange);
+        if (firstRow !== null) {
+          records.forEach((record, i) => cache?.rowIndex.set(record.VendorId, firstRow - 2 + i));
+        }
       }
 
-      // Rewrite entire sheet without the deleted row
-      const updatedVendors = allData.data.filter(
-        (v) => v.CompanyName !== companyName
-      );
+      return batchResponses(plans, (record) => record);
+    } catch (error) {
+      return batchFailure(vendors.length, toServiceError(error, 'Failed to add vendors'));
+    }
+  }
 
-      const headers = [
-        'CompanyName',
-        'BusinessType',
-        'Products',
-        'YearsInBusiness',
-        'OnboardingDate',
-        'AdditionalInfo',
-      ];
-
-      const values = [
-        headers,
-        ...updatedVendors.map((v) => [
-          v.CompanyName,
-          v.BusinessType,
-          v.Products,
-          v.YearsInBusiness,
-          v.OnboardingDate,
-          v.AdditionalInfo,
-        ]),
-      ];
-
-      const range = `${worksheetName}`;
-      const url = `${SHEETS_API_BASE}/${spreadsheetId}/values/${range}?valueInputOption=USER_ENTERED&key=${apiKey}`;
-
-      const response = await fetch(url, {
-        method: 'PUT',
+  /** Writes the fields of all valid updates in one `values:batchUpdate` request */
+  async function updateVendors(updates: VendorUpdateInput[]): Promise<SheetsApiResponse<Vendor>[]> {
+    if (updates.length === 0) return [];
+    try {
+      assertCanWrite();
+      const located = await locateVendors(updates.map(({ vendorId }) => vendorId));
+      const plans = planVendorUpdates(updates, (vendorId) => located.get(vendorId)?.current, checkStoredVendor);
+
+      const data = plannedValues(plans).flatMap((record) => {
+        const target = located.get(record.VendorId);
+        if (!target) return [];
+        return fieldWrites(target.columns, record, target.sheetRow);
+      });
+
+      if (data.length > 0) {
+        const response = await sheetsFetch('/values:batchUpdate', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ valueInputOption: 'USER_ENTERED', data }),
+        });
+
+        if (!response.ok) {
+          throw await errorFromResponse(response, 'Failed to update vendors');
+        }
+
+        invalidateCache(plannedValues(plans).map(({ VendorId }) => VendorId));
+      }
+
+      return batchResponses(plans, (record) => record);
+    } catch (error) {
+      return batchFailure(updates.length, toServiceError(error, 'Failed to update vendors'));
+    }
+  }
+
+  /** Deletes the rows of all valid deletes in one `batchUpdate` request */
+  async function deleteVendors(deletes: VendorDeleteInput[]): Promise<SheetsApiResponse<void>[]> {
+    if (deletes.length === 0) return [];
+    try {
+      assertCanWrite();
+      const located = await locateVendors(deletes.map(({ vendorId }) => vendorId));
+      const plans = planVendorDeletes(deletes, (vendorId) => located.get(vendorId)?.current, checkStoredVendor);
+
+      // Bottom-up, so each deletion leaves the rows still to be deleted in place
+      const sheetRows = plannedValues(plans)
+        .flatMap((vendor) => located.get(vendor.VendorId)?.sheetRow ?? [])
+        .sort((a, b) => b - a);
+
+      if (sheetRows.length > 0) {
+        const sheetId = await getSheetId();
+        const response = await sheetsFetch(':batchUpdate', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            requests: sheetRows.map((sheetRow) => ({
+              deleteDimension: {
+                range: { sheetId, dimension: 'ROWS', startIndex: sheetRow - 1, endIndex: sheetRow },
+              },
+            })),
+          }),
+        });
+
+        if (!response.ok) {
+          throw await errorFromResponse(response, 'Failed to delete vendors');
+        }
+
+        // Rows move up by the number of deleted rows above them
+        if (cache) {
+          const { rowIndex } = cache;
+          plannedValues(plans).forEach(({ VendorId }) => rowIndex.delete(VendorId));
+          rowIndex.forEach((index, id) => {
+            const deletedAbove = sheetRows.filter((sheetRow) => sheetRow - 2 < index).length;
+            if (deletedAbove > 0) rowIndex.set(id, index - deletedAbove);
+          });
+        }
+        invalidateCache(plannedValues(plans).map(({ VendorId }) => VendorId));
+      }
+
+      return batchResponses(plans, () => undefined);
+    } catch (error) {
+      return batchFailure(deletes.length, toServiceError(error, 'Failed to delete vendors'));
+    }
+  }
+
+  /**
+   * Reads what the bootstrap needs, then applies its plan: structural changes
+   * in one `batchUpdate`, header and metadata values in one `values:batchUpdate`.
+   */
+  async function bootstrap(): Promise<InitializeResult> {
+    const response = await sheetsFetch(`?fields=${encodeURIComponent(BOOTSTRAP_FIELDS)}`);
+    if (!response.ok) {
+      throw await errorFromResponse(response, 'Failed to read spreadsheet metadata');
+    }
+
+    const { sheets = [] }: { sheets?: SheetInfo[] } = await response.json();
+    const exists = (title: string) => sheets.some((sheet) => sheet.properties.title === title);
+    const [[headerRow = []], metadataRows] = await Promise.all([
+      exists(worksheetName) ? getValues('1:1') : [],
+      exists(METADATA_SHEET) ? getValues(undefined, METADATA_SHEET) : [],
+    ]);
+    const plan = planBootstrap(worksheetName, { sheets, headerRow, metadataRows });
+    const validation = dataValidation
+      ? planValidation({ sheet: plan.worksheet, columns: plan.columns, metadata: plan.metadata, worksheetName })
+      : null;
+    const requests = [...plan.requests, ...(validation?.requests ?? [])];
+    const values = [...plan.values, ...(validation?.values ?? [])];
+
+    if (requests.length > 0) {
+      const structural = await sheetsFetch(':batchUpdate', {
+        method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ values }),
+        body: JSON.stringify({ requests }),
       });
+      if (!structural.ok) {
+        throw await errorFromResponse(structural, 'Failed to set up worksheet');
+      }
+    }
 
-      if (!response.ok) {
-        throw new Error(`Failed to delete vendor: ${response.statusText}`);
+    if (values.length > 0) {
+      const data = values.map((write) => ({ range: sheetRange(write.range, write.sheet), values: write.values }));
+      const written = await sheetsFetch('/values:batchUpdate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ valueInputOption: 'RAW', data }),
+      });
+      if (!written.ok) {
+        throw await errorFromResponse(written, 'Failed to write header row');
       }
+    }
 
-      return { success: true };
+    // Migrations may have moved the columns the cache refers to
+    invalidateCache();
+    return { ...plan.result, validationUpdated: validation?.changed ?? false };
+  }
+
+  async function initialize(): Promise<SheetsApiResponse<InitializeResult>> {
+    try {
+      const data = await bootstrap().catch((error) => {
+        // Another client may have added the sheets first; plan again from the new state
+        if (toServiceError(error, '').code === 'invalid_request') return bootstrap();
+        throw error;
+      });
+      return { success: true, data };
     } catch (error) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Failed to delete vendor',
+        error: toServiceError(error, 'Failed to initialize worksheet'),
       };
     }
   }
 
-  return { fetchVendors, addVendor, updateVendor, deleteVendor };
+  /** Discards the cached token and obtains a new one (may prompt the user) */
+  async function reauthenticate(): Promise<void> {
+    credentials?.invalidate();
+    await credentials?.authorize();
+  }
+
+  return {
+    fetchVendors,
+    addVendor,
+    updateVendor,
+    deleteVendor,
+    addVendors,
+    updateVendors,
+    deleteVendors,
+    connection: { getState: pipeline.getState, subscribe: pipeline.subscribe },
+    // Setting up the worksheet needs write access
+    initialize: credentials?.canWrite ? initialize : undefined,
+    // Signing in again cannot help an API key
+    reauthenticate: credentials && credentials.kind !== 'apiKey' ? reauthenticate : undefined,
+  };
 }
 
 // ─── LocalStorage Mock Implementation (for Development / Demo) ────────────────
 
-const STORAGE_KEY = 'vendor-management-data';
+/** localStorage key holding the vendor array (also the IndexedDB migration source) */
+export const STORAGE_KEY = 'vendor-management-data';
 
 /** Sample seed data for development */
-const SEED_DATA: Vendor[] = [
+export const SEED_DATA: Vendor[] = [
   {
+    VendorId: 'vnd-seed-acme-electronics',
     CompanyName: 'Acme Electronics',
     BusinessType: 'Manufacturer',
     Products: 'Electronics, Software',
     YearsInBusiness: 15,
     OnboardingDate: '2024-01-15',
     AdditionalInfo: 'Primary electronics supplier',
+    Revision: 1,
   },
   {
+    VendorId: 'vnd-seed-global-distributors',
     CompanyName: 'Global Distributors Inc.',
     BusinessType: 'Distributor',
     Products: 'Electronics, Apparel, Groceries',
     YearsInBusiness: 25,
     OnboardingDate: '2023-06-20',
     AdditionalInfo: 'International distribution network',
+    Revision: 1,
   },
   {
+    VendorId: 'vnd-seed-freshmart-wholesale',
     CompanyName: 'FreshMart Wholesale',
     BusinessType: 'Wholesaler',
     Products: 'Groceries',
     YearsInBusiness: 8,
     OnboardingDate: '2024-03-10',
     AdditionalInfo: 'Organic and fresh produce specialist',
+    Revision: 1,
   },
   {
+    VendorId: 'vnd-seed-techsoft-solutions',
     CompanyName: 'TechSoft Solutions',
     BusinessType: 'Service Provider',
     Products: 'Software',
     YearsInBusiness: 5,
     OnboardingDate: '2024-07-01',
     AdditionalInfo: 'Cloud-based SaaS solutions',
+    Revision: 1,
   },
   {
+    VendorId: 'vnd-seed-stylehub-retail',
     CompanyName: 'StyleHub Retail',
     BusinessType: 'Retailer',
     Products: 'Apparel, Other',
     YearsInBusiness: 12,
     OnboardingDate: '2023-11-30',
     AdditionalInfo: 'Premium fashion retail chain',
+    Revision: 1,
   },
 ];
 
@@ -302,33 +1283,46 @@ function simulateDelay(ms: number = 500): Promise<void> {
 }
 
 /**
- * Gets vendors from localStorage, seeding with sample data if empty.
+ * Reads and parses vendors from localStorage, seeding with sample data if empty.
+ * Records saved before vendor IDs existed are backfilled and re-saved.
  */
-function getStoredVendors(): Vendor[] {
-  const stored = localStorage.getItem(STORAGE_KEY);
+function readStoredVendors(storageKey: string): { vendors: Vendor[]; issues: VendorIssue[] } {
+  const stored = localStorage.getItem(storageKey);
   if (stored) {
     try {
-      return JSON.parse(stored);
+      const { vendors, issues, backfilled } = parseVendorRecords(JSON.parse(stored));
+      if (backfilled.length > 0) {
+        saveVendors(storageKey, vendors);
+      }
+      return { vendors, issues };
     } catch {
-      return [...SEED_DATA];
+      return { vendors: [...SEED_DATA], issues: [] };
     }
   }
   // Seed initial data
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(SEED_DATA));
-  return [...SEED_DATA];
+  localStorage.setItem(storageKey, JSON.stringify(SEED_DATA));
+  return { vendors: [...SEED_DATA], issues: [] };
+}
+
+/**
+ * Gets vendors from localStorage.
+ */
+function getStoredVendors(storageKey: string): Vendor[] {
+  return readStoredVendors(storageKey).vendors;
 }
 
 /**
  * Saves vendors to localStorage.
  */
-function saveVendors(vendors: Vendor[]): void {
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(vendors));
+function saveVendors(storageKey: string, vendors: Vendor[]): void {
+  localStorage.setItem(storageKey, JSON.stringify(vendors));
 }
 
 /**
  * Creates a localStorage-based mock service for development and demos.
  * This behaves identically to the Google Sheets service but stores data locally.
  *
+ * @param storageKey - localStorage key holding the vendors (override to isolate data, e.g. per workspace)
  * @returns VendorDataService implementation using localStorage
  *
  * @example
@@ -337,97 +1331,238 @@ function saveVendors(vendors: Vendor[]): void {
  * const vendors = await service.fetchVendors();
  * ```
  */
-export function createLocalStorageService(): VendorDataService {
+export function createLocalStorageService(storageKey: string = STORAGE_KEY): VendorDataService {
   async function fetchVendors(): Promise<SheetsApiResponse<Vendor[]>> {
     await simulateDelay(300);
     try {
-      const vendors = getStoredVendors();
-      return { success: true, data: vendors };
+      const { vendors, issues } = readStoredVendors(storageKey);
+      return { success: true, data: vendors, issues };
     } catch (error) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Failed to fetch vendors',
+        error: toServiceError(error, 'Failed to fetch vendors'),
       };
     }
   }
 
-  async function addVendor(vendor: Vendor): Promise<SheetsApiResponse<Vendor>> {
+  async function addVendor(vendor: NewVendor): Promise<SheetsApiResponse<Vendor>> {
     await simulateDelay(500);
     try {
-      const vendors = getStoredVendors();
-      vendors.push(vendor);
-      saveVendors(vendors);
-      return { success: true, data: vendor };
+      const invalid = checkVendorRecord(vendor);
+      if (invalid) return invalid;
+
+      const vendors = getStoredVendors(storageKey);
+      if (vendor.VendorId && vendors.some((v) => v.VendorId === vendor.VendorId)) {
+        return {
+          success: false,
+          error: fieldError('duplicate', { VendorId: 'A vendor with this ID already exists.' }),
+        };
+      }
+
+      const record: Vendor = {
+        ...vendor,
+        VendorId: vendor.VendorId || generateVendorId(),
+        Revision: 1,
+      };
+      vendors.push(record);
+      saveVendors(storageKey, vendors);
+      return { success: true, data: record };
     } catch (error) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Failed to add vendor',
+        error: toServiceError(error, 'Failed to add vendor'),
       };
     }
   }
 
   async function updateVendor(
-    originalName: string,
-    vendor: Vendor
+    vendorId: string,
+    vendor: NewVendor,
+    expectedRevision?: number
   ): Promise<SheetsApiResponse<Vendor>> {
     await simulateDelay(500);
     try {
-      const vendors = getStoredVendors();
-      const index = vendors.findIndex((v) => v.CompanyName === originalName);
+      const invalid = checkVendorRecord(vendor);
+      if (invalid) return invalid;
+
+      const vendors = getStoredVendors(storageKey);
+      const index = vendors.findIndex((v) => v.VendorId === vendorId);
+      const conflict = checkRevision(vendors[index], expectedRevision);
+      if (conflict) return conflict;
       if (index === -1) {
-        return { success: false, error: `Vendor "${originalName}" not found` };
+        return vendorNotFound(vendor.CompanyName);
       }
-      vendors[index] = vendor;
-      saveVendors(vendors);
-      return { success: true, data: vendor };
+      const record: Vendor = { ...vendor, VendorId: vendorId, Revision: vendors[index].Revision + 1 };
+      vendors[index] = record;
+      saveVendors(storageKey, vendors);
+      return { success: true, data: record };
     } catch (error) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Failed to update vendor',
+        error: toServiceError(error, 'Failed to update vendor'),
       };
     }
   }
 
-  async function deleteVendor(companyName: string): Promise<SheetsApiResponse<void>> {
+  async function deleteVendor(
+    vendorId: string,
+    expectedRevision?: number
+  ): Promise<SheetsApiResponse<void>> {
     await simulateDelay(500);
     try {
-      const vendors = getStoredVendors();
-      const filtered = vendors.filter((v) => v.CompanyName !== companyName);
+      const vendors = getStoredVendors(storageKey);
+      const conflict = checkRevision(
+        vendors.find((v) => v.VendorId === vendorId),
+        expectedRevision
+      );
+      if (conflict) return conflict;
+      const filtered = vendors.filter((v) => v.VendorId !== vendorId);
       if (filtered.length === vendors.length) {
-        return { success: false, error: `Vendor "${companyName}" not found` };
+        return vendorNotFound(vendorId);
       }
-      saveVendors(filtered);
+      saveVendors(storageKey, filtered);
       return { success: true };
     } catch (error) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Failed to delete vendor',
+        error: toServiceError(error, 'Failed to delete vendor'),
       };
     }
   }
 
-  return { fetchVendors, addVendor, updateVendor, deleteVendor };
+  /** Adds all valid vendors with a single save */
+  async function addVendors(vendors: NewVendor[]): Promise<SheetsApiResponse<Vendor>[]> {
+    await simulateDelay(500);
+    try {
+      const stored = getStoredVendors(storageKey);
+      const plans = planVendorAdds(vendors, new Set(stored.map((v) => v.VendorId)));
+      saveVendors(storageKey, [...stored, ...plannedValues(plans)]);
+      return batchResponses(plans, (record) => record);
+    } catch (error) {
+      return batchFailure(vendors.length, toServiceError(error, 'Failed to add vendors'));
+    }
+  }
+
+  /** Applies all valid updates with a single save */
+  async function updateVendors(updates: VendorUpdateInput[]): Promise<SheetsApiResponse<Vendor>[]> {
+    await simulateDelay(500);
+    try {
+      const stored = getStoredVendors(storageKey);
+      const byId = new Map(stored.map((v) => [v.VendorId, v]));
+      const plans = planVendorUpdates(updates, (vendorId) => byId.get(vendorId));
+      const updated = new Map(plannedValues(plans).map((record) => [record.VendorId, record]));
+      saveVendors(storageKey, stored.map((v) => updated.get(v.VendorId) ?? v));
+      return batchResponses(plans, (record) => record);
+    } catch (error) {
+      return batchFailure(updates.length, toServiceError(error, 'Failed to update vendors'));
+    }
+  }
+
+  /** Removes all valid deletes with a single save */
+  async function deleteVendors(deletes: VendorDeleteInput[]): Promise<SheetsApiResponse<void>[]> {
+    await simulateDelay(500);
+    try {
+      const stored = getStoredVendors(storageKey);
+      const byId = new Map(stored.map((v) => [v.VendorId, v]));
+      const plans = planVendorDeletes(deletes, (vendorId) => byId.get(vendorId));
+      const deleted = new Set(plannedValues(plans).map((v) => v.VendorId));
+      saveVendors(storageKey, stored.filter((v) => !deleted.has(v.VendorId)));
+      return batchResponses(plans, () => undefined);
+    } catch (error) {
+      return batchFailure(deletes.length, toServiceError(error, 'Failed to delete vendors'));
+    }
+  }
+
+  return { fetchVendors, addVendor, updateVendor, deleteVendor, addVendors, updateVendors, deleteVendors };
 }
 
 // ─── Factory ──────────────────────────────────────────────────────────────────
 
+/** OAuth providers by client ID, shared so switching workspaces does not ask to sign in again */
+const oauthProviders = new Map<string, SheetsCredentialProvider>();
+
+function sharedOAuthProvider(clientId: string): SheetsCredentialProvider {
+  let provider = oauthProviders.get(clientId);
+  if (!provider) {
+    provider = createOAuthTokenProvider({ clientId });
+    oauthProviders.set(clientId, provider);
+  }
+  return provider;
+}
+
 /**
  * Factory function to create the appropriate data service based on environment.
  * Uses Google Sheets API if credentials are configured, falls back to localStorage.
  *
+ * Credential selection:
+ * - `VITE_VENDOR_API_URL` set → the vendor API proxy, which holds the Google
+ *   credentials; users sign in to it with an API token
+ * - `VITE_GOOGLE_OAUTH_CLIENT_ID` set → OAuth2 via Google Identity Services (read/write)
+ * - otherwise `VITE_GOOGLE_SHEETS_API_KEY` → API key (read-only), in development
+ *   builds only; production builds never bundle the key, and without the proxy
+ *   or OAuth their requests fail as unauthenticated
+ *
+ * Without a sheet, `VITE_VENDOR_STORAGE=indexeddb` selects the IndexedDB service.
+ * Local data is kept per workspace, under workspace-scoped database and
+ * storage names (see `workspaceStorageKey`).
+ *
+ * @param workspace - Spreadsheet and worksheet to use (default: `VITE_GOOGLE_SHEETS_*`)
  * @returns Configured VendorDataService instance
  */
-export function createVendorService(): VendorDataService {
-  const apiKey = import.meta.env.VITE_GOOGLE_SHEETS_API_KEY;
-  const spreadsheetId = import.meta.env.VITE_GOOGLE_SHEETS_SPREADSHEET_ID;
-  const worksheetName = import.meta.env.VITE_GOOGLE_SHEETS_WORKSHEET || 'Vendors';
+export function createVendorService(workspace?: Workspace): VendorDataService {
+  // Statically false in production builds, so the key is left out of the bundle
+  const apiKey = import.meta.env.DEV ? import.meta.env.VITE_GOOGLE_SHEETS_API_KEY : undefined;
+  const oauthClientId = import.meta.env.VITE_GOOGLE_OAUTH_CLIENT_ID;
+  const spreadsheetId = workspace
+    ? workspace.spreadsheetId
+    : import.meta.env.VITE_GOOGLE_SHEETS_SPREADSHEET_ID;
+  const worksheetName =
+    workspace?.worksheetName || import.meta.env.VITE_GOOGLE_SHEETS_WORKSHEET || 'Vendors';
+  const apiBaseUrl = import.meta.env.VITE_GOOGLE_SHEETS_API_BASE || SHEETS_API_BASE;
+  const driveApiBaseUrl = import.meta.env.VITE_GOOGLE_DRIVE_API_BASE || DRIVE_API_BASE;
+  const dataValidation = import.meta.env.VITE_GOOGLE_SHEETS_DATA_VALIDATION !== 'false';
+  const vendorApiUrl = import.meta.env.VITE_VENDOR_API_URL;
+
+  if (vendorApiUrl) {
+    console.info('🛡️ Using vendor API proxy service');
+    return createHttpVendorService({
+      baseUrl: vendorApiUrl,
+      workspaceId: workspace?.id,
+      credentials: createProxySession(),
+    });
+  }
+
+  if (spreadsheetId && oauthClientId) {
+    console.info('🔗 Using Google Sheets API service (OAuth2)');
+    return createGoogleSheetsService({
+      spreadsheetId,
+      worksheetName,
+      apiBaseUrl,
+      driveApiBaseUrl,
+      dataValidation,
+      credentials: sharedOAuthProvider(oauthClientId),
+    });
+  }
+
+  if (spreadsheetId && apiKey) {
+    console.info('🔗 Using Google Sheets API service (API key, read-only)');
+    return createGoogleSheetsService({ apiKey, spreadsheetId, worksheetName, apiBaseUrl, driveApiBaseUrl });
+  }
+
+  if (spreadsheetId && import.meta.env.PROD) {
+    console.error('⛔ Production builds do not use an API key; set VITE_VENDOR_API_URL to read the sheet through the vendor API proxy');
+    return createGoogleSheetsService({ spreadsheetId, worksheetName, apiBaseUrl, driveApiBaseUrl });
+  }
+
+  const scope = workspace ?? { id: DEFAULT_WORKSPACE_ID, name: '', worksheetName: '' };
+  const storageKey = workspaceStorageKey(STORAGE_KEY, scope);
 
-  if (apiKey && spreadsheetId) {
-    console.info('🔗 Using Google Sheets API service');
-    return createGoogleSheetsService({ apiKey, spreadsheetId, worksheetName });
+  if (import.meta.env.VITE_VENDOR_STORAGE === 'indexeddb' && typeof indexedDB !== 'undefined') {
+    console.info('🗄️ Using IndexedDB local service');
+    return createIndexedDbService(workspaceStorageKey(DEFAULT_DB_NAME, scope), storageKey);
   }
 
   console.info('📦 Using localStorage mock service (set VITE_GOOGLE_SHEETS_* env vars to use Google Sheets)');
-  return createLocalStorageService();
+  return createLocalStorageService(storageKey);
 }
 
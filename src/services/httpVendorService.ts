@@ -0,0 +1,204 @@
+/**
+ * @module services/httpVendorService
+ * @description Vendor data service backed by the vendor API proxy
+ * (`server/proxy`), which holds the Google credentials and talks to Sheets.
+ *
+ * Used instead of direct Sheets access when `VITE_VENDOR_API_URL` is set, so
+ * production builds ship neither an API key nor an OAuth client. The proxy
+ * returns `SheetsApiResponse` bodies, which are passed through as they are;
+ * requests go through the same retry pipeline as the Sheets service and its
+ * health is exposed as `connection`.
+ *
+ * The vendor list is fetched with the last `ETag`, so an unchanged list costs
+ * no transfer and is returned from memory with `unchanged` set.
+ *
+ * The proxy refuses requests without an API token. With `credentials`,
+ * requests carry the signed-in user's token and `reauthenticate` asks for a
+ * new one after the proxy has refused it.
+ *
+ * @example
+ * ```ts
+ * const service = createHttpVendorService({
+ *   baseUrl: 'https://vendors.example.com/api',
+ *   workspaceId: 'emea',
+ *   credentials: createProxySession(),
+ * });
+ *
+ * const vendors = await service.fetchVendors();
+ * ```
+ */
+
+import type {
+  Vendor,
+  NewVendor,
+  SheetsApiResponse,
+  VendorUpdateInput,
+  VendorDeleteInput,
+  RetryPolicy,
+  CircuitBreakerOptions,
+} from '../types/vendor';
+import { createRequestPipeline } from './sheetsRequest';
+import { batchFailure, type VendorDataService } from './googleSheetsService';
+import { DEFAULT_WORKSPACE_ID } from './workspaces';
+import { errorFromResponse, toServiceError } from './serviceErrors';
+
+/** Credentials the app presents to the proxy */
+export interface ProxyCredentials {
+  /** `Authorization` header value, or null before anyone has signed in */
+  authorization(): string | null;
+  /** Replaces the current token with a new one (may prompt the user) */
+  signIn(): Promise<void>;
+}
+
+/** Configuration for {@link createHttpVendorService} */
+export interface HttpVendorServiceConfig {
+  /** Base URL of the proxy's API, e.g. `http://localhost:4030/api` */
+  baseUrl: string;
+  /** Workspace served by the proxy (default `default`) */
+  workspaceId?: string;
+  /** Token the requests are sent with */
+  credentials?: ProxyCredentials;
+  /** Retry policy overrides */
+  retry?: Partial<RetryPolicy>;
+  /** Circuit breaker overrides */
+  circuitBreaker?: Partial<CircuitBreakerOptions>;
+}
+
+/**
+ * Creates a vendor data service that calls the vendor API proxy.
+ *
+ * @param config - Proxy URL, workspace and credentials
+ * @returns VendorDataService implementation
+ */
+export function createHttpVendorService(config: HttpVendorServiceConfig): VendorDataService {
+  const workspaceId = config.workspaceId ?? DEFAULT_WORKSPACE_ID;
+  const vendorsUrl = `${config.baseUrl.replace(/\/+$/, '')}/workspaces/${encodeURIComponent(workspaceId)}/vendors`;
+  const pipeline = createRequestPipeline({ retry: config.retry, circuitBreaker: config.circuitBreaker });
+
+  let cached: { etag: string; response: SheetsApiResponse<Vendor[]> } | null = null;
+
+  /** Sends a request to the vendors resource; JSON bodies are serialized */
+  function send(path: string, init: { method?: string; body?: unknown; headers?: Record<string, string> } = {}) {
+    const method = init.method ?? 'GET';
+    const authorization = config.credentials?.authorization();
+    return pipeline.send(
+      (signal) =>
+        fetch(`${vendorsUrl}${path}`, {
+          method,
+          signal,
+          headers: {
+            ...(init.body !== undefined && { 'Content-Type': 'application/json' }),
+            ...(authorization && { Authorization: authorization }),
+            ...init.headers,
+          },
+          body: init.body !== undefined ? JSON.stringify(init.body) : undefined,
+        }),
+      { idempotent: method === 'GET' }
+    );
+  }
+
+  /**
+   * Reads the proxy's response body. Bodies that are not a service response
+   * (e.g. from a gateway in front of the proxy) become an error for the status.
+   */
+  async function readResponse<T>(response: Response, context: string): Promise<T> {
+    const isJson = response.headers.get('Content-Type')?.includes('application/json');
+    if (!isJson) throw await errorFromResponse(response, context);
+    return (await response.json()) as T;
+  }
+
+  /** Runs a single operation, turning thrown errors into a failed response */
+  async function run<T>(context: string, operation: () => Promise<SheetsApiResponse<T>>) {
+    try {
+      return await operation();
+    } catch (error) {
+      return { success: false, error: toServiceError(error, context) } as SheetsApiResponse<T>;
+    }
+  }
+
+  /** Runs a batch operation; a failed request fails every item */
+  async function runBatch<T>(path: string, body: Record<string, unknown[]>, context: string) {
+    const count = Object.values(body)[0].length;
+    if (count === 0) return [];
+    try {
+      const response = await send(path, { method: 'POST', body });
+      const result = await readResponse<SheetsApiResponse<T>[] | SheetsApiResponse<T>>(response, context);
+      return Array.isArray(result) ? result : batchFailure(count, result.error!);
+    } catch (error) {
+      return batchFailure(count, toServiceError(error, context));
+    }
+  }
+
+  // ─── Reads ────────────────────────────────────────────────────────────────
+
+  async function fetchVendors(): Promise<SheetsApiResponse<Vendor[]>> {
+    return run('Failed to fetch vendors', async () => {
+      const response = await send('', { headers: cached ? { 'If-None-Match': cached.etag } : {} });
+      if (response.status === 304 && cached) {
+        return { ...cached.response, unchanged: true };
+      }
+
+      const result = await readResponse<SheetsApiResponse<Vendor[]>>(response, 'Failed to fetch vendors');
+      const etag = response.headers.get('ETag');
+      cached = result.success && etag ? { etag, response: result } : null;
+      return result;
+    });
+  }
+
+  // ─── Mutations ────────────────────────────────────────────────────────────
+
+  async function addVendor(vendor: NewVendor): Promise<SheetsApiResponse<Vendor>> {
+    return run('Failed to add vendor', async () =>
+      readResponse(await send('', { method: 'POST', body: vendor }), 'Failed to add vendor')
+    );
+  }
+
+  async function updateVendor(
+    vendorId: string,
+    vendor: NewVendor,
+    expectedRevision?: number
+  ): Promise<SheetsApiResponse<Vendor>> {
+    return run('Failed to update vendor', async () =>
+      readResponse(
+        await send(`/${encodeURIComponent(vendorId)}`, { method: 'PUT', body: { vendor, expectedRevision } }),
+        'Failed to update vendor'
+      )
+    );
+  }
+
+  async function deleteVendor(vendorId: string, expectedRevision?: number): Promise<SheetsApiResponse<void>> {
+    const query = expectedRevision !== undefined ? `?expectedRevision=${expectedRevision}` : '';
+    return run('Failed to delete vendor', async () =>
+      readResponse(
+        await send(`/${encodeURIComponent(vendorId)}${query}`, { method: 'DELETE' }),
+        'Failed to delete vendor'
+      )
+    );
+  }
+
+  // ─── Batch mutations ──────────────────────────────────────────────────────
+
+  function addVendors(vendors: NewVendor[]): Promise<SheetsApiResponse<Vendor>[]> {
+    return runBatch(':batchCreate', { vendors }, 'Failed to add vendors');
+  }
+
+  function updateVendors(updates: VendorUpdateInput[]): Promise<SheetsApiResponse<Vendor>[]> {
+    return runBatch(':batchUpdate', { updates }, 'Failed to update vendors');
+  }
+
+  function deleteVendors(deletes: VendorDeleteInput[]): Promise<SheetsApiResponse<void>[]> {
+    return runBatch(':batchDelete', { deletes }, 'Failed to delete vendors');
+  }
+
+  return {
+    fetchVendors,
+    addVendor,
+    updateVendor,
+    deleteVendor,
+    addVendors,
+    updateVendors,
+    deleteVendors,
+    connection: { getState: pipeline.getState, subscribe: pipeline.subscribe },
+    reauthenticate: config.credentials?.signIn,
+  };
+}
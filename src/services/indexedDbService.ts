@@ -0,0 +1,405 @@
+/**
+ * @module services/indexedDbService
+ * @description IndexedDB-backed implementation of {@link VendorDataService}.
+ *
+ * Unlike the localStorage service, which rewrites one JSON blob on every
+ * change, this stores each vendor as its own record, so it scales to
+ * thousands of vendors without hitting the localStorage quota or blocking
+ * the main thread on serialisation.
+ *
+ * - Object store `vendors` keyed by `VendorId`, indexed by name and business type
+ * - Every write, including each batch, runs in a single readwrite transaction
+ * - Schema changes are applied through versioned upgrade steps
+ * - Data in the legacy `vendor-management-data` localStorage key (or the
+ *   given workspace-scoped key) is migrated automatically on first open
+ *
+ * @example
+ * ```ts
+ * const service = createIndexedDbService();
+ * const vendors = await service.fetchVendors();
+ * const retailers = await service.findVendorsByBusinessType('Retailer');
+ * ```
+ */
+
+import type {
+  Vendor,
+  NewVendor,
+  BusinessType,
+  SheetsApiResponse,
+  VendorUpdateInput,
+  VendorDeleteInput,
+} from '../types/vendor';
+import {
+  STORAGE_KEY,
+  SEED_DATA,
+  checkRevision,
+  checkVendorRecord,
+  vendorNotFound,
+  planVendorAdds,
+  planVendorUpdates,
+  planVendorDeletes,
+  plannedValues,
+  batchResponses,
+  batchFailure,
+  type VendorDataService,
+} from './googleSheetsService';
+import { toServiceError } from './serviceErrors';
+import { ensureVendorIds, generateVendorId } from '../utils/vendorId';
+import { parseVendorRecords } from '../utils/vendorSchema';
+
+export const DEFAULT_DB_NAME = 'vendor-management';
+
+const VENDOR_STORE = 'vendors';
+const META_STORE = 'meta';
+
+const INDEX_BY_NAME = 'by-name';
+const INDEX_BY_BUSINESS_TYPE = 'by-business-type';
+
+/**
+ * Schema upgrade steps, keyed by the version they upgrade to.
+ * Add a new entry (and bump nothing else) to evolve the schema.
+ */
+const SCHEMA_UPGRADES: Record<number, (db: IDBDatabase, tx: IDBTransaction) => void> = {
+  1: (db) => {
+    const vendors = db.createObjectStore(VENDOR_STORE, { keyPath: 'VendorId' });
+    vendors.createIndex(INDEX_BY_NAME, 'CompanyName', { unique: false });
+    vendors.createIndex(INDEX_BY_BUSINESS_TYPE, 'BusinessType', { unique: false });
+    db.createObjectStore(META_STORE);
+  },
+};
+
+/** Current schema version: the highest upgrade step */
+const DB_VERSION = Math.max(...Object.keys(SCHEMA_UPGRADES).map(Number));
+
+/** Meta key recording that the localStorage migration has run */
+const MIGRATION_KEY = 'localStorageMigrated';
+
+/**
+ * Wraps an IDBRequest in a promise.
+ */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Resolves when a transaction commits; rejects if it aborts or fails.
+ */
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('Transaction aborted'));
+  });
+}
+
+/**
+ * Opens the database, running any pending schema upgrades.
+ */
+function openDatabase(dbName: string): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(dbName, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const tx = request.transaction as IDBTransaction;
+      for (let version = event.oldVersion + 1; version <= DB_VERSION; version++) {
+        SCHEMA_UPGRADES[version]?.(db, tx);
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () =>
+      reject(new Error('Vendor database upgrade is blocked by another open tab'));
+  });
+}
+
+/**
+ * Moves vendors from the legacy localStorage key into IndexedDB, once.
+ * Seeds sample data when there is nothing to migrate and the store is empty.
+ */
+async function migrateFromLocalStorage(db: IDBDatabase, legacyKey: string): Promise<void> {
+  const tx = db.transaction([VENDOR_STORE, META_STORE], 'readwrite');
+  const done = transactionDone(tx);
+  const vendorStore = tx.objectStore(VENDOR_STORE);
+  const metaStore = tx.objectStore(META_STORE);
+
+  const migrated = await requestToPromise(metaStore.get(MIGRATION_KEY));
+  if (migrated) {
+    await done;
+    return;
+  }
+
+  const stored = localStorage.getItem(legacyKey);
+  let legacy: Vendor[] = [];
+  if (stored) {
+    try {
+      const parsed: Vendor[] = JSON.parse(stored);
+      legacy = ensureVendorIds(parsed.map((v) => ({ ...v, Revision: v.Revision ?? 0 }))).vendors;
+    } catch {
+      console.warn('Skipping migration of unreadable localStorage vendor data');
+    }
+  }
+
+  const existingCount = await requestToPromise(vendorStore.count());
+  const toImport = legacy.length > 0 ? legacy : existingCount === 0 ? SEED_DATA : [];
+  toImport.forEach((vendor) => vendorStore.put(vendor));
+  metaStore.put(new Date().toISOString(), MIGRATION_KEY);
+
+  await done;
+
+  if (stored) {
+    // Free the localStorage quota now that the data lives in IndexedDB
+    localStorage.removeItem(legacyKey);
+  }
+}
+
+/**
+ * IndexedDB vendor service, with index-backed lookups in addition to the
+ * standard {@link VendorDataService} operations.
+ */
+export interface IndexedDbVendorService extends VendorDataService {
+  /** Find vendors whose company name matches exactly */
+  findVendorsByName(companyName: string): Promise<SheetsApiResponse<Vendor[]>>;
+  /** Find vendors of a given business type */
+  findVendorsByBusinessType(businessType: BusinessType): Promise<SheetsApiResponse<Vendor[]>>;
+}
+
+/**
+ * Creates an IndexedDB-backed vendor service.
+ *
+ * @param dbName - Database name (override to isolate data, e.g. per workspace)
+ * @param legacyKey - localStorage key to migrate vendors from
+ * @returns IndexedDbVendorService implementation
+ */
+export function createIndexedDbService(
+  dbName: string = DEFAULT_DB_NAME,
+  legacyKey: string = STORAGE_KEY
+): IndexedDbVendorService {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  /** Opens the database and runs the one-time migration, once per service */
+  function getDatabase(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+      dbPromise = openDatabase(dbName).then(async (db) => {
+        await migrateFromLocalStorage(db, legacyKey);
+        return db;
+      });
+      dbPromise.catch(() => {
+        dbPromise = null;
+      });
+    }
+    return dbPromise;
+  }
+
+  /** Runs a read against the vendor store (or one of its indexes), parsing the records */
+  async function readVendors(
+    query: (store: IDBObjectStore) => IDBRequest<Vendor[]>,
+    fallbackError: string
+  ): Promise<SheetsApiResponse<Vendor[]>> {
+    try {
+      const db = await getDatabase();
+      const store = db.transaction(VENDOR_STORE, 'readonly').objectStore(VENDOR_STORE);
+      const records = await requestToPromise(query(store));
+      const { vendors, issues } = parseVendorRecords(records);
+      return { success: true, data: vendors, issues };
+    } catch (error) {
+      return {
+        success: false,
+        error: toServiceError(error, fallbackError),
+      };
+    }
+  }
+
+  async function fetchVendors(): Promise<SheetsApiResponse<Vendor[]>> {
+    return readVendors(
+      (store) => store.index(INDEX_BY_NAME).getAll(),
+      'Failed to fetch vendors'
+    );
+  }
+
+  async function findVendorsByName(companyName: string): Promise<SheetsApiResponse<Vendor[]>> {
+    return readVendors(
+      (store) => store.index(INDEX_BY_NAME).getAll(companyName),
+      'Failed to search vendors'
+    );
+  }
+
+  async function findVendorsByBusinessType(
+    businessType: BusinessType
+  ): Promise<SheetsApiResponse<Vendor[]>> {
+    return readVendors(
+      (store) => store.index(INDEX_BY_BUSINESS_TYPE).getAll(businessType),
+      'Failed to search vendors'
+    );
+  }
+
+  async function addVendor(vendor: NewVendor): Promise<SheetsApiResponse<Vendor>> {
+    try {
+      const invalid = checkVendorRecord(vendor);
+      if (invalid) return invalid;
+
+      const db = await getDatabase();
+      const record: Vendor = {
+        ...vendor,
+        VendorId: vendor.VendorId || generateVendorId(),
+        Revision: 1,
+      };
+
+      const tx = db.transaction(VENDOR_STORE, 'readwrite');
+      const done = transactionDone(tx);
+      // add() rejects an existing VendorId with a ConstraintError (reported as `duplicate`)
+      tx.objectStore(VENDOR_STORE).add(record);
+      await done;
+
+      return { success: true, data: record };
+    } catch (error) {
+      return {
+        success: false,
+        error: toServiceError(error, 'Failed to add vendor'),
+      };
+    }
+  }
+
+  async function updateVendor(
+    vendorId: string,
+    vendor: NewVendor,
+    expectedRevision?: number
+  ): Promise<SheetsApiResponse<Vendor>> {
+    try {
+      const invalid = checkVendorRecord(vendor);
+      if (invalid) return invalid;
+
+      const db = await getDatabase();
+      const tx = db.transaction(VENDOR_STORE, 'readwrite');
+      const done = transactionDone(tx);
+      const store = tx.objectStore(VENDOR_STORE);
+
+      const current: Vendor | undefined = await requestToPromise(store.get(vendorId));
+      const conflict = checkRevision(current, expectedRevision);
+      if (conflict || !current) {
+        tx.abort();
+        await done.catch(() => undefined);
+        return conflict ?? vendorNotFound(vendor.CompanyName);
+      }
+
+      const record: Vendor = { ...vendor, VendorId: vendorId, Revision: current.Revision + 1 };
+      store.put(record);
+      await done;
+
+      return { success: true, data: record };
+    } catch (error) {
+      return {
+        success: false,
+        error: toServiceError(error, 'Failed to update vendor'),
+      };
+    }
+  }
+
+  async function deleteVendor(
+    vendorId: string,
+    expectedRevision?: number
+  ): Promise<SheetsApiResponse<void>> {
+    try {
+      const db = await getDatabase();
+      const tx = db.transaction(VENDOR_STORE, 'readwrite');
+      const done = transactionDone(tx);
+      const store = tx.objectStore(VENDOR_STORE);
+
+      const current: Vendor | undefined = await requestToPromise(store.get(vendorId));
+      const conflict = checkRevision(current, expectedRevision);
+      if (conflict || !current) {
+        tx.abort();
+        await done.catch(() => undefined);
+        return conflict ?? vendorNotFound(vendorId);
+      }
+
+      store.delete(vendorId);
+      await done;
+
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: toServiceError(error, 'Failed to delete vendor'),
+      };
+    }
+  }
+
+  /** Reads the stored versions of vendors within a transaction */
+  async function readStored(store: IDBObjectStore, vendorIds: string[]): Promise<Map<string, Vendor>> {
+    const records = await Promise.all(
+      vendorIds.map((vendorId) => requestToPromise<Vendor | undefined>(store.get(vendorId)))
+    );
+    return new Map(records.flatMap((record) => (record ? [[record.VendorId, record] as const] : [])));
+  }
+
+  async function addVendors(vendors: NewVendor[]): Promise<SheetsApiResponse<Vendor>[]> {
+    try {
+      const db = await getDatabase();
+      const tx = db.transaction(VENDOR_STORE, 'readwrite');
+      const done = transactionDone(tx);
+      const store = tx.objectStore(VENDOR_STORE);
+
+      const keys = await requestToPromise(store.getAllKeys());
+      const plans = planVendorAdds(vendors, new Set(keys.map(String)));
+      plannedValues(plans).forEach((record) => store.add(record));
+      await done;
+
+      return batchResponses(plans, (record) => record);
+    } catch (error) {
+      return batchFailure(vendors.length, toServiceError(error, 'Failed to add vendors'));
+    }
+  }
+
+  async function updateVendors(updates: VendorUpdateInput[]): Promise<SheetsApiResponse<Vendor>[]> {
+    try {
+      const db = await getDatabase();
+      const tx = db.transaction(VENDOR_STORE, 'readwrite');
+      const done = transactionDone(tx);
+      const store = tx.objectStore(VENDOR_STORE);
+
+      const stored = await readStored(store, updates.map(({ vendorId }) => vendorId));
+      const plans = planVendorUpdates(updates, (vendorId) => stored.get(vendorId));
+      plannedValues(plans).forEach((record) => store.put(record));
+      await done;
+
+      return batchResponses(plans, (record) => record);
+    } catch (error) {
+      return batchFailure(updates.length, toServiceError(error, 'Failed to update vendors'));
+    }
+  }
+
+  async function deleteVendors(deletes: VendorDeleteInput[]): Promise<SheetsApiResponse<void>[]> {
+    try {
+      const db = await getDatabase();
+      const tx = db.transaction(VENDOR_STORE, 'readwrite');
+      const done = transactionDone(tx);
+      const store = tx.objectStore(VENDOR_STORE);
+
+      const stored = await readStored(store, deletes.map(({ vendorId }) => vendorId));
+      const plans = planVendorDeletes(deletes, (vendorId) => stored.get(vendorId));
+      plannedValues(plans).forEach(({ VendorId }) => store.delete(VendorId));
+      await done;
+
+      return batchResponses(plans, () => undefined);
+    } catch (error) {
+      return batchFailure(deletes.length, toServiceError(error, 'Failed to delete vendors'));
+    }
+  }
+
+  return {
+    fetchVendors,
+    addVendor,
+    updateVendor,
+    deleteVendor,
+    addVendors,
+    updateVendors,
+    deleteVendors,
+    findVendorsByName,
+    findVendorsByBusinessType,
+  };
+}
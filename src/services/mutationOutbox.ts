@@ -0,0 +1,205 @@
+/**
+ * @module services/mutationOutbox
+ * @description Persistent outbox for vendor mutations made while offline.
+ *
+ * When the network is unavailable, `useVendors` stores each add/update/delete
+ * here instead of dropping it. Entries survive page reloads (localStorage),
+ * are applied optimistically to the vendor list, and are replayed in order
+ * against the {@link VendorDataService} once connectivity returns.
+ *
+ * @example
+ * ```ts
+ * const outbox = createMutationOutbox();
+ * outbox.enqueue({ type: 'delete', vendorId: 'abc', expectedRevision: 3 });
+ * const visible = applyOutbox(vendors, outbox.getEntries());
+ * ```
+ */
+
+import type { Vendor, NewVendor, SheetsApiResponse, ServiceError } from '../types/vendor';
+import type { VendorDataService } from './googleSheetsService';
+import { serviceError } from './serviceErrors';
+
+/** A queued vendor mutation */
+export type OutboxMutation =
+  | { type: 'add'; vendor: Vendor }
+  | { type: 'update'; vendorId: string; vendor: NewVendor; expectedRevision?: number }
+  | { type: 'delete'; vendorId: string; companyName: string; expectedRevision?: number };
+
+/**
+ * Replay status of an outbox entry:
+ * - `pending` — waiting to be sent
+ * - `failed` — rejected by the data source; can be retried or discarded
+ * - `conflicted` — the vendor changed remotely; can be overwritten or discarded
+ */
+export type OutboxStatus = 'pending' | 'failed' | 'conflicted';
+
+/** A mutation in the outbox together with its replay state */
+export interface OutboxEntry {
+  /** Unique entry ID */
+  id: string;
+  /** The mutation to replay */
+  mutation: OutboxMutation;
+  /** Current replay status */
+  status: OutboxStatus;
+  /** Last error message, for failed or conflicted entries */
+  error?: string;
+  /** Number of replay attempts so far */
+  attempts: number;
+  /** When the mutation was queued (ISO timestamp) */
+  createdAt: string;
+}
+
+/** Persistent, subscribable list of queued mutations */
+export interface MutationOutbox {
+  /** Current entries in queue order (stable reference until the next change) */
+  getEntries(): OutboxEntry[];
+  /**
+   * Queue a new mutation. Fails with a `storage` error, leaving the outbox
+   * unchanged, when the entry cannot be persisted (storage full or disabled).
+   */
+  enqueue(mutation: OutboxMutation): SheetsApiResponse<OutboxEntry>;
+  /** Patch an existing entry */
+  updateEntry(id: string, patch: Partial<Omit<OutboxEntry, 'id'>>): void;
+  /** Remove an entry (after it was replayed or discarded) */
+  removeEntry(id: string): void;
+  /** Subscribe to changes; returns an unsubscribe function */
+  subscribe(listener: () => void): () => void;
+}
+
+export const DEFAULT_OUTBOX_KEY = 'vendor-management-outbox';
+
+/**
+ * Creates a localStorage-backed mutation outbox.
+ *
+ * @param storageKey - localStorage key to persist entries under
+ * @returns MutationOutbox instance
+ */
+export function createMutationOutbox(storageKey: string = DEFAULT_OUTBOX_KEY): MutationOutbox {
+  const listeners = new Set<() => void>();
+
+  let entries: OutboxEntry[] = (() => {
+    try {
+      return JSON.parse(localStorage.getItem(storageKey) || '[]');
+    } catch {
+      return [];
+    }
+  })();
+
+  /** Persists entries; returns the error instead of throwing when storage refuses them */
+  function save(next: OutboxEntry[]): ServiceError | null {
+    try {
+      localStorage.setItem(storageKey, JSON.stringify(next));
+      return null;
+    } catch {
+      return serviceError('storage', 'Browser storage is full or disabled, so the change could not be saved for later.');
+    }
+  }
+
+  function publish(next: OutboxEntry[]): void {
+    entries = next;
+    listeners.forEach((listener) => listener());
+  }
+
+  /** Updates and removals take effect for this session even if they cannot be persisted */
+  function commit(next: OutboxEntry[]): void {
+    save(next);
+    publish(next);
+  }
+
+  return {
+    getEntries: () => entries,
+    enqueue(mutation) {
+      const entry: OutboxEntry = {
+        id: crypto.randomUUID(),
+        mutation,
+        status: 'pending',
+        attempts: 0,
+        createdAt: new Date().toISOString(),
+      };
+      const next = [...entries, entry];
+      const error = save(next);
+      if (error) return { success: false, error };
+      publish(next);
+      return { success: true, data: entry };
+    },
+    updateEntry(id, patch) {
+      commit(entries.map((entry) => (entry.id === id ? { ...entry, ...patch } : entry)));
+    },
+    removeEntry(id) {
+      commit(entries.filter((entry) => entry.id !== id));
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+}
+
+/**
+ * Applies queued mutations optimistically on top of the last-known vendor list.
+ * Conflicted entries are not applied, so the stored version stays visible.
+ *
+ * @param vendors - Vendors as last fetched from the data source
+ * @param entries - Outbox entries in queue order
+ * @returns The vendor list as it will look once the outbox is replayed
+ */
+export function applyOutbox(vendors: Vendor[], entries: OutboxEntry[]): Vendor[] {
+  return entries
+    .filter((entry) => entry.status !== 'conflicted')
+    .reduce<Vendor[]>((list, { mutation }) => {
+      switch (mutation.type) {
+        case 'add':
+          return list.some((v) => v.VendorId === mutation.vendor.VendorId)
+            ? list
+            : [...list, mutation.vendor];
+        case 'update':
+          return list.map((v) =>
+            v.VendorId === mutation.vendorId
+              ? { ...v, ...mutation.vendor, VendorId: v.VendorId, Revision: v.Revision + 1 }
+              : v
+          );
+        case 'delete':
+          return list.filter((v) => v.VendorId !== mutation.vendorId);
+        default:
+          return list;
+      }
+    }, vendors);
+}
+
+/**
+ * Sends a queued mutation to the data source.
+ *
+ * @param service - Data service to replay against
+ * @param mutation - The mutation to send
+ * @returns The service response
+ */
+export function replayMutation(
+  service: VendorDataService,
+  mutation: OutboxMutation
+): Promise<SheetsApiResponse<unknown>> {
+  switch (mutation.type) {
+    case 'add':
+      return service.addVendor(mutation.vendor);
+    case 'update':
+      return service.updateVendor(mutation.vendorId, mutation.vendor, mutation.expectedRevision);
+    case 'delete':
+      return service.deleteVendor(mutation.vendorId, mutation.expectedRevision);
+  }
+}
+
+/**
+ * Human-readable summary of a queued mutation.
+ *
+ * @param mutation - The mutation to describe
+ * @returns A short description, e.g. `Update "Acme Electronics"`
+ */
+export function describeMutation(mutation: OutboxMutation): string {
+  switch (mutation.type) {
+    case 'add':
+      return `Add "${mutation.vendor.CompanyName}"`;
+    case 'update':
+      return `Update "${mutation.vendor.CompanyName}"`;
+    case 'delete':
+      return `Delete "${mutation.companyName}"`;
+  }
+}
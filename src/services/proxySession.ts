@@ -0,0 +1,48 @@
+/**
+ * @module services/proxySession
+ * @description Sign-in to the vendor API proxy from the browser.
+ *
+ * The proxy only serves requests that carry one of its API tokens
+ * (`VENDOR_API_TOKENS`, see `server/proxy/apiTokens`). The user enters theirs
+ * when the proxy has refused a request and they choose to sign in; it is kept
+ * in sessionStorage, so it is shared by the workspaces and forgotten when the
+ * tab is closed.
+ *
+ * @example
+ * ```ts
+ * const service = createHttpVendorService({ baseUrl, credentials: createProxySession() });
+ * ```
+ */
+
+import type { ProxyCredentials } from './httpVendorService';
+
+/** sessionStorage key holding the token */
+export const PROXY_TOKEN_KEY = 'vendor-api-token';
+
+/** Asks the user for their token */
+const promptForToken = () => window.prompt('Enter your vendor API token');
+
+/**
+ * Creates proxy credentials backed by sessionStorage.
+ *
+ * @param storageKey - sessionStorage key of the token
+ * @param askForToken - Asks the user for a token; null when they cancel
+ * @returns Credentials for `createHttpVendorService`
+ */
+export function createProxySession(
+  storageKey = PROXY_TOKEN_KEY,
+  askForToken: () => string | null = promptForToken
+): ProxyCredentials {
+  return {
+    authorization() {
+      const token = sessionStorage.getItem(storageKey);
+      return token ? `Bearer ${token}` : null;
+    },
+
+    async signIn() {
+      const token = askForToken()?.trim();
+      if (!token) throw new Error('Sign-in was cancelled');
+      sessionStorage.setItem(storageKey, token);
+    },
+  };
+}
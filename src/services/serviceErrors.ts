@@ -0,0 +1,154 @@
+/**
+ * @module services/serviceErrors
+ * @description Construction and classification of {@link ServiceError}s.
+ *
+ * Data services throw {@link ServiceFailure} internally and convert whatever
+ * they catch into a `ServiceError` with {@link toServiceError}, so callers get
+ * a code, HTTP status, retryability and field details instead of a bare
+ * message.
+ *
+ * @example
+ * ```ts
+ * try {
+ *   const response = await fetch(url);
+ *   if (!response.ok) throw await errorFromResponse(response, 'Failed to add vendor');
+ * } catch (error) {
+ *   return { success: false, error: toServiceError(error, 'Failed to add vendor') };
+ * }
+ * ```
+ */
+
+import type { ServiceError, ServiceErrorCode, VendorFieldErrors } from '../types/vendor';
+import { CircuitOpenError, RequestTimeoutError } from './sheetsRequest';
+
+/** Codes for which repeating the operation later may succeed */
+const RETRYABLE_CODES = new Set<ServiceErrorCode>([
+  'quota_exceeded',
+  'unavailable',
+  'timeout',
+  'network',
+]);
+
+/** Error thrown inside data services, carrying a structured {@link ServiceError} */
+export class ServiceFailure extends Error {
+  readonly error: ServiceError;
+
+  constructor(error: ServiceError) {
+    super(error.message);
+    this.name = 'ServiceFailure';
+    this.error = error;
+  }
+}
+
+/**
+ * Creates a service error; retryability defaults from the code.
+ */
+export function serviceError(
+  code: Exclude<ServiceErrorCode, 'validation' | 'duplicate' | 'schema'>,
+  message: string,
+  status?: number
+): ServiceError {
+  return { code, message, status, retryable: RETRYABLE_CODES.has(code) };
+}
+
+/**
+ * Creates a validation or duplicate error for the given fields.
+ */
+export function fieldError(
+  code: 'validation' | 'duplicate',
+  fields: VendorFieldErrors,
+  message: string = Object.values(fields).join(' ')
+): ServiceError {
+  return { code, message, fields, retryable: false };
+}
+
+/**
+ * Creates the error for a worksheet whose header row lacks required columns.
+ */
+export function schemaError(worksheetName: string, columns: string[]): ServiceError {
+  return {
+    code: 'schema',
+    message:
+      `Worksheet "${worksheetName}" is missing required column(s): ${columns.join(', ')}. ` +
+      'Add them to the header row (row 1) and try again.',
+    columns,
+    retryable: false,
+  };
+}
+
+/** Maps an HTTP status to an error code */
+function codeForStatus(status: number): Exclude<ServiceErrorCode, 'validation' | 'duplicate' | 'schema'> {
+  if (status === 400) return 'invalid_request';
+  if (status === 401) return 'unauthenticated';
+  if (status === 403) return 'permission_denied';
+  if (status === 404) return 'not_found';
+  if (status === 408) return 'timeout';
+  if (status === 409 || status === 412) return 'conflict';
+  if (status === 429) return 'quota_exceeded';
+  if (status >= 500) return 'unavailable';
+  return 'unknown';
+}
+
+/**
+ * Builds a {@link ServiceFailure} from a failed HTTP response, using the
+ * message from a Google-style `{ error: { message } }` body when present.
+ *
+ * @param response - The non-OK response
+ * @param context - What was being attempted, e.g. `Failed to add vendor`
+ */
+export async function errorFromResponse(response: Response, context: string): Promise<ServiceFailure> {
+  let detail = response.statusText;
+  let reason: string | undefined;
+  try {
+    const body: { error?: { message?: string; status?: string } } = await response.json();
+    detail = body.error?.message || detail;
+    reason = body.error?.status;
+  } catch {
+    // Not a JSON error body; keep the status text
+  }
+
+  // Google reports some quota errors as 403 with RESOURCE_EXHAUSTED
+  const code = reason === 'RESOURCE_EXHAUSTED' ? 'quota_exceeded' : codeForStatus(response.status);
+  const message = detail ? `${context}: ${detail}` : context;
+  return new ServiceFailure(serviceError(code, message, response.status));
+}
+
+/**
+ * Converts anything caught in a data service into a {@link ServiceError}.
+ *
+ * @param error - The caught value
+ * @param fallbackMessage - Message used when the error carries none
+ */
+export function toServiceError(error: unknown, fallbackMessage: string): ServiceError {
+  if (error instanceof ServiceFailure) return error.error;
+  if (error instanceof CircuitOpenError) return serviceError('unavailable', error.message);
+  if (error instanceof RequestTimeoutError) return serviceError('timeout', error.message);
+
+  const message = error instanceof Error && error.message ? error.message : fallbackMessage;
+
+  // fetch() rejects with a TypeError when the request cannot be sent at all
+  if (error instanceof TypeError && typeof navigator !== 'undefined' && !navigator.onLine) {
+    return serviceError('network', "You're offline.");
+  }
+  if (error instanceof TypeError && /fetch|network/i.test(error.message)) {
+    return serviceError('network', `${fallbackMessage}: ${error.message}`);
+  }
+
+  if (error instanceof DOMException) {
+    if (error.name === 'ConstraintError') {
+      return fieldError('duplicate', { VendorId: 'A vendor with this ID already exists.' });
+    }
+    if (error.name === 'QuotaExceededError') {
+      return serviceError('storage', 'Browser storage is full; free up space and try again.');
+    }
+  }
+
+  return serviceError('unknown', message);
+}
+
+/**
+ * Whether the error means the user has to sign in again (or with another account).
+ */
+export function needsReauthentication(error: ServiceError | null | undefined): boolean {
+  return error?.code === 'unauthenticated' || error?.code === 'permission_denied';
+}
@@ -0,0 +1,204 @@
+/**
+ * @module services/sheetColumns
+ * @description Column-mapping layer between the live sheet header row and `Vendor` fields.
+ *
+ * Every read and write in the Google Sheets service goes through a
+ * {@link ColumnMap} built from the worksheet's actual header row, so columns
+ * can be reordered or added in the sheet without corrupting data:
+ *
+ * - Vendor fields are located by header name, not by position
+ * - Updates write only the cells of vendor fields, so unknown extra columns
+ *   (formulas, text that looks like numbers) are left untouched
+ * - Missing required columns produce a clear error instead of misaligned writes
+ * - Missing `VendorId`/`Revision` columns are appended automatically
+ * - Text that `USER_ENTERED` would reinterpret (formulas, numbers, dates,
+ *   booleans) is written with a leading apostrophe so it stays text and is
+ *   never evaluated (see `utils/sanitize`); `OnboardingDate` is written as ISO
+ *   so Sheets stores a real date
+ *
+ * @example
+ * ```ts
+ * const map = createColumnMap(headerRow);
+ * const vendor = map.rowToVendor(row);
+ * const newRow = map.vendorToRow(vendor);
+ * const updatedCells = map.vendorToCells(vendor);
+ * ```
+ */
+
+import type { Vendor } from '../types/vendor';
+import { SHEET_COLUMNS } from '../constants/vendor';
+import { parseVendor } from '../utils/vendorSchema';
+import { isFormulaLike } from '../utils/sanitize';
+import { columnLetter } from '../utils/a1Notation';
+import { ServiceFailure, schemaError } from './serviceErrors';
+
+/** A single cell value as exchanged with the Sheets API */
+export type CellValue = string | number | boolean;
+
+/** A `Vendor` property that is stored in its own sheet column */
+export type VendorField = (typeof SHEET_COLUMNS)[keyof typeof SHEET_COLUMNS];
+
+/**
+ * Header row written to new sheets. Generated columns come last so that sheets
+ * created before they existed keep their original column positions.
+ */
+export const DEFAULT_HEADER_ROW: readonly VendorField[] = [
+  SHEET_COLUMNS.COMPANY_NAME,
+  SHEET_COLUMNS.BUSINESS_TYPE,
+  SHEET_COLUMNS.PRODUCTS,
+  SHEET_COLUMNS.YEARS_IN_BUSINESS,
+  SHEET_COLUMNS.ONBOARDING_DATE,
+  SHEET_COLUMNS.ADDITIONAL_INFO,
+  SHEET_COLUMNS.VENDOR_ID,
+  SHEET_COLUMNS.REVISION,
+];
+
+/** Columns that are generated by the app and may be added to an existing sheet */
+const GENERATED_COLUMNS: readonly VendorField[] = [SHEET_COLUMNS.VENDOR_ID, SHEET_COLUMNS.REVISION];
+
+/** Columns that must already exist in the sheet's header row */
+const REQUIRED_COLUMNS: readonly VendorField[] = DEFAULT_HEADER_ROW.filter(
+  (column) => !GENERATED_COLUMNS.includes(column)
+);
+
+/** Vendor fields holding free text, protected from `USER_ENTERED` coercion */
+const TEXT_COLUMNS: readonly VendorField[] = [
+  SHEET_COLUMNS.VENDOR_ID,
+  SHEET_COLUMNS.COMPANY_NAME,
+  SHEET_COLUMNS.BUSINESS_TYPE,
+  SHEET_COLUMNS.PRODUCTS,
+  SHEET_COLUMNS.ADDITIONAL_INFO,
+];
+
+/** Text that `USER_ENTERED` would turn into a number, date, time or boolean */
+const COERCIBLE_TEXT: readonly RegExp[] = [
+  /^\s*[-+]?[$€£¥]?\s*[\d,.]*\d[\d,.]*\s*%?\s*$/, // numbers, currency, percentages
+  /^\s*[-+]?\d*\.?\d+e[-+]?\d+\s*$/i, // scientific notation
+  /^\s*\d{1,4}[-/.]\d{1,2}([-/.]\d{1,4})?\s*$/, // dates
+  /^\s*\d{1,2}:\d{2}(:\d{2})?(\s*[ap]m)?\s*$/i, // times
+  /^\s*(true|false)\s*$/i,
+];
+
+/**
+ * Prefixes text with an apostrophe when `USER_ENTERED` would otherwise
+ * convert or evaluate it, e.g. a note of `00123`, `1/2` or `=IMPORTXML(…)`.
+ * Sheets stores the text without the apostrophe. Text that itself starts with
+ * an apostrophe is prefixed too, so that apostrophe is kept.
+ *
+ * @param text - Text cell value
+ * @returns The value to send with `valueInputOption=USER_ENTERED`
+ */
+export function toUserEnteredText(text: string): string {
+  const needsPrefix =
+    isFormulaLike(text) || text.startsWith("'") || COERCIBLE_TEXT.some((pattern) => pattern.test(text));
+  return needsPrefix ? `'${text}` : text;
+}
+
+/**
+ * Mapping between `Vendor` fields and column positions in a worksheet.
+ */
+export interface ColumnMap {
+  /** The header row, including any columns appended by the mapping */
+  headers: string[];
+  /** Whether the header row was extended and must be written back to the sheet */
+  headerChanged: boolean;
+  /** Number of columns in the mapped range */
+  width: number;
+  /** A1 letter of the last mapped column */
+  lastColumn: string;
+  /** Zero-based column index of a vendor field */
+  indexOf(field: VendorField): number;
+  /** Reads a vendor from a raw sheet row, with text dates in the given locale */
+  rowToVendor(row: CellValue[], locale?: string): Vendor;
+  /** Reads the raw cells of a row, keyed by vendor field, for parsing with diagnostics */
+  rowToRecord(row: CellValue[]): Partial<Record<VendorField, CellValue>>;
+  /** Column letter of a vendor field */
+  columnOf(field: VendorField): string;
+  /** Serializes a vendor into a new sheet row for `USER_ENTERED` writes */
+  vendorToRow(vendor: Vendor): CellValue[];
+  /**
+   * Serializes a vendor into the cells of its fields only, for `USER_ENTERED`
+   * updates that leave the row's other columns alone
+   */
+  vendorToCells(vendor: Vendor): { column: string; value: CellValue }[];
+}
+
+/** Header text as compared when locating columns: trimmed and case-insensitive */
+export function normalizeHeader(header: CellValue | undefined): string {
+  return String(header ?? '').trim().toLowerCase();
+}
+
+/**
+ * Builds a column map from a worksheet's header row.
+ * An empty header row maps to {@link DEFAULT_HEADER_ROW} (and is flagged for writing).
+ *
+ * @param headerRow - The first row of the worksheet
+ * @param worksheetName - Worksheet name, used in error messages
+ * @returns ColumnMap for reading and writing vendor rows
+ * @throws ServiceFailure with a `schema` error listing the required columns
+ *   missing from the header row
+ */
+export function createColumnMap(headerRow: CellValue[], worksheetName = 'Vendors'): ColumnMap {
+  const isEmpty = headerRow.every((header) => normalizeHeader(header) === '');
+  const headers = isEmpty ? [...DEFAULT_HEADER_ROW] : headerRow.map((header) => String(header ?? ''));
+  let headerChanged = isEmpty;
+
+  const findColumn = (field: VendorField) =>
+    headers.findIndex((header) => normalizeHeader(header) === field.toLowerCase());
+
+  const missing = REQUIRED_COLUMNS.filter((field) => findColumn(field) === -1);
+  if (missing.length > 0) throw new ServiceFailure(schemaError(worksheetName, missing));
+
+  GENERATED_COLUMNS.forEach((field) => {
+    if (findColumn(field) === -1) {
+      headers.push(field);
+      headerChanged = true;
+    }
+  });
+
+  const indexes = new Map<VendorField, number>(
+    DEFAULT_HEADER_ROW.map((field) => [field, findColumn(field)])
+  );
+  const indexOf = (field: VendorField) => indexes.get(field) as number;
+
+  function rowToRecord(row: CellValue[]): Partial<Record<VendorField, CellValue>> {
+    return Object.fromEntries(DEFAULT_HEADER_ROW.map((field) => [field, row[indexOf(field)] ?? '']));
+  }
+
+  function rowToVendor(row: CellValue[], locale?: string): Vendor {
+    return parseVendor(rowToRecord(row), { row: 0, locale }).vendor;
+  }
+
+  function cellValue(vendor: Vendor, field: VendorField): CellValue {
+    const value = vendor[field];
+    return typeof value === 'string' && TEXT_COLUMNS.includes(field) ? toUserEnteredText(value) : value;
+  }
+
+  function vendorToRow(vendor: Vendor): CellValue[] {
+    const row: CellValue[] = headers.map(() => '');
+    DEFAULT_HEADER_ROW.forEach((field) => {
+      row[indexOf(field)] = cellValue(vendor, field);
+    });
+    return row;
+  }
+
+  function vendorToCells(vendor: Vendor): { column: string; value: CellValue }[] {
+    return DEFAULT_HEADER_ROW.map((field) => ({
+      column: columnLetter(indexOf(field)),
+      value: cellValue(vendor, field),
+    }));
+  }
+
+  return {
+    headers,
+    headerChanged,
+    width: headers.length,
+    lastColumn: columnLetter(headers.length - 1),
+    indexOf,
+    rowToVendor,
+    rowToRecord,
+    columnOf: (field) => columnLetter(indexOf(field)),
+    vendorToRow,
+    vendorToCells,
+  };
+}
@@ -0,0 +1,343 @@
+/**
+ * @module services/sheetsAuth
+ * @description Credential providers for the Google Sheets API.
+ *
+ * The Sheets API only accepts API keys for reading public spreadsheets;
+ * `values.append`, `values.update` and `batchUpdate` require an OAuth2 access
+ * token. Each provider here implements {@link SheetsCredentialProvider} and
+ * takes care of obtaining, caching and refreshing its credentials.
+ *
+ * - {@link createApiKeyProvider} — read-only access with an API key
+ * - {@link createOAuthTokenProvider} — user tokens from Google Identity Services (browser)
+ * - {@link createServiceAccountProvider} — signed service-account JWTs (server / Node)
+ *
+ * @example
+ * ```ts
+ * const service = createGoogleSheetsService({
+ *   spreadsheetId: 'your-spreadsheet-id',
+ *   worksheetName: 'Vendors',
+ *   credentials: createOAuthTokenProvider({ clientId: 'your-client-id' }),
+ * });
+ * ```
+ */
+
+import type { SheetsCredentialProvider, SheetsRequestAuth } from '../types/vendor';
+
+/** OAuth2 scope granting read/write access to spreadsheets */
+export const SHEETS_SCOPE = 'https://www.googleapis.com/auth/spreadsheets';
+
+/** Google's OAuth2 token endpoint */
+export const GOOGLE_TOKEN_URI = 'https://oauth2.googleapis.com/token';
+
+/** Google Identity Services client library */
+const GIS_SCRIPT_URL = 'https://accounts.google.com/gsi/client';
+
+/** Refresh tokens this long before they actually expire */
+const EXPIRY_SKEW_MS = 60_000;
+
+/** An access token together with its absolute expiry time */
+interface AccessToken {
+  token: string;
+  /** Epoch milliseconds after which the token is no longer valid */
+  expiresAt: number;
+}
+
+/**
+ * Wraps a token source with caching, expiry-based refresh and de-duplication
+ * of concurrent refreshes.
+ */
+function createTokenCache(fetchToken: () => Promise<AccessToken>) {
+  let current: AccessToken | null = null;
+  let pending: Promise<AccessToken> | null = null;
+
+  async function getToken(): Promise<string> {
+    if (current && current.expiresAt - EXPIRY_SKEW_MS > Date.now()) {
+      return current.token;
+    }
+
+    if (!pending) {
+      pending = fetchToken()
+        .then((token) => {
+          current = token;
+          return token;
+        })
+        .finally(() => {
+          pending = null;
+        });
+    }
+
+    return (await pending).token;
+  }
+
+  function invalidate(): void {
+    current = null;
+  }
+
+  return { getToken, invalidate };
+}
+
+/**
+ * Builds a bearer-token provider from a token source.
+ */
+function createBearerProvider(
+  kind: 'oauth' | 'serviceAccount',
+  fetchToken: () => Promise<AccessToken>
+): SheetsCredentialProvider {
+  const cache = createTokenCache(fetchToken);
+
+  return {
+    kind,
+    canWrite: true,
+    async authorize(): Promise<SheetsRequestAuth> {
+      const token = await cache.getToken();
+      return { headers: { Authorization: `Bearer ${token}` }, query: {} };
+    },
+    invalidate: cache.invalidate,
+  };
+}
+
+// ─── API Key ──────────────────────────────────────────────────────────────────
+
+/**
+ * Creates a read-only provider that authenticates with an API key.
+ *
+ * @param apiKey - Google Cloud API key with the Sheets API enabled
+ * @returns SheetsCredentialProvider that appends `?key=` to each request
+ */
+export function createApiKeyProvider(apiKey: string): SheetsCredentialProvider {
+  return {
+    kind: 'apiKey',
+    canWrite: false,
+    async authorize() {
+      return { headers: {}, query: { key: apiKey } };
+    },
+    invalidate() {
+      // API keys do not expire
+    },
+  };
+}
+
+// ─── OAuth2 (Google Identity Services) ────────────────────────────────────────
+
+interface GisTokenResponse {
+  access_token?: string;
+  expires_in?: number | string;
+  error?: string;
+  error_description?: string;
+}
+
+interface GisTokenClient {
+  requestAccessToken(overrides?: { prompt?: string }): void;
+}
+
+interface GisOAuth2 {
+  initTokenClient(config: {
+    client_id: string;
+    scope: string;
+    callback: (response: GisTokenResponse) => void;
+    error_callback?: (error: { type: string; message?: string }) => void;
+  }): GisTokenClient;
+}
+
+declare global {
+  interface Window {
+    google?: { accounts?: { oauth2?: GisOAuth2 } };
+  }
+}
+
+let gisLoader: Promise<GisOAuth2> | null = null;
+
+/**
+ * Loads the Google Identity Services script once per page.
+ */
+function loadGoogleIdentityServices(): Promise<GisOAuth2> {
+  if (window.google?.accounts?.oauth2) {
+    return Promise.resolve(window.google.accounts.oauth2);
+  }
+
+  if (!gisLoader) {
+    gisLoader = new Promise<GisOAuth2>((resolve, reject) => {
+      const script = document.createElement('script');
+      script.src = GIS_SCRIPT_URL;
+      script.async = true;
+      script.onload = () => {
+        const oauth2 = window.google?.accounts?.oauth2;
+        if (oauth2) {
+          resolve(oauth2);
+        } else {
+          reject(new Error('Google Identity Services failed to initialise'));
+        }
+      };
+      script.onerror = () => {
+        gisLoader = null;
+        reject(new Error('Failed to load Google Identity Services'));
+      };
+      document.head.appendChild(script);
+    });
+  }
+
+  return gisLoader;
+}
+
+/** Options for {@link createOAuthTokenProvider} */
+export interface OAuthTokenProviderOptions {
+  /** OAuth2 web client ID from the Google Cloud console */
+  clientId: string;
+  /** Scopes to request (defaults to read/write spreadsheets access) */
+  scopes?: string[];
+}
+
+/**
+ * Creates a provider that obtains user access tokens through Google Identity
+ * Services. The consent popup is shown the first time a token is needed;
+ * later refreshes are requested silently.
+ *
+ * @param options - OAuth client configuration
+ * @returns SheetsCredentialProvider sending `Authorization: Bearer` headers
+ */
+export function createOAuthTokenProvider(
+  options: OAuthTokenProviderOptions
+): SheetsCredentialProvider {
+  const scope = (options.scopes ?? [SHEETS_SCOPE]).join(' ');
+  let hasConsent = false;
+
+  async function fetchToken(): Promise<AccessToken> {
+    const oauth2 = await loadGoogleIdentityServices();
+
+    return new Promise<AccessToken>((resolve, reject) => {
+      const client = oauth2.initTokenClient({
+        client_id: options.clientId,
+        scope,
+        callback: (response) => {
+          if (response.error || !response.access_token) {
+            reject(new Error(response.error_description || response.error || 'Authorization failed'));
+            return;
+          }
+          hasConsent = true;
+          resolve({
+            token: response.access_token,
+            expiresAt: Date.now() + Number(response.expires_in ?? 3600) * 1000,
+          });
+        },
+        error_callback: (error) => {
+          reject(new Error(error.message || `Authorization failed: ${error.type}`));
+        },
+      });
+
+      client.requestAccessToken({ prompt: hasConsent ? '' : 'consent' });
+    });
+  }
+
+  return createBearerProvider('oauth', fetchToken);
+}
+
+// ─── Service Account (JWT bearer grant) ───────────────────────────────────────
+
+/** Options for {@link createServiceAccountProvider} */
+export interface ServiceAccountProviderOptions {
+  /** Service account email (`client_email` in the JSON key file) */
+  clientEmail: string;
+  /** PEM-encoded PKCS#8 private key (`private_key` in the JSON key file) */
+  privateKey: string;
+  /** Scopes to request (defaults to read/write spreadsheets access) */
+  scopes?: string[];
+  /** Token endpoint (defaults to Google's; override to use a local stand-in) */
+  tokenUri?: string;
+  /** Token lifetime to request in seconds (max 3600) */
+  lifetimeSeconds?: number;
+}
+
+function base64UrlEncode(input: string | ArrayBuffer): string {
+  const bytes = typeof input === 'string' ? new TextEncoder().encode(input) : new Uint8Array(input);
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function pemToArrayBuffer(pem: string): ArrayBuffer {
+  const base64 = pem
+    .replace(/-----(BEGIN|END) PRIVATE KEY-----/g, '')
+    .replace(/\\n/g, '')
+    .replace(/\s+/g, '');
+  const binary = atob(base64);
+  const buffer = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    buffer[i] = binary.charCodeAt(i);
+  }
+  return buffer.buffer;
+}
+
+/**
+ * Signs a JWT assertion for the OAuth2 JWT-bearer grant (RFC 7523).
+ */
+async function signServiceAccountJwt(
+  options: ServiceAccountProviderOptions,
+  audience: string
+): Promise<string> {
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const header = { alg: 'RS256', typ: 'JWT' };
+  const claims = {
+    iss: options.clientEmail,
+    scope: (options.scopes ?? [SHEETS_SCOPE]).join(' '),
+    aud: audience,
+    iat: issuedAt,
+    exp: issuedAt + Math.min(options.lifetimeSeconds ?? 3600, 3600),
+  };
+
+  const unsigned = `${base64UrlEncode(JSON.stringify(header))}.${base64UrlEncode(JSON.stringify(claims))}`;
+  const key = await crypto.subtle.importKey(
+    'pkcs8',
+    pemToArrayBuffer(options.privateKey),
+    { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign(
+    'RSASSA-PKCS1-v1_5',
+    key,
+    new TextEncoder().encode(unsigned)
+  );
+
+  return `${unsigned}.${base64UrlEncode(signature)}`;
+}
+
+/**
+ * Creates a provider that exchanges signed service-account JWTs for access
+ * tokens. Intended for server-side use: never ship a private key to the browser.
+ *
+ * @param options - Service account credentials and token endpoint
+ * @returns SheetsCredentialProvider sending `Authorization: Bearer` headers
+ */
+export function createServiceAccountProvider(
+  options: ServiceAccountProviderOptions
+): SheetsCredentialProvider {
+  const tokenUri = options.tokenUri ?? GOOGLE_TOKEN_URI;
+
+  async function fetchToken(): Promise<AccessToken> {
+    const assertion = await signServiceAccountJwt(options, tokenUri);
+    const response = await fetch(tokenUri, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+        assertion,
+      }).toString(),
+    });
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok || !data.access_token) {
+      throw new Error(
+        `Token request failed: ${data.error_description || data.error || response.statusText}`
+      );
+    }
+
+    return {
+      token: data.access_token,
+      expiresAt: Date.now() + Number(data.expires_in ?? 3600) * 1000,
+    };
+  }
+
+  return createBearerProvider('serviceAccount', fetchToken);
+}
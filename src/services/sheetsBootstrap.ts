@@ -0,0 +1,337 @@
+/**
+ * @module services/sheetsBootstrap
+ * @description Worksheet setup and schema migrations for the Google Sheets service.
+ *
+ * Without setup, a missing worksheet fails every request and an empty one gets
+ * headerless rows. {@link planBootstrap} works out, from the spreadsheet's
+ * current state, what has to change so the worksheet is ready for use:
+ *
+ * - The worksheet is created if missing, and the header row written from
+ *   `SHEET_COLUMNS` if empty
+ * - The header row is frozen and protected (warning only, so the app and
+ *   editors can still change it after confirming)
+ * - Schema migrations newer than the worksheet's recorded version are applied
+ *   to the header row, in order
+ *
+ * Schema versions are recorded per worksheet in a hidden metadata tab
+ * ({@link METADATA_SHEET}) as `Worksheet | Key | Value | UpdatedAt` rows, so
+ * several worksheets in one spreadsheet migrate independently. Migrations only
+ * touch the header row: columns are located by name, so an appended column is
+ * simply empty in existing rows, and a renamed header keeps its cells.
+ *
+ * To change the `Vendor` schema, append a migration to
+ * {@link SCHEMA_MIGRATIONS}; sheets created from then on start at the new
+ * version with `DEFAULT_HEADER_ROW`, so keep the two in step. Migrations must
+ * be safe to apply to a sheet that already has their change, as sheets
+ * created before versions were recorded start from version 0.
+ *
+ * Planning is pure; the service adds the data validation rules (see
+ * `services/sheetsValidationRules`), then sends the structural requests in one
+ * `spreadsheets.batchUpdate` and the values in one `values:batchUpdate`.
+ *
+ * @example
+ * ```ts
+ * const plan = planBootstrap('Vendors', { sheets, headerRow, metadataRows });
+ * if (plan.requests.length > 0) await batchUpdate(plan.requests);
+ * if (plan.values.length > 0) await batchUpdateValues(plan.values);
+ * console.info(plan.result.migrations);
+ * ```
+ */
+
+import type { InitializeResult } from '../types/vendor';
+import { SHEET_COLUMNS } from '../constants/vendor';
+import {
+  DEFAULT_HEADER_ROW,
+  createColumnMap,
+  normalizeHeader,
+  type CellValue,
+  type ColumnMap,
+} from './sheetColumns';
+import { columnLetter } from '../utils/a1Notation';
+
+// ─── Migrations ───────────────────────────────────────────────────────────────
+
+/**
+ * A change to the worksheet's header row.
+ */
+export interface SchemaMigration {
+  /** Schema version after this migration; one more than the previous migration */
+  version: number;
+  /** What the migration does, for logs */
+  description: string;
+  /** Columns appended to the header row, unless already present */
+  addColumns?: string[];
+  /** Header renames, old name → new name; skipped when the old name is absent */
+  renameColumns?: Record<string, string>;
+}
+
+/** All migrations, oldest first */
+export const SCHEMA_MIGRATIONS: readonly SchemaMigration[] = [
+  { version: 1, description: 'Add VendorId column', addColumns: [SHEET_COLUMNS.VENDOR_ID] },
+  { version: 2, description: 'Add Revision column', addColumns: [SHEET_COLUMNS.REVISION] },
+];
+
+/** Schema version of a worksheet with all migrations applied */
+export const SCHEMA_VERSION = SCHEMA_MIGRATIONS.at(-1)?.version ?? 0;
+
+/**
+ * Applies the migrations newer than `fromVersion` to a header row.
+ *
+ * @param headerRow - Current header row
+ * @param fromVersion - Schema version recorded for the worksheet
+ * @param migrations - Migrations to choose from, oldest first
+ * @returns The migrated header row, whether it differs, and the migrations applied
+ */
+export function migrateHeader(
+  headerRow: CellValue[],
+  fromVersion: number,
+  migrations: readonly SchemaMigration[] = SCHEMA_MIGRATIONS
+): { headers: string[]; changed: boolean; applied: SchemaMigration[] } {
+  const headers = headerRow.map((header) => String(header ?? ''));
+  const indexOf = (name: string) =>
+    headers.findIndex((header) => normalizeHeader(header) === normalizeHeader(name));
+  const applied = migrations.filter((migration) => migration.version > fromVersion);
+  let changed = false;
+
+  applied.forEach((migration) => {
+    Object.entries(migration.renameColumns ?? {}).forEach(([from, to]) => {
+      const index = indexOf(from);
+      if (index !== -1 && indexOf(to) === -1) {
+        headers[index] = to;
+        changed = true;
+      }
+    });
+    migration.addColumns?.forEach((column) => {
+      if (indexOf(column) === -1) {
+        headers.push(column);
+        changed = true;
+      }
+    });
+  });
+
+  return { headers, changed, applied };
+}
+
+// ─── Metadata Tab ─────────────────────────────────────────────────────────────
+
+/** Title of the hidden tab holding per-worksheet metadata */
+export const METADATA_SHEET = '_VendorPortal';
+
+/** Header row of the metadata tab */
+export const METADATA_HEADER: readonly string[] = ['Worksheet', 'Key', 'Value', 'UpdatedAt'];
+
+/** Keys stored in the metadata tab */
+export const METADATA_KEYS = {
+  SCHEMA_VERSION: 'schemaVersion',
+  /** Fingerprint of the data validation rules last applied (see `services/sheetsValidationRules`) */
+  VALIDATION_FINGERPRINT: 'validationFingerprint',
+  /** Comma-separated indexes of the columns those rules were applied to */
+  VALIDATED_COLUMNS: 'validatedColumns',
+} as const;
+
+/** A values write within one tab, with an A1 range relative to that tab */
+export interface SheetValuesWrite {
+  sheet: string;
+  range: string;
+  values: CellValue[][];
+}
+
+/**
+ * Key/value entries of the metadata tab, by worksheet.
+ */
+export interface MetadataTable {
+  /** The stored value, or undefined when the key is not set for the worksheet */
+  get(worksheet: string, key: string): string | undefined;
+  /** Sets a value; returns the write that stores it (a new row when the key is new) */
+  set(worksheet: string, key: string, value: string, updatedAt?: Date): SheetValuesWrite;
+}
+
+/**
+ * Reads the metadata tab's rows (including its header row).
+ *
+ * @param rows - Values of the metadata tab; empty for a new tab
+ * @returns MetadataTable instance
+ */
+export function createMetadataTable(rows: CellValue[][]): MetadataTable {
+  const entries = new Map<string, { value: string; row: number }>();
+  const entryKey = (worksheet: string, key: string) => JSON.stringify([worksheet, key]);
+  let nextRow = Math.max(rows.length, 1) + 1;
+
+  rows.slice(1).forEach(([worksheet, key, value], index) => {
+    if (worksheet !== undefined && key !== undefined) {
+      entries.set(entryKey(String(worksheet), String(key)), { value: String(value ?? ''), row: index + 2 });
+    }
+  });
+
+  return {
+    get: (worksheet, key) => entries.get(entryKey(worksheet, key))?.value,
+    set(worksheet, key, value, updatedAt = new Date()) {
+      const existing = entries.get(entryKey(worksheet, key));
+      const row = existing?.row ?? nextRow++;
+      entries.set(entryKey(worksheet, key), { value, row });
+      return {
+        sheet: METADATA_SHEET,
+        range: `A${row}:${columnLetter(METADATA_HEADER.length - 1)}${row}`,
+        values: [[worksheet, key, value, updatedAt.toISOString()]],
+      };
+    },
+  };
+}
+
+// ─── Planning ─────────────────────────────────────────────────────────────────
+
+/** Description of the header row protection added by the bootstrap */
+export const HEADER_PROTECTION = 'Vendor header row: columns are matched by name';
+
+/** Description of the metadata tab protection */
+const METADATA_PROTECTION = 'Vendor Management Portal metadata';
+
+/**
+ * A sheet as returned by `spreadsheets.get` with `fields=sheets(properties(sheetId,title,
+ * gridProperties.frozenRowCount),protectedRanges(description),conditionalFormats(booleanRule(condition(values))))`.
+ */
+export interface SheetInfo {
+  properties: {
+    sheetId: number;
+    title: string;
+    gridProperties?: { frozenRowCount?: number };
+  };
+  protectedRanges?: { description?: string }[];
+  conditionalFormats?: { booleanRule?: { condition?: { values?: { userEnteredValue?: string }[] } } }[];
+}
+
+/** What the service read before planning */
+export interface SpreadsheetState {
+  /** All sheets of the spreadsheet */
+  sheets: SheetInfo[];
+  /** First row of the worksheet; empty when it is missing */
+  headerRow: CellValue[];
+  /** Values of the metadata tab; empty when it is missing */
+  metadataRows: CellValue[][];
+}
+
+/** `spreadsheets.batchUpdate` request */
+export type SheetsBatchRequest = Record<string, unknown>;
+
+/** Changes that prepare a worksheet */
+export interface BootstrapPlan {
+  /** Structural requests for one `spreadsheets.batchUpdate`, to send first */
+  requests: SheetsBatchRequest[];
+  /** Value writes for one `values:batchUpdate` */
+  values: SheetValuesWrite[];
+  /** Outcome once both are applied */
+  result: Omit<InitializeResult, 'validationUpdated'>;
+  /** The worksheet as it will be (as read, or as added by `requests`) */
+  worksheet: SheetInfo;
+  /** Column map of the migrated header row */
+  columns: ColumnMap;
+  /** Metadata tab, with the writes in `values` applied */
+  metadata: MetadataTable;
+}
+
+/** Requests that freeze a sheet's first row and protect its first `rows` rows (all with null), unless already done */
+function lockRows(
+  sheet: SheetInfo['properties'],
+  protections: string[],
+  rows: number | null,
+  description: string
+): SheetsBatchRequest[] {
+  const requests: SheetsBatchRequest[] = [];
+  if ((sheet.gridProperties?.frozenRowCount ?? 0) < 1) {
+    requests.push({
+      updateSheetProperties: {
+        properties: { sheetId: sheet.sheetId, gridProperties: { frozenRowCount: 1 } },
+        fields: 'gridProperties.frozenRowCount',
+      },
+    });
+  }
+  if (!protections.includes(description)) {
+    const range =
+      rows === null ? { sheetId: sheet.sheetId } : { sheetId: sheet.sheetId, startRowIndex: 0, endRowIndex: rows };
+    requests.push({ addProtectedRange: { protectedRange: { range, description, warningOnly: true } } });
+  }
+  return requests;
+}
+
+/**
+ * Plans the setup and migration of a worksheet.
+ *
+ * @param worksheetName - Title of the vendor worksheet
+ * @param state - Current spreadsheet state
+ * @param migrations - Schema migrations, oldest first
+ * @param now - Time recorded with metadata changes
+ * @returns The requests to send (none when the worksheet is ready) and their outcome
+ * @throws Error when the migrated header row lacks required columns
+ */
+export function planBootstrap(
+  worksheetName: string,
+  state: SpreadsheetState,
+  migrations: readonly SchemaMigration[] = SCHEMA_MIGRATIONS,
+  now: Date = new Date()
+): BootstrapPlan {
+  const requests: SheetsBatchRequest[] = [];
+  const values: SheetValuesWrite[] = [];
+  const latestVersion = migrations.at(-1)?.version ?? 0;
+  let nextSheetId = Math.max(-1, ...state.sheets.map((sheet) => sheet.properties.sheetId)) + 1;
+
+  const protectionsOf = (sheet: SheetInfo) =>
+    (sheet.protectedRanges ?? []).map((range) => range.description ?? '');
+
+  /** Finds a sheet, or plans adding it; new sheets get their ID up front so later requests can address them */
+  const ensureSheet = (title: string, hidden: boolean) => {
+    const existing = state.sheets.find((sheet) => sheet.properties.title === title);
+    if (existing) return { info: existing, protections: protectionsOf(existing), created: false };
+
+    const properties = { sheetId: nextSheetId++, title };
+    requests.push({ addSheet: { properties: hidden ? { ...properties, hidden } : properties } });
+    return { info: { properties }, protections: [], created: true };
+  };
+
+  // Worksheet, with a frozen, protected header row
+  const worksheet = ensureSheet(worksheetName, false);
+  requests.push(...lockRows(worksheet.info.properties, worksheet.protections, 1, HEADER_PROTECTION));
+
+  // Metadata tab, protected as a whole
+  const metadataSheet = ensureSheet(METADATA_SHEET, true);
+  requests.push(...lockRows(metadataSheet.info.properties, metadataSheet.protections, null, METADATA_PROTECTION));
+  if (state.metadataRows.length === 0) {
+    values.push({ sheet: METADATA_SHEET, range: `A1:${columnLetter(METADATA_HEADER.length - 1)}1`, values: [[...METADATA_HEADER]] });
+  }
+  const metadata = createMetadataTable(state.metadataRows);
+  const storedVersion = Number(metadata.get(worksheetName, METADATA_KEYS.SCHEMA_VERSION) ?? 0) || 0;
+
+  // Header row: written in full for an empty sheet, otherwise migrated
+  const isEmpty = state.headerRow.every((header) => normalizeHeader(header) === '');
+  const migrated = isEmpty
+    ? { headers: [...DEFAULT_HEADER_ROW], changed: true, applied: [] }
+    : migrateHeader(state.headerRow, storedVersion, migrations);
+  const columns = createColumnMap(migrated.headers, worksheetName);
+
+  if (migrated.changed) {
+    values.push({
+      sheet: worksheetName,
+      range: `A1:${columnLetter(migrated.headers.length - 1)}1`,
+      values: [migrated.headers],
+    });
+  }
+
+  // Never downgrade a version recorded by a newer release
+  const schemaVersion = Math.max(storedVersion, latestVersion);
+  if (metadata.get(worksheetName, METADATA_KEYS.SCHEMA_VERSION) !== String(schemaVersion)) {
+    values.push(metadata.set(worksheetName, METADATA_KEYS.SCHEMA_VERSION, String(schemaVersion), now));
+  }
+
+  return {
+    requests,
+    values,
+    result: {
+      createdWorksheet: worksheet.created,
+      headerWritten: migrated.changed,
+      migrations: migrated.applied.map((migration) => migration.description),
+      schemaVersion,
+    },
+    worksheet: worksheet.info,
+    columns,
+    metadata,
+  };
+}
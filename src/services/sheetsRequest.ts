@@ -0,0 +1,225 @@
+/**
+ * @module services/sheetsRequest
+ * @description Resilient request pipeline for the Google Sheets API.
+ *
+ * Wraps each request with:
+ * - a per-attempt timeout (via `AbortController`)
+ * - retries with exponential backoff and full jitter, honouring `Retry-After`
+ * - a circuit breaker that fails fast while the API keeps failing
+ *
+ * Only idempotent reads are retried after 5xx errors, timeouts and network
+ * failures by default; writes are retried only on 429, which means the
+ * request was rejected without being applied.
+ *
+ * The pipeline publishes its {@link ConnectionState}, so the UI can say
+ * "temporarily unavailable, retrying" instead of reporting a hard failure.
+ *
+ * @example
+ * ```ts
+ * const pipeline = createRequestPipeline({ retry: { maxRetries: 5 } });
+ * const response = await pipeline.send((signal) => fetch(url, { signal }), { idempotent: true });
+ * pipeline.subscribe(() => console.log(pipeline.getState().status));
+ * ```
+ */
+
+import type {
+  RetryPolicy,
+  CircuitBreakerOptions,
+  ConnectionState,
+} from '../types/vendor';
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10_000,
+  timeoutMs: 15_000,
+  retryWrites: false,
+};
+
+export const DEFAULT_CIRCUIT_BREAKER: CircuitBreakerOptions = {
+  failureThreshold: 5,
+  resetTimeoutMs: 30_000,
+};
+
+/** HTTP statuses treated as transient */
+const TRANSIENT_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+/** Options for a single request */
+export interface RequestOptions {
+  /** Whether repeating the request is harmless (reads) */
+  idempotent: boolean;
+}
+
+/** Observable connection health of a data source */
+export interface ConnectionMonitor {
+  /** Current connection state (stable reference until the next change) */
+  getState(): ConnectionState;
+  /** Subscribe to connection state changes; returns an unsubscribe function */
+  subscribe(listener: () => void): () => void;
+}
+
+/** Request pipeline with observable connection state */
+export interface RequestPipeline extends ConnectionMonitor {
+  /**
+   * Sends a request, retrying transient failures per the retry policy.
+   * Resolves with the final response (which may still be an error status);
+   * rejects on timeout, network failure or while the circuit is open.
+   */
+  send(request: (signal: AbortSignal) => Promise<Response>, options: RequestOptions): Promise<Response>;
+}
+
+/** Thrown when a request is refused because the circuit breaker is open */
+export class CircuitOpenError extends Error {
+  readonly retryAt: number;
+
+  constructor(retryAt: number) {
+    super('Google Sheets is temporarily unavailable; retrying shortly');
+    this.name = 'CircuitOpenError';
+    this.retryAt = retryAt;
+  }
+}
+
+/** Thrown when an attempt exceeds the per-request timeout */
+export class RequestTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Google Sheets did not respond within ${Math.round(timeoutMs / 1000)}s`);
+    this.name = 'RequestTimeoutError';
+  }
+}
+
+/**
+ * Parses a `Retry-After` header (seconds or HTTP date) into milliseconds.
+ *
+ * @returns Delay in milliseconds, or null when absent or unparseable
+ */
+export function parseRetryAfter(header: string | null, now: number = Date.now()): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/** Exponential backoff with full jitter for the given (zero-based) retry */
+function backoffDelay(policy: RetryPolicy, retry: number): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** retry);
+  return Math.random() * ceiling;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Creates a request pipeline.
+ *
+ * @param options - Overrides for the retry policy and circuit breaker
+ * @returns RequestPipeline instance
+ */
+export function createRequestPipeline(
+  options: { retry?: Partial<RetryPolicy>; circuitBreaker?: Partial<CircuitBreakerOptions> } = {}
+): RequestPipeline {
+  const policy: RetryPolicy = { ...DEFAULT_RETRY_POLICY, ...options.retry };
+  const breaker: CircuitBreakerOptions = { ...DEFAULT_CIRCUIT_BREAKER, ...options.circuitBreaker };
+
+  const listeners = new Set<() => void>();
+  let state: ConnectionState = { status: 'online' };
+  let consecutiveFailures = 0;
+  let openUntil = 0;
+  /** Set while the single half-open trial request is in flight */
+  let trialInFlight = false;
+
+  function setState(next: ConnectionState): void {
+    if (next.status === state.status && next.retryAt === state.retryAt) return;
+    state = next;
+    listeners.forEach((listener) => listener());
+  }
+
+  /** Throws if the circuit is open; lets one trial request through once it may close */
+  function admit(): boolean {
+    if (openUntil === 0) return false;
+    if (Date.now() < openUntil || trialInFlight) {
+      throw new CircuitOpenError(openUntil);
+    }
+    trialInFlight = true;
+    return true;
+  }
+
+  function recordSuccess(): void {
+    consecutiveFailures = 0;
+    openUntil = 0;
+    setState({ status: 'online' });
+  }
+
+  function recordFailure(): void {
+    consecutiveFailures++;
+    if (openUntil !== 0 || consecutiveFailures >= breaker.failureThreshold) {
+      openUntil = Date.now() + breaker.resetTimeoutMs;
+      setState({ status: 'unavailable', retryAt: openUntil });
+    }
+  }
+
+  /** Runs one attempt with a timeout; network errors and timeouts reject */
+  async function attempt(request: (signal: AbortSignal) => Promise<Response>): Promise<Response> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), policy.timeoutMs);
+    try {
+      return await request(controller.signal);
+    } catch (error) {
+      if (controller.signal.aborted) throw new RequestTimeoutError(policy.timeoutMs);
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  async function send(
+    request: (signal: AbortSignal) => Promise<Response>,
+    { idempotent }: RequestOptions
+  ): Promise<Response> {
+    for (let retry = 0; ; retry++) {
+      const isTrial = admit();
+      let response: Response | null = null;
+      let failure: unknown = null;
+
+      try {
+        response = await attempt(request);
+      } catch (error) {
+        failure = error;
+      } finally {
+        if (isTrial) trialInFlight = false;
+      }
+
+      const isTransient = failure !== null || TRANSIENT_STATUSES.has(response!.status);
+      if (!isTransient) {
+        recordSuccess();
+        return response!;
+      }
+
+      recordFailure();
+
+      // A 429 was rejected before being applied, so even writes can be repeated
+      const canRetry =
+        retry < policy.maxRetries &&
+        state.status !== 'unavailable' &&
+        (idempotent || policy.retryWrites || response?.status === 429);
+
+      if (!canRetry) {
+        if (state.status === 'retrying') setState({ status: 'online' });
+        if (failure !== null) throw failure;
+        return response!;
+      }
+
+      setState({ status: 'retrying' });
+      const retryAfter = parseRetryAfter(response?.headers.get('Retry-After') ?? null);
+      await sleep(Math.min(policy.maxDelayMs, retryAfter ?? backoffDelay(policy, retry)));
+    }
+  }
+
+  return {
+    send,
+    getState: () => state,
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+}
@@ -0,0 +1,217 @@
+/**
+ * @module services/sheetsValidationRules
+ * @description Data validation and conditional formatting applied to the
+ * vendor worksheet, so people editing the sheet directly get the same rules
+ * as the app's forms.
+ *
+ * - `BusinessType` gets a dropdown of `BUSINESS_TYPES`
+ * - `OnboardingDate` only accepts valid dates
+ * - `YearsInBusiness` only accepts numbers within `YEARS_IN_BUSINESS`
+ * - Rows breaking any of these rules (or without a company name) are
+ *   highlighted, which also catches values entered before the rules existed
+ *
+ * The rules are derived from the constants and the worksheet's column
+ * positions. A fingerprint of them is stored in the metadata tab (see
+ * `services/sheetsBootstrap`); when it no longer matches, e.g. after a new
+ * business type was added, the previous rules are removed and the current
+ * ones applied. Conditional format rules are recognised by a marker in their
+ * formula, so rules added by hand are left alone.
+ *
+ * @example
+ * ```ts
+ * const plan = planValidation({ sheet, columns, metadata, worksheetName: 'Vendors' });
+ * if (plan.changed) await batchUpdate([...plan.requests]);
+ * ```
+ */
+
+import { BUSINESS_TYPES, YEARS_IN_BUSINESS, SHEET_COLUMNS } from '../constants/vendor';
+import { fnv1a } from '../utils/hash';
+import type { ColumnMap } from './sheetColumns';
+import {
+  METADATA_KEYS,
+  type MetadataTable,
+  type SheetInfo,
+  type SheetsBatchRequest,
+  type SheetValuesWrite,
+} from './sheetsBootstrap';
+
+/** Part of every conditional format formula this module writes; evaluates to 0 */
+const FORMULA_MARKER = 'N("vendor-portal")=0';
+
+/** Background of highlighted rows */
+const INVALID_ROW_COLOR = { red: 0.99, green: 0.87, blue: 0.87 };
+
+/** A data validation rule for one column, from row 2 down */
+interface ColumnRule {
+  column: number;
+  rule: Record<string, unknown>;
+}
+
+/** Quotes text as a formula string literal */
+function formulaText(text: string): string {
+  return `"${text.replace(/"/g, '""')}"`;
+}
+
+/** Data validation rules for the vendor columns */
+function columnRules(columns: ColumnMap): ColumnRule[] {
+  return [
+    {
+      column: columns.indexOf(SHEET_COLUMNS.BUSINESS_TYPE),
+      rule: {
+        condition: {
+          type: 'ONE_OF_LIST',
+          values: BUSINESS_TYPES.map((type) => ({ userEnteredValue: type })),
+        },
+        strict: true,
+        showCustomUi: true,
+      },
+    },
+    {
+      column: columns.indexOf(SHEET_COLUMNS.ONBOARDING_DATE),
+      rule: {
+        condition: { type: 'DATE_IS_VALID' },
+        inputMessage: 'Enter a date, e.g. 2024-01-31',
+        strict: true,
+      },
+    },
+    {
+      column: columns.indexOf(SHEET_COLUMNS.YEARS_IN_BUSINESS),
+      rule: {
+        condition: {
+          type: 'NUMBER_BETWEEN',
+          values: [
+            { userEnteredValue: String(YEARS_IN_BUSINESS.MIN) },
+            { userEnteredValue: String(YEARS_IN_BUSINESS.MAX) },
+          ],
+        },
+        inputMessage: `Enter whole years from ${YEARS_IN_BUSINESS.MIN} to ${YEARS_IN_BUSINESS.MAX}`,
+        strict: true,
+      },
+    },
+  ];
+}
+
+/**
+ * Formula for the first data row that is true when the row breaks a rule.
+ * Cell references are relative to row 2, so Sheets applies it to each row.
+ */
+function invalidRowFormula(columns: ColumnMap): string {
+  const cell = (field: (typeof SHEET_COLUMNS)[keyof typeof SHEET_COLUMNS]) => `$${columns.columnOf(field)}2`;
+  const name = cell(SHEET_COLUMNS.COMPANY_NAME);
+  const type = cell(SHEET_COLUMNS.BUSINESS_TYPE);
+  const years = cell(SHEET_COLUMNS.YEARS_IN_BUSINESS);
+  const date = cell(SHEET_COLUMNS.ONBOARDING_DATE);
+  const knownType = BUSINESS_TYPES.map((value) => `${type}=${formulaText(value)}`).join(',');
+  const { MIN, MAX } = YEARS_IN_BUSINESS;
+
+  return (
+    `=AND(${FORMULA_MARKER},COUNTA($A2:$${columns.lastColumn}2)>0,OR(` +
+    [
+      `LEN(TRIM(${name}))=0`,
+      `NOT(OR(${knownType}))`,
+      `NOT(ISNUMBER(${date}))`,
+      `IF(ISNUMBER(${years}),OR(${years}<${MIN},${years}>${MAX},${years}<>INT(${years})),TRUE)`,
+    ].join(',') +
+    '))'
+  );
+}
+
+/** Whether a conditional format rule was written by this module */
+function isOwnFormat(format: NonNullable<SheetInfo['conditionalFormats']>[number]): boolean {
+  return (
+    format.booleanRule?.condition?.values?.some((value) =>
+      value.userEnteredValue?.includes(FORMULA_MARKER)
+    ) ?? false
+  );
+}
+
+/** Input for {@link planValidation} */
+export interface ValidationInput {
+  /** The worksheet, with its conditional formats as read (absent for a new sheet) */
+  sheet: SheetInfo;
+  /** Column map of the (migrated) header row */
+  columns: ColumnMap;
+  /** Metadata tab, holding the fingerprint of the applied rules */
+  metadata: MetadataTable;
+  worksheetName: string;
+  /** Time recorded with the fingerprint */
+  now?: Date;
+}
+
+/** Changes that bring the worksheet's rules up to date */
+export interface ValidationPlan {
+  /** Whether the rules need (re)applying; everything else is empty when not */
+  changed: boolean;
+  /** Requests for `spreadsheets.batchUpdate` */
+  requests: SheetsBatchRequest[];
+  /** Metadata writes recording the applied rules */
+  values: SheetValuesWrite[];
+}
+
+/**
+ * Plans applying the data validation and conditional formatting rules,
+ * replacing those applied by an earlier version.
+ *
+ * @returns The requests to send, or `changed: false` when the sheet is up to date
+ */
+export function planValidation({ sheet, columns, metadata, worksheetName, now }: ValidationInput): ValidationPlan {
+  const { sheetId } = sheet.properties;
+  const rules = columnRules(columns);
+  const formula = invalidRowFormula(columns);
+  const fingerprint = fnv1a(JSON.stringify({ rules, formula }));
+
+  const formats = sheet.conditionalFormats ?? [];
+  const applied = formats.some(isOwnFormat);
+  if (applied && metadata.get(worksheetName, METADATA_KEYS.VALIDATION_FINGERPRINT) === fingerprint) {
+    return { changed: false, requests: [], values: [] };
+  }
+
+  const columnRange = (column: number) => ({
+    sheetId,
+    startRowIndex: 1,
+    startColumnIndex: column,
+    endColumnIndex: column + 1,
+  });
+  const previousColumns = (metadata.get(worksheetName, METADATA_KEYS.VALIDATED_COLUMNS) ?? '')
+    .split(',')
+    .filter((column) => /^\d+$/.test(column))
+    .map(Number);
+
+  const requests: SheetsBatchRequest[] = [
+    // Previous rules, highest index first so the others keep their index
+    ...formats
+      .map((format, index) => ({ format, index }))
+      .filter(({ format }) => isOwnFormat(format))
+      .reverse()
+      .map(({ index }) => ({ deleteConditionalFormatRule: { sheetId, index } })),
+    // Without a rule, setDataValidation clears the range
+    ...previousColumns.map((column) => ({ setDataValidation: { range: columnRange(column) } })),
+    ...rules.map(({ column, rule }) => ({ setDataValidation: { range: columnRange(column), rule } })),
+    {
+      addConditionalFormatRule: {
+        index: 0,
+        rule: {
+          ranges: [{ sheetId, startRowIndex: 1, startColumnIndex: 0, endColumnIndex: columns.width }],
+          booleanRule: {
+            condition: { type: 'CUSTOM_FORMULA', values: [{ userEnteredValue: formula }] },
+            format: { backgroundColor: INVALID_ROW_COLOR },
+          },
+        },
+      },
+    },
+  ];
+
+  return {
+    changed: true,
+    requests,
+    values: [
+      metadata.set(worksheetName, METADATA_KEYS.VALIDATION_FINGERPRINT, fingerprint, now),
+      metadata.set(
+        worksheetName,
+        METADATA_KEYS.VALIDATED_COLUMNS,
+        rules.map(({ column }) => column).join(','),
+        now
+      ),
+    ],
+  };
+}
@@ -0,0 +1,149 @@
+/**
+ * @module services/vendorCache
+ * @description Last-known vendor list, kept in memory and in localStorage.
+ *
+ * `useVendors` renders the cached list immediately on mount and revalidates
+ * it against the data source in the background (stale-while-revalidate).
+ * Successful mutations are written into the cache directly, so the list stays
+ * current without a refetch.
+ *
+ * - The memory layer is shared by all caches with the same storage key, so a
+ *   remounted hook does not parse the stored JSON again
+ * - The persistent layer survives page reloads; a full quota only disables it
+ * - Entries are stale once older than the TTL; stale entries are still
+ *   returned, and it is up to the caller to revalidate them
+ *
+ * The TTL defaults to five minutes and can be set in seconds with
+ * `VITE_VENDOR_CACHE_TTL_SECONDS`.
+ *
+ * @example
+ * ```ts
+ * const cache = createVendorCache({ ttlMs: 60_000 });
+ * const cached = cache.read();
+ * if (!cached || cache.isStale(cached)) {
+ *   const result = await service.fetchVendors();
+ *   if (result.success) cache.write(result.data!, result.issues ?? []);
+ * }
+ * ```
+ */
+
+import type { Vendor, VendorIssue } from '../types/vendor';
+
+/** A cached vendor list */
+export interface CachedVendors {
+  /** Vendors as last read, with later local mutations applied */
+  vendors: Vendor[];
+  /** Data issues reported by the last read */
+  issues: VendorIssue[];
+  /** When the list was last read from the data source (epoch milliseconds) */
+  syncedAt: number;
+}
+
+/** Two-layer (memory and localStorage) cache of the vendor list */
+export interface VendorCache {
+  /** How long a read stays fresh, in milliseconds */
+  readonly ttlMs: number;
+  /** The cached list, or null when nothing is cached */
+  read(): CachedVendors | null;
+  /** Replaces the cached list with a fresh read */
+  write(vendors: Vendor[], issues: VendorIssue[]): CachedVendors;
+  /** Adds or replaces one vendor, e.g. with the result of a mutation */
+  upsert(vendor: Vendor): CachedVendors | null;
+  /** Removes one vendor after it was deleted */
+  remove(vendorId: string): CachedVendors | null;
+  /** Whether an entry is older than the TTL */
+  isStale(entry: CachedVendors, now?: number): boolean;
+  /** Drops the cached list from both layers */
+  clear(): void;
+}
+
+/** Options for {@link createVendorCache} */
+export interface VendorCacheOptions {
+  /** localStorage key (default: `vendor-management-cache`) */
+  storageKey?: string;
+  /** Freshness period in milliseconds (default: `VITE_VENDOR_CACHE_TTL_SECONDS` or five minutes) */
+  ttlMs?: number;
+}
+
+export const DEFAULT_CACHE_KEY = 'vendor-management-cache';
+
+const DEFAULT_TTL_MS = 5 * 60_000;
+
+/** Format version of the persisted entry; entries in any other format are ignored */
+const CACHE_FORMAT = 1;
+
+/** Memory layer, by storage key */
+const memory = new Map<string, CachedVendors>();
+
+/** TTL configured through the environment, if any */
+function configuredTtl(): number | undefined {
+  const raw = import.meta.env.VITE_VENDOR_CACHE_TTL_SECONDS;
+  const seconds = Number(raw);
+  return raw && Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : undefined;
+}
+
+/**
+ * Creates a vendor cache.
+ *
+ * @param options - Storage key and TTL
+ * @returns VendorCache instance
+ */
+export function createVendorCache(options: VendorCacheOptions = {}): VendorCache {
+  const storageKey = options.storageKey ?? DEFAULT_CACHE_KEY;
+  const ttlMs = options.ttlMs ?? configuredTtl() ?? DEFAULT_TTL_MS;
+
+  function load(): CachedVendors | null {
+    try {
+      const stored = JSON.parse(localStorage.getItem(storageKey) || 'null');
+      if (stored?.format !== CACHE_FORMAT || !Array.isArray(stored.vendors)) return null;
+      return { vendors: stored.vendors, issues: stored.issues ?? [], syncedAt: stored.syncedAt };
+    } catch {
+      return null;
+    }
+  }
+
+  function save(entry: CachedVendors): CachedVendors {
+    memory.set(storageKey, entry);
+    try {
+      localStorage.setItem(storageKey, JSON.stringify({ format: CACHE_FORMAT, ...entry }));
+    } catch {
+      // Quota exceeded or storage disabled: the memory layer still serves this session
+    }
+    return entry;
+  }
+
+  function read(): CachedVendors | null {
+    const cached = memory.get(storageKey) ?? load();
+    if (cached) memory.set(storageKey, cached);
+    return cached;
+  }
+
+  /** Applies a change to the cached vendors; issues of the changed vendor no longer apply */
+  function patch(vendorId: string, change: (vendors: Vendor[]) => Vendor[]): CachedVendors | null {
+    const cached = read();
+    if (!cached) return null;
+    return save({
+      vendors: change(cached.vendors),
+      issues: cached.issues.filter((issue) => issue.vendorId !== vendorId),
+      syncedAt: cached.syncedAt,
+    });
+  }
+
+  return {
+    ttlMs,
+    read,
+    write: (vendors, issues) => save({ vendors, issues, syncedAt: Date.now() }),
+    upsert: (vendor) =>
+      patch(vendor.VendorId, (vendors) =>
+        vendors.some((v) => v.VendorId === vendor.VendorId)
+          ? vendors.map((v) => (v.VendorId === vendor.VendorId ? vendor : v))
+          : [...vendors, vendor]
+      ),
+    remove: (vendorId) => patch(vendorId, (vendors) => vendors.filter((v) => v.VendorId !== vendorId)),
+    isStale: (entry, now = Date.now()) => now - entry.syncedAt >= ttlMs,
+    clear() {
+      memory.delete(storageKey);
+      localStorage.removeItem(storageKey);
+    },
+  };
+}
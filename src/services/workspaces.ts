@@ -0,0 +1,171 @@
+/**
+ * @module services/workspaces
+ * @description Named vendor lists (worksheets, possibly in different
+ * spreadsheets) that users switch between at runtime.
+ *
+ * Workspaces are configured at build time with `VITE_WORKSPACES`, a JSON array
+ * of `{ id?, name, spreadsheetId?, worksheetName? }`. `spreadsheetId` defaults
+ * to `VITE_GOOGLE_SHEETS_SPREADSHEET_ID` and `worksheetName` to `Vendors`, so
+ * regions sharing one spreadsheet only need a name and a tab:
+ *
+ * ```
+ * VITE_WORKSPACES=[{"name":"EMEA","worksheetName":"EMEA"},{"name":"APAC","spreadsheetId":"1abc…"}]
+ * ```
+ *
+ * Without it there is a single default workspace built from
+ * `VITE_GOOGLE_SHEETS_SPREADSHEET_ID` and `VITE_GOOGLE_SHEETS_WORKSHEET`.
+ * The selected workspace is remembered in localStorage.
+ *
+ * @example
+ * ```ts
+ * const store = createWorkspaceStore(configuredWorkspaces());
+ * store.select('apac');
+ * const service = createVendorService(store.getCurrent());
+ * ```
+ */
+
+import type { Workspace } from '../types/vendor';
+
+/** ID of the workspace used when none are configured; its data keeps the unscoped storage keys */
+export const DEFAULT_WORKSPACE_ID = 'default';
+
+const DEFAULT_WORKSHEET = 'Vendors';
+
+const DEFAULT_SELECTION_KEY = 'vendor-management-workspace';
+
+/** Subscribable list of workspaces with the current selection */
+export interface WorkspaceStore {
+  /** All workspaces, in configured order */
+  getWorkspaces(): Workspace[];
+  /** The selected workspace (stable reference until the selection changes) */
+  getCurrent(): Workspace;
+  /** Select a workspace by ID and remember it; unknown IDs are ignored */
+  select(id: string): void;
+  /** Subscribe to selection changes; returns an unsubscribe function */
+  subscribe(listener: () => void): () => void;
+}
+
+/** Derives an ID from a workspace name, e.g. `North America` → `north-america` */
+function slugify(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+/**
+ * Parses a `VITE_WORKSPACES` value. Entries without a name, without a
+ * spreadsheet (and no default) or with a repeated ID are skipped with a
+ * warning; unparseable JSON yields no workspaces.
+ *
+ * @param json - JSON array of workspace entries
+ * @param defaultSpreadsheetId - Spreadsheet for entries that name none
+ */
+export function parseWorkspaces(json: string, defaultSpreadsheetId?: string): Workspace[] {
+  let entries: unknown;
+  try {
+    entries = JSON.parse(json);
+  } catch {
+    console.warn('Ignoring VITE_WORKSPACES: not valid JSON');
+    return [];
+  }
+  if (!Array.isArray(entries)) {
+    console.warn('Ignoring VITE_WORKSPACES: expected a JSON array');
+    return [];
+  }
+
+  const workspaces: Workspace[] = [];
+  entries.forEach((entry: Partial<Workspace> | null, index) => {
+    const name = typeof entry?.name === 'string' ? entry.name.trim() : '';
+    const spreadsheetId = entry?.spreadsheetId || defaultSpreadsheetId;
+    const id = entry?.id || slugify(name);
+
+    if (!name || !id) {
+      console.warn(`Ignoring workspace ${index + 1}: it needs a name`);
+    } else if (!spreadsheetId) {
+      console.warn(`Ignoring workspace "${name}": no spreadsheetId and no VITE_GOOGLE_SHEETS_SPREADSHEET_ID`);
+    } else if (workspaces.some((workspace) => workspace.id === id)) {
+      console.warn(`Ignoring workspace "${name}": ID "${id}" is already used`);
+    } else {
+      workspaces.push({ id, name, spreadsheetId, worksheetName: entry?.worksheetName || DEFAULT_WORKSHEET });
+    }
+  });
+  return workspaces;
+}
+
+/**
+ * Workspaces configured through the environment, or the single default
+ * workspace when `VITE_WORKSPACES` is unset or yields none.
+ */
+export function configuredWorkspaces(): Workspace[] {
+  const spreadsheetId = import.meta.env.VITE_GOOGLE_SHEETS_SPREADSHEET_ID || undefined;
+  const configured = import.meta.env.VITE_WORKSPACES
+    ? parseWorkspaces(import.meta.env.VITE_WORKSPACES, spreadsheetId)
+    : [];
+  if (configured.length > 0) return configured;
+
+  const worksheetName = import.meta.env.VITE_GOOGLE_SHEETS_WORKSHEET || DEFAULT_WORKSHEET;
+  return [
+    {
+      id: DEFAULT_WORKSPACE_ID,
+      name: spreadsheetId ? worksheetName : 'Local data',
+      spreadsheetId,
+      worksheetName,
+    },
+  ];
+}
+
+/**
+ * Describes where a workspace's vendors are stored, e.g. for export metadata:
+ * `EMEA (worksheet "EMEA" of spreadsheet 1abc…)`, or just the name for local data.
+ *
+ * @param workspace - The workspace to describe
+ */
+export function describeWorkspace(workspace: Workspace): string {
+  return workspace.spreadsheetId
+    ? `${workspace.name} (worksheet "${workspace.worksheetName}" of spreadsheet ${workspace.spreadsheetId})`
+    : workspace.name;
+}
+
+/**
+ * Storage key for data belonging to a workspace. The default workspace keeps
+ * the unscoped key, so data stored before workspaces existed stays in use.
+ *
+ * @param baseKey - Unscoped localStorage key
+ * @param workspace - Workspace owning the data
+ */
+export function workspaceStorageKey(baseKey: string, workspace: Workspace): string {
+  return workspace.id === DEFAULT_WORKSPACE_ID ? baseKey : `${baseKey}:${workspace.id}`;
+}
+
+/**
+ * Creates a workspace store that remembers the selection in localStorage.
+ *
+ * @param workspaces - Available workspaces (at least one)
+ * @param storageKey - localStorage key for the selected workspace ID
+ * @returns WorkspaceStore instance
+ */
+export function createWorkspaceStore(
+  workspaces: Workspace[],
+  storageKey: string = DEFAULT_SELECTION_KEY
+): WorkspaceStore {
+  const listeners = new Set<() => void>();
+  const remembered = localStorage.getItem(storageKey);
+  let current = workspaces.find((workspace) => workspace.id === remembered) ?? workspaces[0];
+
+  return {
+    getWorkspaces: () => workspaces,
+    getCurrent: () => current,
+    select(id) {
+      const next = workspaces.find((workspace) => workspace.id === id);
+      if (!next || next === current) return;
+      current = next;
+      localStorage.setItem(storageKey, id);
+      listeners.forEach((listener) => listener());
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+}
@@ -25,7 +25,9 @@ export type Product =
  * Maps directly to the Google Sheets columns.
  */
 export interface Vendor {
-  /** Unique company name identifier */
+  /** Stable, generated identifier for the vendor record */
+  VendorId: string;
+  /** Company name (display name; not guaranteed to be unique) */
   CompanyName: string;
   /** Type/category of the business */
   BusinessType: BusinessType;
@@ -37,8 +39,17 @@ export interface Vendor {
   OnboardingDate: string;
   /** Any additional notes or information */
   AdditionalInfo: string;
+  /** Revision stamp, incremented on every write; used for optimistic concurrency */
+  Revision: number;
 }
 
+/**
+ * Vendor data submitted for creation or update.
+ * The data service assigns a `VendorId` when one is not supplied,
+ * and manages `Revision` itself.
+ */
+export type NewVendor = Omit<Vendor, 'VendorId' | 'Revision'> & { VendorId?: string };
+
 /**
  * Form data interface used for vendor form inputs.
  * Products is an array here (before serialization to comma-separated string).
@@ -59,7 +70,8 @@ export type VendorAction =
   | 'onboard'
   | 'update'
   | 'view'
-  | 'delete';
+  | 'delete'
+  | 'import';
 
 /**
  * Alert severity levels for user feedback.
@@ -88,16 +100,212 @@ export interface VendorDataProps {
   onRefresh: () => void;
 }
 
+/**
+ * Authorization material attached to a single Google Sheets API request.
+ */
+export interface SheetsRequestAuth {
+  /** HTTP headers to send (e.g. `Authorization: Bearer ...`) */
+  headers: Record<string, string>;
+  /** Query string parameters to append (e.g. `key=...`) */
+  query: Record<string, string>;
+}
+
+/** Kinds of credentials the Google Sheets service can authenticate with */
+export type SheetsCredentialKind = 'apiKey' | 'oauth' | 'serviceAccount';
+
+/**
+ * Pluggable credential provider used by the Google Sheets service.
+ * Implementations are responsible for caching and refreshing tokens.
+ */
+export interface SheetsCredentialProvider {
+  /** The kind of credentials this provider supplies */
+  readonly kind: SheetsCredentialKind;
+  /** Whether these credentials are allowed to modify the spreadsheet */
+  readonly canWrite: boolean;
+  /** Resolve the auth headers/query for a request, refreshing expired tokens */
+  authorize(): Promise<SheetsRequestAuth>;
+  /** Drop any cached token so the next `authorize()` obtains a fresh one */
+  invalidate(): void;
+}
+
+/**
+ * A named vendor list users can switch to: one worksheet of a spreadsheet.
+ */
+export interface Workspace {
+  /** Stable identifier, used to scope cached data and to remember the selection */
+  id: string;
+  /** Display name, e.g. a region */
+  name: string;
+  /** Spreadsheet holding the list; none means local demo data */
+  spreadsheetId?: string;
+  /** The worksheet/tab holding the list */
+  worksheetName: string;
+}
+
 /**
  * Google Sheets connection configuration.
  */
 export interface GoogleSheetsConfig {
-  /** Google Sheets API key */
-  apiKey: string;
+  /** Google Sheets API key (read-only access, used when no credentials are given) */
+  apiKey?: string;
+  /** Credential provider for authenticated (read/write) access */
+  credentials?: SheetsCredentialProvider;
   /** The spreadsheet ID from the Google Sheets URL */
   spreadsheetId: string;
   /** The name of the worksheet/tab */
   worksheetName: string;
+  /**
+   * Base URL of the Sheets API spreadsheets collection; override to target a
+   * stand-in server (default `https://sheets.googleapis.com/v4/spreadsheets`)
+   */
+  apiBaseUrl?: string;
+  /** Overrides for the request retry policy */
+  retry?: Partial<RetryPolicy>;
+  /** Overrides for the circuit breaker */
+  circuitBreaker?: Partial<CircuitBreakerOptions>;
+  /** Rows fetched per request when reading the worksheet (default 1000) */
+  pageSize?: number;
+  /**
+   * Whether `initialize` applies data validation and highlighting rules to
+   * the worksheet (default true)
+   */
+  dataValidation?: boolean;
+  /**
+   * Base URL of the Drive API files collection, used to check whether the
+   * spreadsheet changed (default `https://www.googleapis.com/drive/v3/files`)
+   */
+  driveApiBaseUrl?: string;
+}
+
+/**
+ * How failed Sheets API requests are retried.
+ */
+export interface RetryPolicy {
+  /** Retries after the first attempt */
+  maxRetries: number;
+  /** Base delay for exponential backoff, in milliseconds */
+  baseDelayMs: number;
+  /** Upper bound for a single backoff delay (including `Retry-After`), in milliseconds */
+  maxDelayMs: number;
+  /** Per-attempt timeout, in milliseconds */
+  timeoutMs: number;
+  /** Also retry writes after 5xx errors, timeouts and network failures (may apply them twice) */
+  retryWrites: boolean;
+}
+
+/**
+ * Circuit breaker settings: after `failureThreshold` consecutive transient
+ * failures, requests fail fast for `resetTimeoutMs` before one is let through.
+ */
+export interface CircuitBreakerOptions {
+  failureThreshold: number;
+  resetTimeoutMs: number;
+}
+
+/**
+ * Health of the connection to a remote data source:
+ * - `online` — requests are succeeding
+ * - `retrying` — a request failed transiently and is being retried
+ * - `unavailable` — the circuit breaker is open; requests fail fast until `retryAt`
+ */
+export type ConnectionStatus = 'online' | 'retrying' | 'unavailable';
+
+/** Current connection status, with the time of the next attempt when unavailable */
+export interface ConnectionState {
+  status: ConnectionStatus;
+  /** Epoch milliseconds after which requests are attempted again */
+  retryAt?: number;
+}
+
+/**
+ * Details of a write rejected because the vendor changed since it was read.
+ */
+export interface VendorConflict {
+  /** The vendor as currently stored, or `null` if it has been deleted */
+  current: Vendor | null;
+}
+
+/**
+ * Category of a failed data service operation:
+ * - `validation` — the vendor data was rejected; see `fields`
+ * - `duplicate` — a vendor with the same ID already exists
+ * - `not_found` — the vendor (or spreadsheet/worksheet) does not exist
+ * - `conflict` — the vendor changed since it was read; see `SheetsApiResponse.conflict`
+ * - `unauthenticated` — credentials are missing, expired or rejected (401)
+ * - `permission_denied` — the credentials may not perform the operation (403)
+ * - `quota_exceeded` — rate limit or quota exhausted (429)
+ * - `unavailable` — the data source is failing or the circuit breaker is open (5xx)
+ * - `timeout` — the data source did not respond in time
+ * - `network` — the request could not be sent (offline, DNS, CORS)
+ * - `invalid_request` — the data source rejected the request as malformed (400)
+ * - `storage` — local storage failed (e.g. browser quota)
+ * - `schema` — the worksheet's header row lacks required columns; see `columns`
+ * - `unknown` — anything else
+ */
+export type ServiceErrorCode =
+  | 'validation'
+  | 'duplicate'
+  | 'not_found'
+  | 'conflict'
+  | 'unauthenticated'
+  | 'permission_denied'
+  | 'quota_exceeded'
+  | 'unavailable'
+  | 'timeout'
+  | 'network'
+  | 'invalid_request'
+  | 'storage'
+  | 'schema'
+  | 'unknown';
+
+/** Per-field error messages, keyed by vendor field */
+export type VendorFieldErrors = Partial<Record<keyof NewVendor, string>>;
+
+interface ServiceErrorBase {
+  /** Human-readable description, suitable for an alert */
+  message: string;
+  /** HTTP status reported by a remote data source, if any */
+  status?: number;
+  /** Whether repeating the operation later may succeed */
+  retryable: boolean;
+}
+
+/**
+ * Structured error returned by data service operations. Validation and
+ * duplicate errors carry the offending fields, schema errors the missing
+ * columns.
+ */
+export type ServiceError =
+  | (ServiceErrorBase & { code: 'validation' | 'duplicate'; fields: VendorFieldErrors })
+  | (ServiceErrorBase & { code: 'schema'; columns: string[] })
+  | (ServiceErrorBase & { code: Exclude<ServiceErrorCode, 'validation' | 'duplicate' | 'schema'> });
+
+/**
+ * Issue severity for stored vendor data:
+ * - `error` — the value is unusable and was replaced (e.g. by an empty value or 0)
+ * - `warning` — the value was kept but does not match the schema
+ */
+export type IssueSeverity = 'error' | 'warning';
+
+/**
+ * A problem found in one cell of a stored vendor record.
+ */
+export interface VendorIssue {
+  /** Sheet row number (1-based, including the header), or record position for local sources */
+  row: number;
+  /** Column letter in the sheet, when known */
+  column?: string;
+  /** Vendor field the cell maps to */
+  field: keyof Vendor;
+  /** The raw value as read */
+  value: string | number | boolean | null | undefined;
+  /** What is wrong with it */
+  message: string;
+  severity: IssueSeverity;
+  /** ID of the affected vendor, once known */
+  vendorId?: string;
+  /** Company name of the affected vendor, for display */
+  companyName?: string;
 }
 
 /**
@@ -106,6 +314,91 @@ export interface GoogleSheetsConfig {
 export interface SheetsApiResponse<T = unknown> {
   success: boolean;
   data?: T;
-  error?: string;
+  error?: ServiceError;
+  /** Set when a conditional write failed because of a concurrent change */
+  conflict?: VendorConflict;
+  /** Problems found while parsing stored records (fetches only) */
+  issues?: VendorIssue[];
+  /** Set on fetches when the data had not changed since the previous fetch */
+  unchanged?: boolean;
+}
+
+/**
+ * Vendors loaded so far by a paged fetch.
+ */
+export interface FetchProgress {
+  /** Vendors from the pages loaded so far, in storage order */
+  vendors: Vendor[];
+  /** Data issues found in those pages */
+  issues: VendorIssue[];
+  /** Number of rows loaded so far */
+  loaded: number;
+}
+
+/**
+ * Options for fetching vendors.
+ */
+export interface FetchVendorsOptions {
+  /** Called after each page of a paged fetch (not called when the data is unchanged) */
+  onPage?: (progress: FetchProgress) => void;
+}
+
+/**
+ * One update in a batch (see `VendorDataService.updateVendors`).
+ */
+export interface VendorUpdateInput {
+  vendorId: string;
+  vendor: NewVendor;
+  /** Only update if the stored revision still matches */
+  expectedRevision?: number;
+}
+
+/**
+ * One delete in a batch (see `VendorDataService.deleteVendors`).
+ */
+export interface VendorDeleteInput {
+  vendorId: string;
+  /** Only delete if the stored revision still matches */
+  expectedRevision?: number;
+}
+
+/**
+ * Outcome of preparing a data source for use (see `VendorDataService.initialize`).
+ */
+export interface InitializeResult {
+  /** Whether the worksheet had to be created */
+  createdWorksheet: boolean;
+  /** Whether the header row was written or changed */
+  headerWritten: boolean;
+  /** Descriptions of the schema migrations applied, in order */
+  migrations: string[];
+  /** Schema version of the worksheet afterwards */
+  schemaVersion: number;
+  /** Whether data validation and highlighting rules were (re)applied */
+  validationUpdated: boolean;
+}
+
+/**
+ * Outcome of an add or update, as reported to components.
+ */
+export interface VendorMutationResult {
+  /** Whether the change was saved (or queued) */
+  success: boolean;
+  /** Why the change was rejected */
+  error?: ServiceError;
+  /** Set when the update was rejected because of a concurrent change */
+  conflict?: VendorConflict;
+}
+
+/**
+ * Outcome of a batch import, as reported to components.
+ */
+export interface VendorImportResult {
+  /** Response for each added vendor, in input order */
+  added: SheetsApiResponse<Vendor>[];
+  /** Response for each overwritten vendor, in input order */
+  updated: SheetsApiResponse<Vendor>[];
+  /** Set when the import was not attempted */
+  error?: ServiceError;
 }
 
@@ -0,0 +1,19 @@
+/**
+ * @module utils/a1Notation
+ * @description A1-notation helpers shared by the Sheets services and the
+ * spreadsheet export.
+ */
+
+/**
+ * Converts a zero-based column index to its A1 letter (0 → A, 26 → AA).
+ *
+ * @param index - Zero-based column index
+ * @returns Column letter(s)
+ */
+export function columnLetter(index: number): string {
+  let letter = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter;
+  }
+  return letter;
+}
@@ -0,0 +1,108 @@
+/**
+ * @module utils/csv
+ * @description CSV serialization and parsing (RFC 4180) with formula-injection protection.
+ *
+ * Text cells are escaped with {@link escapeFormula} before quoting, so an
+ * exported file can be opened in Excel or imported into Sheets without
+ * evaluating vendor-supplied formulas. Numbers are written as-is.
+ *
+ * @example
+ * ```ts
+ * const csv = vendorsToCsv(vendors);
+ * const blob = new Blob([csv], { type: 'text/csv;charset=utf-8' });
+ *
+ * const [header, ...rows] = parseCsv(await file.text());
+ * ```
+ */
+
+import type { Vendor } from '../types/vendor';
+import { SHEET_COLUMNS } from '../constants/vendor';
+import { escapeFormula } from './sanitize';
+
+/** Vendor fields in export column order */
+const CSV_COLUMNS: readonly (keyof Vendor)[] = [
+  SHEET_COLUMNS.VENDOR_ID,
+  SHEET_COLUMNS.COMPANY_NAME,
+  SHEET_COLUMNS.BUSINESS_TYPE,
+  SHEET_COLUMNS.PRODUCTS,
+  SHEET_COLUMNS.YEARS_IN_BUSINESS,
+  SHEET_COLUMNS.ONBOARDING_DATE,
+  SHEET_COLUMNS.ADDITIONAL_INFO,
+];
+
+/**
+ * Formats one CSV field: text is formula-escaped, then quoted when it
+ * contains a comma, quote or line break.
+ *
+ * @param value - Cell value; null and undefined become an empty field
+ */
+export function formatCsvField(value: string | number | boolean | null | undefined): string {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'string' ? escapeFormula(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serializes rows to CSV with CRLF line endings.
+ *
+ * @param rows - Rows of cell values, the first usually being the header
+ */
+export function toCsv(rows: readonly (readonly (string | number | boolean | null | undefined)[])[]): string {
+  return rows.map((row) => row.map(formatCsvField).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Serializes vendors to CSV with a header row of field names.
+ *
+ * @param vendors - Vendors to export, in the desired order
+ */
+export function vendorsToCsv(vendors: readonly Vendor[]): string {
+  return toCsv([CSV_COLUMNS, ...vendors.map((vendor) => CSV_COLUMNS.map((column) => vendor[column]))]);
+}
+
+/**
+ * Parses CSV text into rows of fields. Handles quoted fields with embedded
+ * commas, quotes and line breaks, CRLF or LF line endings and a leading
+ * byte order mark; blank lines are skipped. Values are returned as written,
+ * so formula escapes are still in place (see `utils/sanitize`).
+ *
+ * @param text - CSV text
+ * @param delimiter - Field separator, e.g. `;` for files from some Excel locales
+ * @returns The rows, each an array of field texts
+ */
+export function parseCsv(text: string, delimiter = ','): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char !== '"') field += char;
+      else if (text[i + 1] === '"') field += text[++i];
+      else quoted = false;
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) endRow();
+
+  return rows;
+}
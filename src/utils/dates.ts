@@ -0,0 +1,153 @@
+/**
+ * @module utils/dates
+ * @description Conversion between the date representations vendors pass through.
+ *
+ * Vendors store `OnboardingDate` as an ISO `YYYY-MM-DD` string. Google Sheets
+ * parses such strings into date cells when written with `USER_ENTERED`, and
+ * returns them either as serial numbers (days since 1899-12-30) or as text in
+ * the spreadsheet's locale, e.g. `1/15/2024` or `15.01.2024`. This module
+ * converts all of those back to ISO, so dates round-trip unchanged.
+ *
+ * Dates are calendar days, not instants: conversions use UTC arithmetic so
+ * the local time zone never shifts a date by one day. Only "today" depends on
+ * the time zone, and is computed in the user's.
+ *
+ * @example
+ * ```ts
+ * serialToIsoDate(45306);                  // '2024-01-15'
+ * toIsoDate('15/01/2024', 'en_GB');        // '2024-01-15'
+ * todayIsoDate('Pacific/Auckland');        // today's date in Auckland
+ * ```
+ */
+
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+const MS_PER_DAY = 86_400_000;
+
+/** Day zero of spreadsheet date serials (1899-12-30), in UTC milliseconds */
+const SERIAL_EPOCH = Date.UTC(1899, 11, 30);
+
+/** Largest serial Google Sheets accepts (9999-12-31) */
+const MAX_SERIAL = 2_958_465;
+
+/** Two-digit years below this are read as 20xx, the rest as 19xx (as Sheets does) */
+const TWO_DIGIT_YEAR_PIVOT = 30;
+
+/** Formats UTC calendar components as `YYYY-MM-DD` */
+function formatIsoDate(year: number, month: number, day: number): string {
+  return `${String(year).padStart(4, '0')}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/** Builds an ISO date from components, or null when they do not name a real day */
+function isoDateFromParts(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  date.setUTCFullYear(year);
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return formatIsoDate(year, month, day);
+}
+
+/** Whether a `YYYY-MM-DD` string names a real calendar date */
+export function isValidIsoDate(value: string): boolean {
+  const match = ISO_DATE.exec(value);
+  return !!match && isoDateFromParts(Number(match[1]), Number(match[2]), Number(match[3])) !== null;
+}
+
+/**
+ * Converts a spreadsheet date serial to an ISO date. Any time-of-day
+ * fraction is dropped.
+ *
+ * @returns The ISO date, or null when the serial is out of range
+ */
+export function serialToIsoDate(serial: number): string | null {
+  if (!Number.isFinite(serial) || serial < 1 || serial > MAX_SERIAL) return null;
+  return new Date(SERIAL_EPOCH + Math.floor(serial) * MS_PER_DAY).toISOString().slice(0, 10);
+}
+
+/**
+ * Converts an ISO date to a spreadsheet date serial.
+ *
+ * @returns The serial, or null when the date is invalid
+ */
+export function isoDateToSerial(value: string): number | null {
+  if (!isValidIsoDate(value)) return null;
+  const [year, month, day] = value.split('-').map(Number);
+  return Math.round((Date.UTC(year, month - 1, day) - SERIAL_EPOCH) / MS_PER_DAY);
+}
+
+/**
+ * Order of the day, month and year fields in a locale's numeric dates.
+ * Accepts Sheets locale codes (`en_US`) as well as BCP 47 tags (`en-US`).
+ */
+function dateFieldOrder(locale: string): ('day' | 'month' | 'year')[] {
+  try {
+    return new Intl.DateTimeFormat(locale.replace(/_/g, '-'), { timeZone: 'UTC' })
+      .formatToParts(new Date(Date.UTC(2024, 0, 15)))
+      .map((part) => part.type)
+      .filter((type): type is 'day' | 'month' | 'year' => type === 'day' || type === 'month' || type === 'year');
+  } catch {
+    return ['month', 'day', 'year'];
+  }
+}
+
+/**
+ * Parses a numeric date written in a locale's field order, e.g. `1/15/2024`
+ * (en_US), `15/01/2024` (en_GB) or `15.01.24` (de_DE). Year-first dates such as
+ * `2024/01/15` are accepted in any locale.
+ *
+ * @param value - The date text
+ * @param locale - Locale whose field order applies (default: the user's)
+ * @returns The ISO date, or null when the text is not such a date
+ */
+export function parseLocaleDate(value: string, locale: string = navigatorLocale()): string | null {
+  const parts = value.trim().split(/[\s./-]+/);
+  if (parts.length !== 3 || !parts.every((part) => /^\d{1,4}$/.test(part))) return null;
+
+  const order = parts[0].length === 4 ? (['year', 'month', 'day'] as const) : dateFieldOrder(locale);
+  const fields: Record<string, number> = {};
+  order.forEach((field, index) => {
+    fields[field] = Number(parts[index]);
+  });
+
+  let year = fields.year;
+  if (parts[order.indexOf('year')].length <= 2) {
+    year += year < TWO_DIGIT_YEAR_PIVOT ? 2000 : 1900;
+  }
+  return isoDateFromParts(year, fields.month, fields.day);
+}
+
+function navigatorLocale(): string {
+  return typeof navigator !== 'undefined' && navigator.language ? navigator.language : 'en-US';
+}
+
+/**
+ * Converts a date as read from a data source to ISO `YYYY-MM-DD`: ISO strings
+ * pass through, numbers are read as spreadsheet serials and other strings as
+ * locale-formatted dates.
+ *
+ * @param value - Cell value
+ * @param locale - Locale of formatted dates, e.g. the spreadsheet's `en_GB`
+ * @returns The ISO date, or null when the value is not a recognisable date
+ */
+export function toIsoDate(value: unknown, locale?: string): string | null {
+  if (typeof value === 'number') return serialToIsoDate(value);
+  if (typeof value !== 'string') return null;
+  const text = value.trim();
+  if (ISO_DATE.test(text)) return isValidIsoDate(text) ? text : null;
+  return parseLocaleDate(text, locale);
+}
+
+/**
+ * Today's date as ISO `YYYY-MM-DD` in a time zone.
+ *
+ * @param timeZone - IANA time zone (default: the user's)
+ */
+export function todayIsoDate(timeZone?: string, now: Date = new Date()): string {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+  }).formatToParts(now);
+  const field = (type: string) => Number(parts.find((part) => part.type === type)?.value);
+  return formatIsoDate(field('year'), field('month'), field('day'));
+}
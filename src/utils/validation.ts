@@ -4,7 +4,9 @@
  * Provides reusable validation functions with descriptive error messages.
  */
 
-import type { Vendor, VendorFormData } from '../types/vendor';
+import type { Vendor, NewVendor, VendorFormData, VendorFieldErrors } from '../types/vendor';
+import { BUSINESS_TYPES, YEARS_IN_BUSINESS } from '../constants/vendor';
+import { isValidIsoDate } from './dates';
 
 /**
  * Validation result returned by validation functions.
@@ -76,13 +78,79 @@ export function isDuplicateVendor(
   );
 }
 
+/**
+ * Validates a vendor record before it is written by a data service.
+ * Mirrors the form's mandatory-field rules and also checks value ranges,
+ * since records can arrive from other clients than the form.
+ *
+ * @param vendor - The vendor data to validate
+ * @returns Field-level error messages (empty if valid)
+ */
+export function validateVendorRecord(vendor: NewVendor): VendorFieldErrors {
+  const errors: VendorFieldErrors = {};
+
+  if (!vendor.CompanyName?.trim()) {
+    errors.CompanyName = 'Company Name is required.';
+  }
+
+  if (!BUSINESS_TYPES.includes(vendor.BusinessType)) {
+    errors.BusinessType = vendor.BusinessType
+      ? `"${vendor.BusinessType}" is not a valid Business Type.`
+      : 'Business Type is required.';
+  }
+
+  if (
+    !Number.isInteger(vendor.YearsInBusiness) ||
+    vendor.YearsInBusiness < YEARS_IN_BUSINESS.MIN ||
+    vendor.YearsInBusiness > YEARS_IN_BUSINESS.MAX
+  ) {
+    errors.YearsInBusiness = `Years in Business must be a whole number from ${YEARS_IN_BUSINESS.MIN} to ${YEARS_IN_BUSINESS.MAX}.`;
+  }
+
+  if (!vendor.OnboardingDate) {
+    errors.OnboardingDate = 'Onboarding Date is required.';
+  } else if (!isValidIsoDate(vendor.OnboardingDate)) {
+    errors.OnboardingDate = 'Onboarding Date must be a valid date (YYYY-MM-DD).';
+  }
+
+  return errors;
+}
+
+/** Form field corresponding to each vendor field */
+const FORM_FIELDS: Record<keyof NewVendor, keyof VendorFormData | null> = {
+  VendorId: null,
+  CompanyName: 'companyName',
+  BusinessType: 'businessType',
+  Products: 'products',
+  YearsInBusiness: 'yearsInBusiness',
+  OnboardingDate: 'onboardingDate',
+  AdditionalInfo: 'additionalInfo',
+};
+
+/**
+ * Maps field errors reported by a data service onto form field names,
+ * so forms can highlight the offending inputs.
+ *
+ * @param fields - Errors keyed by vendor field
+ * @returns Errors keyed by form field
+ */
+export function toFormFieldErrors(fields: VendorFieldErrors): Record<string, string> {
+  const errors: Record<string, string> = {};
+  (Object.keys(fields) as (keyof NewVendor)[]).forEach((field) => {
+    const formField = FORM_FIELDS[field];
+    if (formField && fields[field]) errors[formField] = fields[field];
+  });
+  return errors;
+}
+
 /**
  * Converts VendorFormData to a Vendor object suitable for the spreadsheet.
+ * The result has no `VendorId`; the data service assigns one on creation.
  *
  * @param formData - The form data to convert
- * @returns A Vendor object with properly formatted fields
+ * @returns A NewVendor object with properly formatted fields
  */
-export function formDataToVendor(formData: VendorFormData): Vendor {
+export function formDataToVendor(formData: VendorFormData): NewVendor {
   return {
     CompanyName: formData.companyName.trim(),
     BusinessType: formData.businessType as Vendor['BusinessType'],
@@ -0,0 +1,112 @@
+/**
+ * @module utils/vendorDiff
+ * @description Differences between two versions of the vendor list.
+ *
+ * Used to report edits made directly in the spreadsheet: each background
+ * reload is compared with the list on screen. Vendors are matched by
+ * `VendorId` and compared field by field, because edits in the sheet itself
+ * do not bump `Revision`.
+ *
+ * @example
+ * ```ts
+ * const diff = diffVendors(vendors, fresh);
+ * if (!isEmptyDiff(diff)) {
+ *   console.log(`${diff.added.length} added, ${diff.changed.length} changed`);
+ * }
+ * ```
+ */
+
+import type { Vendor } from '../types/vendor';
+
+/** A vendor present in both versions with different values */
+export interface VendorChange {
+  before: Vendor;
+  after: Vendor;
+}
+
+/** Added, changed and removed vendors, each in list order */
+export interface VendorDiff {
+  added: Vendor[];
+  changed: VendorChange[];
+  removed: Vendor[];
+}
+
+export const EMPTY_DIFF: VendorDiff = { added: [], changed: [], removed: [] };
+
+/** Fields compared between versions */
+const COMPARED_FIELDS: readonly (keyof Vendor)[] = [
+  'CompanyName',
+  'BusinessType',
+  'Products',
+  'YearsInBusiness',
+  'OnboardingDate',
+  'AdditionalInfo',
+  'Revision',
+];
+
+/** Whether two versions of a vendor hold the same values */
+export function sameVendor(a: Vendor, b: Vendor): boolean {
+  return COMPARED_FIELDS.every((field) => a[field] === b[field]);
+}
+
+/**
+ * Compares two versions of the vendor list.
+ *
+ * @param previous - The list as it was
+ * @param next - The list as it is now
+ */
+export function diffVendors(previous: readonly Vendor[], next: readonly Vendor[]): VendorDiff {
+  const before = new Map(previous.map((vendor) => [vendor.VendorId, vendor]));
+  const after = new Set(next.map((vendor) => vendor.VendorId));
+
+  const added: Vendor[] = [];
+  const changed: VendorChange[] = [];
+  next.forEach((vendor) => {
+    const old = before.get(vendor.VendorId);
+    if (!old) added.push(vendor);
+    else if (!sameVendor(old, vendor)) changed.push({ before: old, after: vendor });
+  });
+
+  return { added, changed, removed: previous.filter((vendor) => !after.has(vendor.VendorId)) };
+}
+
+/** Whether a diff contains no changes */
+export function isEmptyDiff(diff: VendorDiff): boolean {
+  return diff.added.length === 0 && diff.changed.length === 0 && diff.removed.length === 0;
+}
+
+/**
+ * Combines two consecutive diffs into one spanning both, so changes found by
+ * successive reloads can be reported together. A vendor added and then
+ * removed drops out; one removed and then added again counts as changed.
+ *
+ * @param earlier - Diff from the first version to the second
+ * @param later - Diff from the second version to the third
+ */
+export function mergeVendorDiffs(earlier: VendorDiff, later: VendorDiff): VendorDiff {
+  type Entry = { before?: Vendor; after?: Vendor };
+  const entries = new Map<string, Entry>();
+
+  const record = (id: string, before: Vendor | undefined, after: Vendor | undefined) => {
+    const existing = entries.get(id);
+    entries.set(id, { before: existing ? existing.before : before, after });
+  };
+
+  [earlier, later].forEach((diff) => {
+    diff.added.forEach((vendor) => record(vendor.VendorId, undefined, vendor));
+    diff.changed.forEach(({ before, after }) => record(after.VendorId, before, after));
+    diff.removed.forEach((vendor) => record(vendor.VendorId, vendor, undefined));
+  });
+
+  const merged: VendorDiff = { added: [], changed: [], removed: [] };
+  entries.forEach(({ before, after }) => {
+    if (before && after) {
+      if (!sameVendor(before, after)) merged.changed.push({ before, after });
+    } else if (after) {
+      merged.added.push(after);
+    } else if (before) {
+      merged.removed.push(before);
+    }
+  });
+  return merged;
+}
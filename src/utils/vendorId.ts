@@ -0,0 +1,53 @@
+/**
+ * @module utils/vendorId
+ * @description Helpers for generating and working with stable vendor IDs.
+ * Vendors are addressed by `VendorId` rather than by company name, so renames
+ * and duplicate names do not break lookups.
+ */
+
+import type { Vendor } from '../types/vendor';
+
+/**
+ * Generates a new unique vendor ID.
+ *
+ * @returns A random UUID string
+ */
+export function generateVendorId(): string {
+  return crypto.randomUUID();
+}
+
+/**
+ * Assigns IDs to any vendors that are missing one.
+ *
+ * @param vendors - Vendor records, possibly lacking IDs (e.g. legacy rows)
+ * @returns The vendors with IDs and the indexes of the records that were backfilled
+ */
+export function ensureVendorIds(vendors: Vendor[]): { vendors: Vendor[]; backfilled: number[] } {
+  const backfilled: number[] = [];
+  const withIds = vendors.map((vendor, index) => {
+    if (vendor.VendorId) return vendor;
+    backfilled.push(index);
+    return { ...vendor, VendorId: generateVendorId() };
+  });
+  return { vendors: withIds, backfilled };
+}
+
+/**
+ * Builds select options for choosing a vendor by ID.
+ * Company names that occur more than once are disambiguated with their onboarding date.
+ *
+ * @param vendors - Vendors to list
+ * @returns Options with the vendor ID as value and a readable label
+ */
+export function vendorSelectOptions(vendors: Vendor[]): { value: string; label: string }[] {
+  const nameCounts = new Map<string, number>();
+  vendors.forEach((v) => nameCounts.set(v.CompanyName, (nameCounts.get(v.CompanyName) ?? 0) + 1));
+
+  return vendors.map((v) => ({
+    value: v.VendorId,
+    label:
+      (nameCounts.get(v.CompanyName) ?? 0) > 1
+        ? `${v.CompanyName} (onboarded ${v.OnboardingDate || 'unknown'})`
+        : v.CompanyName,
+  }));
+}
@@ -0,0 +1,297 @@
+/**
+ * @module utils/vendorImport
+ * @description Planning of CSV imports for the import wizard: reading the
+ * file, mapping its columns to vendor fields, validating every row and
+ * deciding what to do with duplicates.
+ *
+ * Rows are parsed like data read from the sheet (see `utils/vendorSchema`),
+ * so business types in any case, locale-formatted dates and the like are
+ * normalised. Optional fields that are unmapped or blank get the new-vendor
+ * form's defaults (`getDefaultFormValues`), with a warning for blank cells.
+ * Each row is then checked with `validateMandatoryFields` and
+ * `validateVendorRecord`, and compared by company name (`isDuplicateVendor`)
+ * with the existing vendors and the rows above it.
+ *
+ * @example
+ * ```ts
+ * const file = parseImportFile(await file.text());
+ * const mapping = guessColumnMapping(file.headers);
+ * const rows = previewImport(file, mapping, vendors);
+ * const plan = planImport(rows, mapping, 'skip', vendors);
+ * ```
+ */
+
+import type { NewVendor, Vendor, VendorFieldErrors, VendorUpdateInput } from '../types/vendor';
+import { normalizeHeader } from '../services/sheetColumns';
+import { getDefaultFormValues } from '../constants/vendor';
+import { parseCsv, toCsv } from './csv';
+import {
+  formDataToVendor,
+  isDuplicateVendor,
+  validateMandatoryFields,
+  validateVendorRecord,
+  vendorToFormData,
+} from './validation';
+import { parseVendor, type RawValue, type VendorColumn } from './vendorSchema';
+
+/** Vendor fields a CSV column can be mapped to */
+export type ImportField = Exclude<keyof NewVendor, 'VendorId'>;
+
+/** Source column index of each mapped field */
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+/** What to do with rows whose company already exists */
+export type DuplicateStrategy = 'skip' | 'overwrite' | 'rename';
+
+/** Importable fields, with their labels and header names matched automatically */
+export const IMPORT_FIELDS: readonly { field: ImportField; label: string; aliases: readonly string[] }[] = [
+  { field: 'CompanyName', label: 'Company Name', aliases: ['company', 'name', 'vendor', 'supplier'] },
+  { field: 'BusinessType', label: 'Business Type', aliases: ['type', 'category'] },
+  { field: 'Products', label: 'Products', aliases: ['product'] },
+  { field: 'YearsInBusiness', label: 'Years in Business', aliases: ['years'] },
+  { field: 'OnboardingDate', label: 'Onboarding Date', aliases: ['date', 'onboarded'] },
+  { field: 'AdditionalInfo', label: 'Additional Info', aliases: ['notes', 'comments', 'info'] },
+];
+
+/** Fields not required by `validateMandatoryFields`; defaulted when unmapped or blank */
+const OPTIONAL_FIELDS: readonly ImportField[] = ['Products', 'YearsInBusiness', 'AdditionalInfo'];
+
+/** A CSV file as read for import */
+export interface ImportFile {
+  /** Header row */
+  headers: string[];
+  /** Data rows, padded to the header width */
+  rows: string[][];
+}
+
+/** One data row, validated */
+export interface ImportRow {
+  /** Row number in the file, counting the header as row 1 */
+  row: number;
+  /** The row's cells as read */
+  cells: string[];
+  /** The vendor the row maps to */
+  vendor: NewVendor;
+  /** Why the row cannot be imported (empty if valid) */
+  errors: string[];
+  /** Values that were kept but look wrong */
+  warnings: string[];
+  /** Existing vendor with the same company name */
+  duplicateOf: Vendor | null;
+  /** Earlier row of the file with the same company name */
+  duplicateRow: number | null;
+}
+
+/** A row left out of the import */
+export interface RejectedImportRow {
+  row: ImportRow;
+  reason: string;
+}
+
+/** What an import will write */
+export interface ImportPlan {
+  /** New vendors, with the rows they come from */
+  adds: { row: ImportRow; vendor: NewVendor }[];
+  /** Existing vendors to overwrite, with the rows they come from */
+  overwrites: { row: ImportRow; update: VendorUpdateInput }[];
+  /** Rows left out, with why */
+  rejected: RejectedImportRow[];
+}
+
+const DELIMITERS = [',', ';', '\t'] as const;
+
+/**
+ * Reads a CSV file. The delimiter (comma, semicolon or tab) is the one that
+ * occurs most often in the first line, so spreadsheets exported in locales
+ * that use semicolons read correctly.
+ *
+ * @param text - File content
+ * @returns Header and data rows; both empty for an empty file
+ */
+export function parseImportFile(text: string): ImportFile {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  const delimiter = DELIMITERS.reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+  const [headers = [], ...rows] = parseCsv(text, delimiter);
+  return {
+    headers: headers.map((header) => header.trim()),
+    rows: rows.map((row) => headers.map((_, index) => row[index] ?? '')),
+  };
+}
+
+/**
+ * Maps each field to the first column whose header names it: the field
+ * itself (`CompanyName`), its label (`Company Name`) or a common alias
+ * (`Supplier`). Headers are compared ignoring case, spaces and punctuation.
+ *
+ * @param headers - Header row of the file
+ * @returns The columns found; fields without a match are left unmapped
+ */
+export function guessColumnMapping(headers: readonly string[]): ColumnMapping {
+  const compact = (name: string) => normalizeHeader(name).replace(/[^a-z0-9]/g, '');
+  const names = headers.map(compact);
+  const mapping: ColumnMapping = {};
+  const used = new Set<number>();
+
+  IMPORT_FIELDS.forEach(({ field, label, aliases }) => {
+    const candidates = [field, label, ...aliases].map(compact);
+    const index = names.findIndex((name, column) => !used.has(column) && candidates.includes(name));
+    if (index !== -1) {
+      mapping[field] = index;
+      used.add(index);
+    }
+  });
+  return mapping;
+}
+
+/** Validates one row and returns its vendor, errors and warnings */
+function validateRow(cells: string[], mapping: ColumnMapping, row: number) {
+  const raw: Partial<Record<VendorColumn, RawValue>> = {};
+  IMPORT_FIELDS.forEach(({ field }) => {
+    const column = mapping[field];
+    if (column !== undefined) raw[field] = cells[column];
+  });
+
+  const defaults = formDataToVendor(getDefaultFormValues());
+  const defaulted: string[] = [];
+  OPTIONAL_FIELDS.forEach((field) => {
+    if (String(raw[field] ?? '').trim()) return;
+    raw[field] = defaults[field];
+    const label = IMPORT_FIELDS.find((entry) => entry.field === field)!.label;
+    if (mapping[field] !== undefined && defaults[field] !== '') {
+      defaulted.push(`${label} is empty; using the default of ${defaults[field]}.`);
+    }
+  });
+
+  const { vendor: parsed, issues } = parseVendor(raw, { row });
+  const formData = vendorToFormData(parsed);
+  const vendor = formDataToVendor(formData);
+
+  // Mandatory-field messages first; field checks add what they do not cover
+  const missing = validateMandatoryFields(formData).errors;
+  const invalid: VendorFieldErrors = validateVendorRecord(vendor);
+  issues
+    .filter((issue) => issue.severity === 'error' && issue.field !== 'VendorId' && issue.field !== 'Revision')
+    .forEach((issue) => {
+      invalid[issue.field as ImportField] = issue.message;
+    });
+  const reported = (field: ImportField) =>
+    ['CompanyName', 'BusinessType', 'OnboardingDate'].includes(field) && !String(vendor[field]).trim();
+  const errors = [
+    ...missing,
+    ...(Object.entries(invalid) as [ImportField, string][])
+      .filter(([field]) => !reported(field))
+      .map(([, message]) => message),
+  ];
+
+  const warnings = [
+    ...defaulted,
+    ...issues.filter((issue) => issue.severity === 'warning' && !(issue.field in invalid)).map((issue) => issue.message),
+  ];
+
+  return { vendor, errors, warnings };
+}
+
+/**
+ * Validates every data row of a file and finds duplicates: company names
+ * that already exist, and names repeated within the file (the first
+ * valid occurrence is kept, later ones point at it).
+ *
+ * @param file - The file, from {@link parseImportFile}
+ * @param mapping - Source column of each field
+ * @param existing - Vendors already stored
+ * @returns One entry per data row, in file order
+ */
+export function previewImport(file: ImportFile, mapping: ColumnMapping, existing: Vendor[]): ImportRow[] {
+  const earlier: { row: number; vendor: Vendor }[] = [];
+
+  return file.rows.map((cells, index) => {
+    const row = index + 2;
+    const { vendor, errors, warnings } = validateRow(cells, mapping, row);
+    const name = vendor.CompanyName;
+
+    const duplicateOf = name ? existing.find((candidate) => isDuplicateVendor(name, [candidate])) ?? null : null;
+    const first = name ? earlier.find((entry) => isDuplicateVendor(name, [entry.vendor])) : undefined;
+    if (name && !first && errors.length === 0) earlier.push({ row, vendor: { ...vendor, VendorId: '', Revision: 0 } });
+
+    return { row, cells, vendor, errors, warnings, duplicateOf, duplicateRow: first?.row ?? null };
+  });
+}
+
+/** Company name made unique by appending `(2)`, `(3)`… */
+function uniqueName(name: string, taken: Set<string>): string {
+  let suffix = 2;
+  while (taken.has(`${name} (${suffix})`.toLowerCase())) suffix++;
+  return `${name} (${suffix})`;
+}
+
+/**
+ * Decides what happens to each previewed row. Invalid rows are rejected.
+ * Duplicates are skipped, overwrite the existing vendor (keeping the values
+ * of unmapped fields, and failing if it changed since the preview), or are
+ * added under a numbered name. Repeats within the file are rejected unless
+ * renamed, since the file does not say which copy is right.
+ *
+ * @param rows - Rows from {@link previewImport}
+ * @param mapping - The mapping the rows were previewed with
+ * @param strategy - What to do with duplicates
+ * @param existing - Vendors already stored
+ * @returns The adds, overwrites and rejected rows
+ */
+export function planImport(
+  rows: ImportRow[],
+  mapping: ColumnMapping,
+  strategy: DuplicateStrategy,
+  existing: Vendor[]
+): ImportPlan {
+  const plan: ImportPlan = { adds: [], overwrites: [], rejected: [] };
+  const taken = new Set(existing.map((vendor) => vendor.CompanyName.toLowerCase().trim()));
+  const mapped = IMPORT_FIELDS.filter(({ field }) => mapping[field] !== undefined).map(({ field }) => field);
+
+  rows.forEach((row) => {
+    const { vendor, duplicateOf, duplicateRow } = row;
+
+    if (row.errors.length > 0) {
+      plan.rejected.push({ row, reason: row.errors.join(' ') });
+    } else if ((duplicateOf || duplicateRow) && strategy === 'rename') {
+      const renamed = { ...vendor, CompanyName: uniqueName(vendor.CompanyName, taken) };
+      taken.add(renamed.CompanyName.toLowerCase());
+      plan.adds.push({ row, vendor: renamed });
+    } else if (duplicateRow) {
+      plan.rejected.push({ row, reason: `Same company as row ${duplicateRow}.` });
+    } else if (duplicateOf && strategy === 'skip') {
+      plan.rejected.push({ row, reason: `"${duplicateOf.CompanyName}" already exists; skipped.` });
+    } else if (duplicateOf) {
+      const merged: NewVendor = {
+        ...formDataToVendor(vendorToFormData(duplicateOf)),
+        ...Object.fromEntries(mapped.map((field) => [field, vendor[field]])),
+      };
+      plan.overwrites.push({
+        row,
+        update: { vendorId: duplicateOf.VendorId, vendor: merged, expectedRevision: duplicateOf.Revision },
+      });
+    } else {
+      taken.add(vendor.CompanyName.toLowerCase());
+      plan.adds.push({ row, vendor });
+    }
+  });
+
+  return plan;
+}
+
+/**
+ * Builds the error report of rejected rows: the original columns followed
+ * by the row number and the reason. Fixed rows can be imported again from
+ * the report, since the extra columns are left unmapped.
+ *
+ * @param headers - Header row of the imported file
+ * @param rejected - Rows left out of the import
+ * @returns CSV text
+ */
+export function importErrorReport(headers: readonly string[], rejected: readonly RejectedImportRow[]): string {
+  return toCsv([
+    [...headers, 'Row', 'Error'],
+    ...rejected.map(({ row, reason }) => [...row.cells, row.row, reason]),
+  ]);
+}
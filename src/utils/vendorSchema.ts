@@ -0,0 +1,241 @@
+/**
+ * @module utils/vendorSchema
+ * @description Runtime parser for vendor records read from a data source.
+ *
+ * Sheet cells can hold anything a person typed: an unknown business type, a
+ * number where a date belongs, text in the years column. Instead of casting
+ * such rows to `Vendor`, the parser normalises what it can (trimming, enum
+ * casing, numeric strings, date serials and locale dates, formula escapes)
+ * and reports everything else as a {@link VendorIssue} tied to the sheet row
+ * and column, so the UI can flag the row.
+ *
+ * @example
+ * ```ts
+ * const { vendor, issues } = parseVendor(
+ *   { CompanyName: ' Acme ', BusinessType: 'retailer', YearsInBusiness: 'ten' },
+ *   { row: 5, columnOf: (field) => 'D' }
+ * );
+ * // vendor.BusinessType === 'Retailer'; issues[0].field === 'YearsInBusiness'
+ * ```
+ */
+
+import type { Vendor, BusinessType, Product, VendorIssue, IssueSeverity } from '../types/vendor';
+import { BUSINESS_TYPES, PRODUCTS, YEARS_IN_BUSINESS, SHEET_COLUMNS } from '../constants/vendor';
+import { ensureVendorIds } from './vendorId';
+import { toIsoDate } from './dates';
+import { unescapeFormula } from './sanitize';
+
+/** A raw cell value as read from a data source */
+export type RawValue = string | number | boolean | null | undefined;
+
+/** A vendor property stored in its own column */
+export type VendorColumn = keyof Vendor;
+
+/** Result of parsing one record */
+export interface ParsedVendor {
+  vendor: Vendor;
+  issues: VendorIssue[];
+}
+
+/** Where a record came from, for issue reporting */
+export interface ParseContext {
+  /** Sheet row number or record position */
+  row: number;
+  /** Resolves the sheet column letter of a field */
+  columnOf?: (field: VendorColumn) => string;
+  /** Locale of formatted date text, e.g. the spreadsheet's `en_GB` */
+  locale?: string;
+}
+
+const isBlank = (value: RawValue) => value === null || value === undefined || String(value).trim() === '';
+
+/**
+ * Whether a raw record has no values at all, like a blank row between
+ * vendors in the sheet. Such records hold no vendor and must not be parsed.
+ *
+ * @param record - Cell values keyed by vendor field
+ */
+export function isBlankRecord(record: Partial<Record<VendorColumn, RawValue>>): boolean {
+  return Object.values(record).every(isBlank);
+}
+
+/** Case-insensitive lookup of an enum member */
+function matchEnum<T extends string>(options: readonly T[], value: string): T | undefined {
+  const normalized = value.trim().toLowerCase();
+  return options.find((option) => option.toLowerCase() === normalized);
+}
+
+/**
+ * Parses a raw record into a `Vendor`, normalising values and collecting issues.
+ *
+ * @param raw - Cell values keyed by vendor field
+ * @param context - Row number and column resolver for issue reporting
+ * @returns The normalised vendor and any issues found
+ */
+export function parseVendor(raw: Partial<Record<VendorColumn, RawValue>>, context: ParseContext): ParsedVendor {
+  const issues: VendorIssue[] = [];
+
+  const report = (field: VendorColumn, severity: IssueSeverity, message: string) => {
+    issues.push({
+      row: context.row,
+      column: context.columnOf?.(field),
+      field,
+      value: raw[field],
+      message,
+      severity,
+    });
+  };
+
+  const text = (field: VendorColumn) => (isBlank(raw[field]) ? '' : unescapeFormula(String(raw[field]).trim()));
+
+  // CompanyName
+  const companyName = text(SHEET_COLUMNS.COMPANY_NAME);
+  if (!companyName) {
+    report(SHEET_COLUMNS.COMPANY_NAME, 'error', 'Company name is empty.');
+  }
+
+  // BusinessType
+  const rawType = text(SHEET_COLUMNS.BUSINESS_TYPE);
+  let businessType = matchEnum(BUSINESS_TYPES, rawType);
+  if (!businessType) {
+    report(
+      SHEET_COLUMNS.BUSINESS_TYPE,
+      'error',
+      rawType
+        ? `"${rawType}" is not a known business type (expected one of ${BUSINESS_TYPES.join(', ')}).`
+        : 'Business type is empty.'
+    );
+    businessType = rawType as BusinessType;
+  }
+
+  // Products: known products are normalised; unknown ones are kept but flagged
+  const products = text(SHEET_COLUMNS.PRODUCTS)
+    .split(',')
+    .map((product) => product.trim())
+    .filter(Boolean)
+    .map((product) => matchEnum(PRODUCTS, product) ?? product);
+  const unknownProducts = products.filter((product) => !PRODUCTS.includes(product as Product));
+  if (unknownProducts.length > 0) {
+    report(
+      SHEET_COLUMNS.PRODUCTS,
+      'warning',
+      `Unknown product${unknownProducts.length !== 1 ? 's' : ''}: ${unknownProducts.join(', ')}.`
+    );
+  }
+
+  // YearsInBusiness
+  const rawYears = raw[SHEET_COLUMNS.YEARS_IN_BUSINESS];
+  let yearsInBusiness = isBlank(rawYears) ? NaN : Number(rawYears);
+  if (typeof rawYears === 'boolean' || !Number.isFinite(yearsInBusiness)) {
+    report(
+      SHEET_COLUMNS.YEARS_IN_BUSINESS,
+      'error',
+      isBlank(rawYears) ? 'Years in business is empty.' : `"${rawYears}" is not a number.`
+    );
+    yearsInBusiness = 0;
+  } else if (
+    !Number.isInteger(yearsInBusiness) ||
+    yearsInBusiness < YEARS_IN_BUSINESS.MIN ||
+    yearsInBusiness > YEARS_IN_BUSINESS.MAX
+  ) {
+    report(
+      SHEET_COLUMNS.YEARS_IN_BUSINESS,
+      'warning',
+      `${yearsInBusiness} is outside ${YEARS_IN_BUSINESS.MIN}–${YEARS_IN_BUSINESS.MAX} whole years.`
+    );
+  }
+
+  // OnboardingDate: ISO text, a spreadsheet serial or a locale-formatted date
+  const rawDate = raw[SHEET_COLUMNS.ONBOARDING_DATE];
+  let onboardingDate = text(SHEET_COLUMNS.ONBOARDING_DATE);
+  if (!onboardingDate) {
+    report(SHEET_COLUMNS.ONBOARDING_DATE, 'error', 'Onboarding date is empty.');
+  } else {
+    const isoDate = toIsoDate(rawDate, context.locale);
+    if (isoDate) {
+      onboardingDate = isoDate;
+    } else {
+      report(
+        SHEET_COLUMNS.ONBOARDING_DATE,
+        'error',
+        typeof rawDate === 'number'
+          ? `Expected a date, found the number ${rawDate}.`
+          : `"${onboardingDate}" is not a valid date (expected YYYY-MM-DD).`
+      );
+      if (typeof rawDate === 'number') onboardingDate = '';
+    }
+  }
+
+  // Revision: missing on rows written before revisions existed
+  const rawRevision = raw[SHEET_COLUMNS.REVISION];
+  let revision = isBlank(rawRevision) ? 0 : Number(rawRevision);
+  if (!Number.isInteger(revision) || revision < 0) {
+    report(SHEET_COLUMNS.REVISION, 'warning', `"${rawRevision}" is not a valid revision; treating it as 0.`);
+    revision = 0;
+  }
+
+  const vendor: Vendor = {
+    VendorId: text(SHEET_COLUMNS.VENDOR_ID),
+    CompanyName: companyName,
+    BusinessType: businessType,
+    Products: products.join(', '),
+    YearsInBusiness: yearsInBusiness,
+    OnboardingDate: onboardingDate,
+    AdditionalInfo: isBlank(raw[SHEET_COLUMNS.ADDITIONAL_INFO])
+      ? ''
+      : unescapeFormula(String(raw[SHEET_COLUMNS.ADDITIONAL_INFO])),
+    Revision: revision,
+  };
+
+  return { vendor, issues };
+}
+
+/**
+ * Tags issues with the vendor they belong to, once IDs have been assigned.
+ *
+ * @param issues - Issues from {@link parseVendor}
+ * @param vendor - The vendor the issues belong to
+ */
+export function attachVendor(issues: VendorIssue[], vendor: Vendor): VendorIssue[] {
+  return issues.map((issue) => ({
+    ...issue,
+    vendorId: vendor.VendorId,
+    companyName: vendor.CompanyName,
+  }));
+}
+
+/**
+ * Groups issues by vendor ID, for flagging table rows.
+ *
+ * @param issues - Issues from a fetch
+ * @returns Map of vendor ID to its issues
+ */
+export function issuesByVendor(issues: VendorIssue[]): Map<string, VendorIssue[]> {
+  const grouped = new Map<string, VendorIssue[]>();
+  issues.forEach((issue) => {
+    if (!issue.vendorId) return;
+    grouped.set(issue.vendorId, [...(grouped.get(issue.vendorId) ?? []), issue]);
+  });
+  return grouped;
+}
+
+/**
+ * Parses a list of raw records, assigning IDs to records that have none.
+ *
+ * @param records - Raw records in storage order
+ * @param rowOf - Row number of the record at an index (default: position, 1-based)
+ * @param columnOf - Resolves the sheet column letter of a field
+ * @param locale - Locale of formatted date text
+ * @returns Parsed vendors, their issues, and the indexes of records that were given new IDs
+ */
+export function parseVendorRecords(
+  records: Partial<Record<VendorColumn, RawValue>>[],
+  rowOf: (index: number) => number = (index) => index + 1,
+  columnOf?: (field: VendorColumn) => string,
+  locale?: string
+): { vendors: Vendor[]; issues: VendorIssue[]; backfilled: number[] } {
+  const parsed = records.map((record, index) => parseVendor(record, { row: rowOf(index), columnOf, locale }));
+  const { vendors, backfilled } = ensureVendorIds(parsed.map((p) => p.vendor));
+  const issues = parsed.flatMap((p, index) => attachVendor(p.issues, vendors[index]));
+  return { vendors, issues, backfilled };
+}
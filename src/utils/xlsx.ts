@@ -0,0 +1,202 @@
+/**
+ * @module utils/xlsx
+ * @description Writes simple Excel workbooks (`.xlsx`, Office Open XML) in
+ * the browser: plain values, bold rows and dates, no formulas.
+ *
+ * Text is written as inline strings, which Excel never evaluates, so unlike
+ * CSV no formula escaping is needed. Dates are written as serial numbers
+ * with Excel's built-in date format, so they sort and filter as dates.
+ *
+ * @example
+ * ```ts
+ * const workbook = createXlsx([
+ *   { name: 'Vendors', rows: [['Company'], ['Acme']], boldRows: [0] },
+ * ]);
+ * const blob = new Blob([workbook], { type: XLSX_MIME_TYPE });
+ * ```
+ */
+
+import { columnLetter } from './a1Notation';
+import { isoDateToSerial } from './dates';
+import { createZip } from './zip';
+
+/** MIME type of `.xlsx` files */
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+/** A date cell, given as ISO `YYYY-MM-DD` */
+export interface XlsxDate {
+  date: string;
+}
+
+/** A cell value; null and undefined leave the cell empty */
+export type XlsxCell = string | number | boolean | null | undefined | XlsxDate;
+
+/** One worksheet */
+export interface XlsxSheet {
+  /** Tab name (at most 31 characters, no `[]:*?/\`) */
+  name: string;
+  /** Rows of cells, from the top */
+  rows: readonly (readonly XlsxCell[])[];
+  /** Zero-based indexes of rows to show in bold, e.g. headers */
+  boldRows?: readonly number[];
+  /** Column widths in characters, from column A */
+  columnWidths?: readonly number[];
+}
+
+/** Cell style indexes in {@link STYLES} */
+const STYLE = { bold: 1, date: 2, boldDate: 3 } as const;
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const MAIN_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PACKAGE_REL_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+
+const STYLES =
+  XML_HEADER +
+  `<styleSheet xmlns="${MAIN_NS}">` +
+  '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font>' +
+  '<font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+  '<fills count="2"><fill><patternFill patternType="none"/></fill>' +
+  '<fill><patternFill patternType="gray125"/></fill></fills>' +
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+  '<cellXfs count="4">' +
+  '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+  '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>' +
+  '<xf numFmtId="14" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '<xf numFmtId="14" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1" applyNumberFormat="1"/>' +
+  '</cellXfs>' +
+  '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>' +
+  '</styleSheet>';
+
+/** Escapes text for XML content and attributes, dropping characters XML cannot hold */
+function escapeXml(text: string): string {
+  return text
+    .replace(/[^\t\n\r\u0020-\uD7FF\uE000-\uFFFD\u{10000}-\u{10FFFF}]/gu, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/** Tab name Excel accepts: forbidden characters replaced, at most 31 characters */
+function sheetName(name: string, index: number): string {
+  return name.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, 31) || `Sheet${index + 1}`;
+}
+
+/** XML of one cell */
+function cellXml(value: XlsxCell, ref: string, bold: boolean): string {
+  if (value === null || value === undefined || value === '') return '';
+  const style = (index: number) => (index ? ` s="${index}"` : '');
+
+  if (typeof value === 'object') {
+    const serial = isoDateToSerial(value.date);
+    if (serial !== null) {
+      return `<c r="${ref}"${style(bold ? STYLE.boldDate : STYLE.date)}><v>${serial}</v></c>`;
+    }
+    value = value.date;
+  }
+  const textStyle = style(bold ? STYLE.bold : 0);
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return `<c r="${ref}"${textStyle}><v>${value}</v></c>`;
+  }
+  if (typeof value === 'boolean') {
+    return `<c r="${ref}"${textStyle} t="b"><v>${value ? 1 : 0}</v></c>`;
+  }
+  const text = escapeXml(String(value));
+  const space = /^\s|\s$|\n/.test(text) ? ' xml:space="preserve"' : '';
+  return `<c r="${ref}"${textStyle} t="inlineStr"><is><t${space}>${text}</t></is></c>`;
+}
+
+/** XML of one worksheet */
+function sheetXml(sheet: XlsxSheet): string {
+  const bold = new Set(sheet.boldRows ?? []);
+  const columns = sheet.columnWidths?.length
+    ? '<cols>' +
+      sheet.columnWidths
+        .map((width, index) => `<col min="${index + 1}" max="${index + 1}" width="${width}" customWidth="1"/>`)
+        .join('') +
+      '</cols>'
+    : '';
+  const rows = sheet.rows
+    .map((cells, rowIndex) => {
+      const ref = (columnIndex: number) => `${columnLetter(columnIndex)}${rowIndex + 1}`;
+      const content = cells.map((value, columnIndex) => cellXml(value, ref(columnIndex), bold.has(rowIndex))).join('');
+      return `<row r="${rowIndex + 1}">${content}</row>`;
+    })
+    .join('');
+  return XML_HEADER + `<worksheet xmlns="${MAIN_NS}">${columns}<sheetData>${rows}</sheetData></worksheet>`;
+}
+
+/**
+ * Builds an `.xlsx` workbook.
+ *
+ * @param sheets - Worksheets, in tab order (at least one)
+ * @param modifiedAt - Timestamp recorded in the archive (default: now)
+ * @returns The workbook bytes
+ */
+export function createXlsx(sheets: readonly XlsxSheet[], modifiedAt: Date = new Date()): Uint8Array<ArrayBuffer> {
+  const sheetEntries = sheets.map((sheet, index) => ({
+    name: `xl/worksheets/sheet${index + 1}.xml`,
+    data: sheetXml(sheet),
+  }));
+
+  const contentTypes =
+    XML_HEADER +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/xl/workbook.xml" ' +
+    'ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+    '<Override PartName="/xl/styles.xml" ' +
+    'ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+    sheetEntries
+      .map(
+        ({ name }) =>
+          `<Override PartName="/${name}" ` +
+          'ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>'
+      )
+      .join('') +
+    '</Types>';
+
+  const packageRels =
+    XML_HEADER +
+    `<Relationships xmlns="${PACKAGE_REL_NS}">` +
+    `<Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="xl/workbook.xml"/>` +
+    '</Relationships>';
+
+  const workbook =
+    XML_HEADER +
+    `<workbook xmlns="${MAIN_NS}" xmlns:r="${REL_NS}"><sheets>` +
+    sheets
+      .map(
+        (sheet, index) =>
+          `<sheet name="${escapeXml(sheetName(sheet.name, index))}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`
+      )
+      .join('') +
+    '</sheets></workbook>';
+
+  const workbookRels =
+    XML_HEADER +
+    `<Relationships xmlns="${PACKAGE_REL_NS}">` +
+    sheets
+      .map(
+        (_, index) =>
+          `<Relationship Id="rId${index + 1}" Type="${REL_NS}/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`
+      )
+      .join('') +
+    `<Relationship Id="rId${sheets.length + 1}" Type="${REL_NS}/styles" Target="styles.xml"/>` +
+    '</Relationships>';
+
+  return createZip(
+    [
+      { name: '[Content_Types].xml', data: contentTypes },
+      { name: '_rels/.rels', data: packageRels },
+      { name: 'xl/workbook.xml', data: workbook },
+      { name: 'xl/_rels/workbook.xml.rels', data: workbookRels },
+      { name: 'xl/styles.xml', data: STYLES },
+      ...sheetEntries,
+    ],
+    modifiedAt
+  );
+}
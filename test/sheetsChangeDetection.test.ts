@@ -0,0 +1,109 @@
+/**
+ * Change detection of `createGoogleSheetsService` against the Sheets API
+ * stand-in: polls must report edits typed directly into the sheet, which do
+ * not bump a vendor's Revision, with and without the Drive API.
+ */
+
+import { after, before, beforeEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawn, type ChildProcess } from 'node:child_process';
+import { once } from 'node:events';
+import type { SheetsCredentialProvider } from '../src/types/vendor';
+import { createGoogleSheetsService } from '../src/services/googleSheetsService';
+import { columnLetter } from '../src/utils/a1Notation';
+import { diffVendors } from '../src/utils/vendorDiff';
+
+const PORT = 4520;
+const BASE_URL = `http://localhost:${PORT}`;
+const SPREADSHEET_ID = 'standin-spreadsheet';
+const WORKSHEET = 'Vendors';
+const AUTH = { Authorization: 'Bearer test-token' };
+
+const credentials: SheetsCredentialProvider = {
+  kind: 'oauth',
+  canWrite: true,
+  authorize: async () => ({ headers: AUTH, query: {} }),
+  invalidate() {},
+};
+
+let standin: ChildProcess;
+
+before(async () => {
+  standin = spawn(process.execPath, ['--import', 'tsx', 'server/standins/sheetsApi.ts'], {
+    env: { ...process.env, SHEETS_STANDIN_PORT: String(PORT) },
+    stdio: ['ignore', 'pipe', 'inherit'],
+  });
+  const [output] = (await once(standin.stdout!, 'data')) as [Buffer];
+  assert.match(output.toString(), /listening/);
+});
+
+after(() => {
+  standin.kill();
+});
+
+beforeEach(async () => {
+  await fetch(`${BASE_URL}/__standin/reset`, { method: 'POST' });
+});
+
+/** Sheets values URL of a range of the worksheet */
+function valuesUrl(range: string): string {
+  return `${BASE_URL}/v4/spreadsheets/${SPREADSHEET_ID}/values/${encodeURIComponent(`'${WORKSHEET}'!${range}`)}`;
+}
+
+/** Writes a cell the way a person editing the sheet would: no Revision bump */
+async function editCell(field: string, sheetRow: number, value: string | number): Promise<void> {
+  const header = await fetch(valuesUrl('1:1'), { headers: AUTH }).then((res) => res.json());
+  const column = columnLetter((header.values[0] as string[]).indexOf(field));
+  const response = await fetch(`${valuesUrl(`${column}${sheetRow}`)}?valueInputOption=RAW`, {
+    method: 'PUT',
+    headers: { ...AUTH, 'Content-Type': 'application/json' },
+    body: JSON.stringify({ values: [[value]] }),
+  });
+  assert.equal(response.status, 200);
+}
+
+for (const [name, driveApiBaseUrl] of [
+  ['with the Drive version', `${BASE_URL}/drive/v3/files`],
+  ['with the row checksum (no Drive API)', `${BASE_URL}/no-drive`],
+]) {
+  test(`reports a cell edited directly in the sheet ${name}`, async () => {
+    const service = createGoogleSheetsService({
+      spreadsheetId: SPREADSHEET_ID,
+      worksheetName: WORKSHEET,
+      credentials,
+      apiBaseUrl: `${BASE_URL}/v4/spreadsheets`,
+      driveApiBaseUrl,
+    });
+    assert.ok((await service.initialize!()).success);
+    for (const companyName of ['Acme', 'Globex']) {
+      const added = await service.addVendor({
+        CompanyName: companyName,
+        BusinessType: 'Retailer',
+        Products: '',
+        YearsInBusiness: 5,
+        OnboardingDate: '2024-01-15',
+        AdditionalInfo: '',
+      });
+      assert.ok(added.success);
+    }
+
+    const first = await service.fetchVendors();
+    assert.ok(first.success);
+    assert.equal((await service.fetchVendors()).unchanged, true);
+
+    // Row 3 holds Globex: neither its VendorId nor its Revision changes
+    await editCell('YearsInBusiness', 3, 12);
+
+    const polled = await service.fetchVendors();
+    assert.ok(polled.success);
+    assert.notEqual(polled.unchanged, true);
+    const diff = diffVendors(first.data!, polled.data!);
+    assert.deepEqual(
+      diff.changed.map(({ before, after }) => [after.CompanyName, before.YearsInBusiness, after.YearsInBusiness]),
+      [['Globex', 5, 12]]
+    );
+    assert.equal(diff.changed[0].after.Revision, diff.changed[0].before.Revision);
+
+    assert.equal((await service.fetchVendors()).unchanged, true);
+  });
+}